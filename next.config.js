@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // pdfkit reads its font metrics from disk at runtime, so it must not be bundled
+    serverComponentsExternalPackages: ['pdfkit'],
+  },
 }
 
-module.exports = nextConfig 
\ No newline at end of file
+module.exports = nextConfig
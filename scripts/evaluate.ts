@@ -0,0 +1,183 @@
+// Examiner-agreement harness: scores a graded corpus with the analysis pipeline and compares runs.
+//
+//   npm run evaluate -- run --corpus <file> [--replay <recording> | --record <recording>] [--label <text>]
+//                           [--samples <n>] [--baseline <id|latest>] [--tolerance <n>] [--no-save] [--verbose]
+//   npm run evaluate -- compare <baseline id|latest> <current id|latest> [--tolerance <n>]
+//   npm run evaluate -- list
+//
+// Without --replay the provider comes from LLM_PROVIDER and the other LLM_* variables, as in the app.
+// Reports are kept in DATA_DIR (evaluations.json) so later runs can be compared against them.
+import { parseArgs } from 'util';
+import { CRITERIA, PROMPT_VERSION } from '@/lib/analysis';
+import { createProvider, LLMProvider } from '@/lib/llm';
+import {
+  compareReports,
+  DEFAULT_TOLERANCE,
+  evaluateCorpus,
+  EvaluationReport,
+  findReport,
+  listReports,
+  loadCorpus,
+  loadRecording,
+  recordReplies,
+  Recording,
+  replayProvider,
+  ReportComparison,
+  saveRecording,
+  saveReport,
+} from '@/lib/evaluation';
+
+const print = (line = '') => process.stdout.write(`${line}\n`);
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(7);
+}
+
+function printReport(report: EvaluationReport) {
+  print(`Run ${report.id}${report.label ? ` (${report.label})` : ''}, ${report.createdAt}`);
+  print(`Corpus ${report.corpus.name}: ${report.completed} of ${report.corpus.scripts} scripts scored`);
+  print(`Prompt ${report.promptVersion}, rubric ${report.rubricVersion}, provider ${report.provider}, model ${report.model}`);
+  print();
+  print(`${'Criterion'.padEnd(28)}${'Exact'.padStart(7)}${'Adjacent'.padStart(9)}${'MAE'.padStart(7)}${'Kappa'.padStart(8)}`);
+  for (const [name, stats] of [...CRITERIA.map(name => [name, report.criteria[name]] as const), ['Overall', report.overall] as const]) {
+    print(`${name.padEnd(28)}${percent(stats.exact)}  ${percent(stats.adjacent)}${stats.meanAbsoluteError.toFixed(2).padStart(7)}${stats.kappa.toFixed(2).padStart(8)}`);
+  }
+  const { errorDetection } = report;
+  print();
+  print(
+    `Errors: ${errorDetection.gold} gold, ${errorDetection.predicted} predicted, ${errorDetection.matched} found; ` +
+      `precision ${percent(errorDetection.precision).trim()}, recall ${percent(errorDetection.recall).trim()}, F1 ${errorDetection.f1.toFixed(2)}`
+  );
+  const failed = report.scripts.filter(s => s.failure);
+  if (failed.length > 0) {
+    print();
+    print('Not scored:');
+    failed.forEach(s => print(`  ${s.id}: ${s.failure}`));
+  }
+}
+
+function printComparison(comparison: ReportComparison, baseline: EvaluationReport, current: EvaluationReport) {
+  print(`Baseline ${baseline.id} (${baseline.promptVersion}) -> current ${current.id} (${current.promptVersion})`);
+  if (baseline.corpus.name !== current.corpus.name) {
+    print(`Warning: the runs used different corpora (${baseline.corpus.name}, ${current.corpus.name})`);
+  }
+  for (const c of comparison.changes.filter(c => c.delta !== 0)) {
+    print(`  ${c.regression ? '!' : ' '} ${c.metric.padEnd(36)} ${String(c.baseline).padStart(7)} -> ${String(c.current).padStart(7)} (${c.delta > 0 ? '+' : ''}${c.delta})`);
+  }
+  print(comparison.regressions.length > 0 ? `${comparison.regressions.length} metric(s) regressed` : 'No regressions');
+}
+
+function resolve(ref: string): EvaluationReport {
+  const report = findReport(ref);
+  if (!report) throw new Error(`No stored evaluation matches "${ref}"`);
+  return report;
+}
+
+async function run(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      corpus: { type: 'string' },
+      replay: { type: 'string' },
+      record: { type: 'string' },
+      label: { type: 'string' },
+      samples: { type: 'string' },
+      baseline: { type: 'string' },
+      tolerance: { type: 'string' },
+      'no-save': { type: 'boolean' },
+      verbose: { type: 'boolean' },
+    },
+  });
+  if (!values.corpus) throw new Error('--corpus <file> is required');
+  if (values.replay && values.record) throw new Error('--replay and --record cannot be used together');
+
+  const corpus = loadCorpus(values.corpus);
+  const baseline = values.baseline ? resolve(values.baseline) : undefined;
+  let providerFor: (scriptId: string) => LLMProvider | null;
+  let source: { provider: string; model: string };
+  let recording: Recording | undefined;
+
+  if (values.replay) {
+    const replayed = loadRecording(values.replay);
+    if (replayed.promptVersion !== PROMPT_VERSION) {
+      print(`Warning: the recording was made with prompt ${replayed.promptVersion}, the pipeline now uses ${PROMPT_VERSION}`);
+    }
+    providerFor = scriptId => replayProvider(replayed, scriptId);
+    source = { provider: `replay of ${replayed.provider}`, model: replayed.model };
+  } else {
+    const provider = createProvider();
+    source = { provider: provider.name, model: provider.settings.model };
+    if (values.record) {
+      const rec: Recording = { corpus: corpus.name, promptVersion: PROMPT_VERSION, ...source, recordedAt: new Date().toISOString(), replies: {} };
+      recording = rec;
+      providerFor = scriptId => recordReplies(provider, (rec.replies[scriptId] = []));
+    } else {
+      providerFor = () => provider;
+    }
+  }
+
+  // --verbose shows the raw replies and validation issues the pipeline logs only when debugging
+  if (values.verbose) process.env.DEBUG_ANALYSIS = '1';
+  const report = await evaluateCorpus(corpus, script => providerFor(script.id), source, {
+    label: values.label,
+    samples: values.samples ? Number(values.samples) : 1,
+    onScript: (outcome, i) => print(`[${i + 1}/${corpus.scripts.length}] ${outcome.id}: ${outcome.predicted ? CRITERIA.map(name => outcome.predicted![name]).join('/') : 'not scored'}`),
+  });
+
+  if (recording && values.record) {
+    saveRecording(values.record, recording);
+    print(`Recorded replies saved to ${values.record}`);
+  }
+  if (!values['no-save']) saveReport(report);
+  print();
+  printReport(report);
+
+  if (baseline) {
+    const comparison = compareReports(baseline, report, values.tolerance ? Number(values.tolerance) : DEFAULT_TOLERANCE);
+    print();
+    printComparison(comparison, baseline, report);
+    return comparison.regressions.length > 0 ? 1 : 0;
+  }
+  return 0;
+}
+
+function compare(args: string[]): number {
+  const { values, positionals } = parseArgs({ args, allowPositionals: true, options: { tolerance: { type: 'string' } } });
+  if (positionals.length !== 2) throw new Error('compare needs a baseline and a current run');
+  const [baseline, current] = positionals.map(resolve);
+  const comparison = compareReports(baseline, current, values.tolerance ? Number(values.tolerance) : DEFAULT_TOLERANCE);
+  printComparison(comparison, baseline, current);
+  return comparison.regressions.length > 0 ? 1 : 0;
+}
+
+function list(): number {
+  const reports = listReports();
+  if (reports.length === 0) print('No stored evaluations');
+  for (const r of reports) {
+    print(`${r.id}  ${r.createdAt}  ${r.corpus.name}  ${r.promptVersion}  ${r.provider} ${r.model}  kappa ${r.overall.kappa.toFixed(2)}${r.label ? `  ${r.label}` : ''}`);
+  }
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+  switch (command) {
+    case 'run':
+      return run(args);
+    case 'compare':
+      return compare(args);
+    case 'list':
+      return list();
+    default:
+      print('Usage: evaluate run --corpus <file> [options] | evaluate compare <baseline> <current> | evaluate list');
+      return 2;
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error((err as Error).message);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createSession, createUser, setUserRole } from '@/lib/auth';
+import { getRubric, listRubricVersions } from '@/lib/rubrics';
+import { GET, POST } from './route';
+
+// Collections open lazily, so this takes effect before the first account is stored
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), 'prompt-preview-'));
+
+function session(id: string, role?: 'admin'): string {
+  createUser({ id, email: `${id}@example.org`, name: id });
+  if (role) setUserRole(id, role);
+  return createSession(id);
+}
+
+let adminToken: string | undefined;
+const admin = () => (adminToken ??= session('preview-admin', 'admin'));
+
+const post = (body: unknown, token = admin()) =>
+  POST(new Request('http://localhost/api/admin/prompt', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', cookie: `wa_session=${token}` },
+    body: JSON.stringify(body),
+  }));
+
+test('the prompt preview is for admins only', async () => {
+  const student = session('preview-student');
+  assert.equal((await post({ examLevel: 'FCE', taskType: 'Essay' }, student)).status, 403);
+  assert.equal((await GET(new Request('http://localhost/api/admin/prompt'))).status, 401);
+});
+
+test('GET lists the rubric versions a preview can use', async () => {
+  const response = await GET(new Request('http://localhost/api/admin/prompt', { headers: { cookie: `wa_session=${admin()}` } }));
+  const data = await response.json();
+  assert.equal(data.rubricVersion, getRubric().version);
+  assert.deepEqual(data.rubricVersions, listRubricVersions());
+});
+
+test('POST falls back to the current rubric and a placeholder script when they are left out', async () => {
+  const response = await post({ examLevel: 'FCE', taskType: 'Essay', rubricVersion: '', firstLanguage: '' });
+  assert.equal(response.status, 200);
+  const data = await response.json();
+  assert.equal(data.rubricVersion, getRubric().version);
+  const prompt = data.messages.map((m: { content: string }) => m.content).join('\n');
+  assert.match(prompt, /\(The student's writing appears here\.\)/);
+  assert.doesNotMatch(prompt, /first language/i);
+});
+
+test('POST includes the given script and first language', async () => {
+  const data = await (await post({ examLevel: 'CAE', taskType: 'Report', writing: 'Dear committee, ...', firstLanguage: 'pl' })).json();
+  const prompt = data.messages.map((m: { content: string }) => m.content).join('\n');
+  assert.match(prompt, /Dear committee, \.\.\./);
+  assert.match(prompt, /Polish/);
+});
+
+test('POST rejects settings the examiner prompt could not be built with', async () => {
+  const problems = await Promise.all([
+    post({ examLevel: 'IELTS', taskType: 'Essay' }),
+    post({ examLevel: 'FCE', taskType: 'Proposal' }),
+    post({ examLevel: 'FCE', taskType: 'Essay', rubricVersion: 'cambridge-1999' }),
+    post({ examLevel: 'FCE', taskType: 'Essay', firstLanguage: 'tlh' }),
+  ]);
+  assert.deepEqual(await Promise.all(problems.map(async r => [r.status, (await r.json()).error])), [
+    [400, 'Unknown exam level'],
+    [400, 'Unsupported task type'],
+    [400, 'Unknown rubric'],
+    [400, 'Unsupported first language'],
+  ]);
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { AnalysisRequest } from '@/types';
+import { requireUser } from '@/lib/auth';
+import { buildExaminerMessages, PROMPT_VERSION } from '@/lib/analysis';
+import { getExamProfile, getPartSpec, isExamLevel } from '@/lib/exams';
+import { getFirstLanguage } from '@/lib/i18n';
+import { DEFAULT_RUBRIC_VERSION, getRubric, listRubricVersions } from '@/lib/rubrics';
+
+// Stands in for the student's text when the preview is asked for without one
+const SAMPLE_WRITING = "(The student's writing appears here.)";
+
+// Versions the preview can be built with
+export async function GET(request: Request) {
+  const auth = requireUser(request, ['admin']);
+  if (!auth.ok) return auth.response;
+  return NextResponse.json({
+    promptVersion: PROMPT_VERSION,
+    rubricVersion: getRubric().version,
+    defaultRubricVersion: DEFAULT_RUBRIC_VERSION,
+    rubricVersions: listRubricVersions(),
+  });
+}
+
+// The examiner messages an analysis with these settings would send, without calling the model
+export async function POST(request: Request) {
+  const auth = requireUser(request, ['admin']);
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  const { examLevel, taskType } = body;
+  if (!isExamLevel(examLevel)) {
+    return NextResponse.json({ error: 'Unknown exam level', message: `Unknown exam level "${examLevel}".` }, { status: 400 });
+  }
+  if (!taskType || !getPartSpec(examLevel, taskType)) {
+    return NextResponse.json(
+      { error: 'Unsupported task type', message: `${getExamProfile(examLevel).name} does not set a ${taskType} task.` },
+      { status: 400 }
+    );
+  }
+  const rubricVersion = body.rubricVersion || getRubric().version;
+  if (!listRubricVersions().includes(rubricVersion)) {
+    return NextResponse.json({ error: 'Unknown rubric', message: `Unknown rubric "${rubricVersion}".` }, { status: 400 });
+  }
+  const firstLanguage = body.firstLanguage || undefined;
+  if (firstLanguage !== undefined && !getFirstLanguage(firstLanguage)) {
+    return NextResponse.json(
+      { error: 'Unsupported first language', message: `First language "${firstLanguage}" is not supported.` },
+      { status: 400 }
+    );
+  }
+
+  const preview: AnalysisRequest = {
+    examLevel,
+    taskType,
+    writing: typeof body.writing === 'string' && body.writing.trim() ? body.writing : SAMPLE_WRITING,
+    taskPrompt: typeof body.taskPrompt === 'string' ? body.taskPrompt.trim() : '',
+    contentPoints: Array.isArray(body.contentPoints) ? body.contentPoints.filter((p: unknown) => typeof p === 'string' && p.trim()) : [],
+    firstLanguage,
+  };
+  return NextResponse.json({
+    promptVersion: PROMPT_VERSION,
+    rubricVersion,
+    messages: buildExaminerMessages(preview, getRubric(rubricVersion)),
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { isRole, requireUser, setUserRole } from '@/lib/auth';
+
+// Change a user's role, e.g. to make a teacher
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['admin']);
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  if (!isRole(body.role)) {
+    return NextResponse.json(
+      { error: 'Invalid role', message: 'Role must be student, teacher or admin.' },
+      { status: 400 }
+    );
+  }
+  if (params.id === auth.user.id && body.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Invalid role', message: 'Admins cannot remove their own admin role.' },
+      { status: 400 }
+    );
+  }
+
+  const user = setUserRole(params.id, body.role);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No user with this ID.' },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(user);
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { listUsers, requireUser } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  const auth = requireUser(request, ['admin']);
+  if (!auth.ok) return auth.response;
+  return NextResponse.json(listUsers());
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { AnalysisRequest, AnalysisStreamEvent } from '@/types';
+import { getProvider } from '@/lib/llm';
+import { streamAnalysis, validateAnalysisRequest } from '@/lib/analysis';
+import { checkRevisionOf, saveSubmission } from '@/lib/submissions';
+import { getRoleLimits, requireUser, resolveAnalysisStudent, roleLimitProblem } from '@/lib/auth';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { formatSseEvent } from '@/lib/sse';
+import { lookupResult, missStatus, storeResult } from '@/lib/resultCache';
+
+// Same request as POST /api/analyze, answered with server-sent events while the model writes
+export async function POST(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+  const { user } = auth;
+
+  let body: AnalysisRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request', message: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const student = resolveAnalysisStudent(user, body.studentId);
+  if (!student.ok) return student.response;
+  const studentId = student.studentId;
+  const revision = studentId ? checkRevisionOf(studentId, body.revisionOf) : { ok: true as const };
+  if (!revision.ok) {
+    return NextResponse.json(revision.problem, { status: 400 });
+  }
+
+  const validation = validateAnalysisRequest(body);
+  if (!validation.ok) {
+    return NextResponse.json(validation.problem, { status: 400 });
+  }
+  const analysisRequest = validation.request;
+
+  const limits = getRoleLimits(user.role);
+  const problem = roleLimitProblem(limits, analysisRequest);
+  if (problem) {
+    return NextResponse.json(problem, { status: 403 });
+  }
+
+  const provider = getProvider();
+  // A repeat of an earlier submission is answered from the cache without using the rate limit
+  const cached = body.reanalyze ? null : await lookupResult(analysisRequest, provider);
+  if (cached) {
+    const submission = studentId ? saveSubmission(studentId, analysisRequest, cached.result, { revisionOf: revision.revisionOf }) : null;
+    const result = { ...cached.result, ...(submission ? { submissionId: submission.id } : {}), cache: { status: 'hit' as const, cachedAt: cached.cachedAt } };
+    return new Response(formatSseEvent('result', { result }), {
+      headers: { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache, no-transform', 'X-Result-Cache': 'hit' },
+    });
+  }
+
+  const limit = await checkRateLimit(request, { userId: user.id, dailyLimit: limits.dailyAnalyses });
+  if (!limit.ok) {
+    return rateLimitResponse(limit);
+  }
+  console.log('LLM provider (streaming):', provider.name, provider.settings.model);
+  const cache = { status: missStatus(body.reanalyze) };
+
+  // Aborted when the client disconnects or cancels, which also stops the provider request
+  const abort = new AbortController();
+  request.signal?.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => {
+        if (abort.signal.aborted) return;
+        const { type, ...data } = event;
+        controller.enqueue(encoder.encode(formatSseEvent(type, data)));
+      };
+
+      try {
+        const outcome = await streamAnalysis(provider, analysisRequest, send, { signal: abort.signal });
+        // Nothing is saved for a cancelled analysis, so history only holds complete reports
+        if (abort.signal.aborted) return;
+        if (!outcome.ok) {
+          console.error('Analysis failed validation:', outcome.failure.issues);
+          send({ type: 'failure', ...outcome.failure });
+          return;
+        }
+        await storeResult(analysisRequest, provider, outcome.result);
+        const submission = studentId ? saveSubmission(studentId, analysisRequest, outcome.result, { revisionOf: revision.revisionOf }) : null;
+        send({ type: 'result', result: { ...outcome.result, ...(submission ? { submissionId: submission.id } : {}), cache } });
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log('Streaming analysis cancelled by the client');
+          return;
+        }
+        console.error('Analysis error:', error);
+        send({ type: 'failure', error: 'Failed to analyze writing', message: 'Failed to analyze writing. Please try again.' });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...limit.headers,
+      'X-Result-Cache': cache.status,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
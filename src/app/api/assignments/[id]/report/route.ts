@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { buildClassReport, DEFAULT_BAND, getAssignment, getClass } from '@/lib/classes';
+import { canManageClass, requireUser } from '@/lib/auth';
+
+// Class-wide report for an assignment; ?band= sets the "below band" threshold
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const assignment = getAssignment(params.id);
+  const schoolClass = assignment && getClass(assignment.classId);
+  if (!schoolClass || !canManageClass(auth.user, schoolClass)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No assignment with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const bandParam = new URL(request.url).searchParams.get('band');
+  const band = bandParam === null ? DEFAULT_BAND : Number(bandParam);
+  if (!Number.isFinite(band) || band < 0 || band > 5) {
+    return NextResponse.json(
+      { error: 'Invalid band', message: 'Band must be a number from 0 to 5.' },
+      { status: 400 }
+    );
+  }
+
+  const report = buildClassReport(params.id, band);
+  if (!report) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No assignment with this ID.' },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(report);
+}
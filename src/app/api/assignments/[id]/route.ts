@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getAssignment, getClass } from '@/lib/classes';
+import { canManageClass, requireUser } from '@/lib/auth';
+
+// The task as shown to students on the class roster and to the class's teacher
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const assignment = getAssignment(params.id);
+  const schoolClass = assignment && getClass(assignment.classId);
+  if (!assignment || !schoolClass || !(schoolClass.studentIds.includes(auth.user.id) || canManageClass(auth.user, schoolClass))) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No assignment with this ID.' },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ ...assignment, className: schoolClass.name });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getProvider } from '@/lib/llm';
+import { analyzeWriting, validateAnalysisRequest } from '@/lib/analysis';
+import { getAssignment, getClass, isLate } from '@/lib/classes';
+import { listAssignmentSubmissions, saveSubmission } from '@/lib/submissions';
+import { getRoleLimits, requireUser, roleLimitProblem } from '@/lib/auth';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+// Hand in a script for an assignment as the signed-in student; it is analyzed with the assignment's settings
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['student']);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const assignment = getAssignment(params.id);
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'Not found', message: 'No assignment with this ID.' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const studentId = auth.user.id;
+    if (!getClass(assignment.classId)?.studentIds.includes(studentId)) {
+      return NextResponse.json(
+        { error: 'Not enrolled', message: 'You are not on the class roster for this assignment.' },
+        { status: 403 }
+      );
+    }
+
+    const validation = validateAnalysisRequest({
+      examLevel: assignment.examLevel,
+      taskType: assignment.taskType,
+      taskPrompt: assignment.taskPrompt,
+      contentPoints: assignment.contentPoints,
+      writing: body.writing,
+      firstLanguage: body.firstLanguage,
+    });
+    if (!validation.ok) {
+      return NextResponse.json(validation.problem, { status: 400 });
+    }
+
+    const limits = getRoleLimits(auth.user.role);
+    const problem = roleLimitProblem(limits, validation.request);
+    if (problem) {
+      return NextResponse.json(problem, { status: 403 });
+    }
+
+    const limit = await checkRateLimit(request, { userId: studentId, dailyLimit: limits.dailyAnalyses });
+    if (!limit.ok) {
+      return rateLimitResponse(limit);
+    }
+
+    const outcome = await analyzeWriting(getProvider(), validation.request);
+    if (!outcome.ok) {
+      console.error('Analysis failed validation:', outcome.failure.issues);
+      return NextResponse.json(outcome.failure, { status: 502, headers: limit.headers });
+    }
+
+    // A second hand-in for the same assignment is a revision of the student's latest one
+    const previous = listAssignmentSubmissions(assignment.id).filter(s => s.studentId === studentId).pop();
+    const submission = saveSubmission(studentId, validation.request, outcome.result, {
+      assignmentId: assignment.id,
+      late: isLate(assignment),
+      revisionOf: previous?.id,
+    });
+    return NextResponse.json({ ...outcome.result, submissionId: submission.id }, { status: 201, headers: limit.headers });
+  } catch (error) {
+    console.error('Assignment submission error:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze writing', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { authenticate, createSession, setSessionCookie } from '@/lib/auth';
+import { checkAuthRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+// Sign in with username or email and password
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const identifier = typeof body.identifier === 'string' ? body.identifier : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+
+  const limit = await checkAuthRateLimit(request, 'login', identifier);
+  if (!limit.ok) {
+    return rateLimitResponse(limit);
+  }
+
+  const user = identifier && password ? authenticate(identifier, password) : null;
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Invalid credentials', message: 'The username, email or password is incorrect.' },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json(user);
+  setSessionCookie(response, createSession(user.id), request);
+  return response;
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, deleteSession, readSessionToken } from '@/lib/auth';
+
+export async function POST(request: Request) {
+  const token = readSessionToken(request);
+  if (token) deleteSession(token);
+  const response = NextResponse.json({ ok: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { findUserByEmail, getAppUrl, normalizeEmail, sendMagicLink } from '@/lib/auth';
+import { checkAuthRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+// Mail a sign-in link; the reply is the same whether or not the address is registered
+export async function POST(request: Request) {
+  const appUrl = getAppUrl();
+  if (!appUrl) {
+    console.error('Magic link requested but APP_URL is not set');
+    return NextResponse.json(
+      { error: 'Sign-in links unavailable', message: 'Sign-in links are not configured on this server. Please sign in with your password.' },
+      { status: 500 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const email = normalizeEmail(body.email);
+  const limit = await checkAuthRateLimit(request, 'magic-link', email);
+  if (!limit.ok) {
+    return rateLimitResponse(limit);
+  }
+  if (!email) {
+    return NextResponse.json(
+      { error: 'Invalid email', message: 'Please provide a valid email address.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = findUserByEmail(email);
+    if (user) {
+      await sendMagicLink(user, appUrl);
+    }
+    return NextResponse.json({ message: 'If this address is registered, a sign-in link is on its way.' });
+  } catch (error) {
+    console.error('Magic link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { consumeMagicLink, createSession, getAppUrl, getUser, promoteVerifiedAdmin, setSessionCookie } from '@/lib/auth';
+
+// Target of the mailed link: start a session and go to the app, or back to the login page if the link is spent
+export async function GET(request: Request) {
+  const base = getAppUrl();
+  if (!base) {
+    console.error('Magic link followed but APP_URL is not set');
+    return NextResponse.json(
+      { error: 'Sign-in links unavailable', message: 'Sign-in links are not configured on this server.' },
+      { status: 500 }
+    );
+  }
+
+  const token = new URL(request.url).searchParams.get('token');
+  const userId = token ? consumeMagicLink(token) : null;
+  const user = userId ? getUser(userId) : undefined;
+  if (!user) {
+    return NextResponse.redirect(new URL('/login?error=link', base));
+  }
+
+  promoteVerifiedAdmin(user);
+  const response = NextResponse.redirect(new URL('/', base));
+  setSessionCookie(response, createSession(user.id), request);
+  return response;
+}
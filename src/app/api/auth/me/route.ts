@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getRoleLimits, requireUser } from '@/lib/auth';
+
+// The signed-in user with the limits of their role
+export async function GET(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+  return NextResponse.json({ user: auth.user, limits: getRoleLimits(auth.user.role) });
+}
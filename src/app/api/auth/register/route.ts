@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { createSession, createUser, findUserByEmail, getUser, MIN_PASSWORD_LENGTH, normalizeEmail, setSessionCookie } from '@/lib/auth';
+import { normalizeUserId } from '@/lib/submissions';
+import { checkAuthRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+// Create a student account with a password and sign it in
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const id = normalizeUserId(body.username);
+    const email = normalizeEmail(body.email);
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 100) : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    const limit = await checkAuthRateLimit(request, 'register', email);
+    if (!limit.ok) {
+      return rateLimitResponse(limit);
+    }
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid username', message: 'Usernames may contain letters, numbers, ".", "_", "-" and "@" (max 64 characters).' },
+        { status: 400 }
+      );
+    }
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Invalid email', message: 'Please provide a valid email address.' },
+        { status: 400 }
+      );
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: 'Weak password', message: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.` },
+        { status: 400 }
+      );
+    }
+    if (getUser(id) || findUserByEmail(email)) {
+      return NextResponse.json(
+        { error: 'Account exists', message: 'This username or email address is already registered.' },
+        { status: 409 }
+      );
+    }
+
+    const user = createUser({ id, email, name: name || id, password });
+    const response = NextResponse.json(user, { status: 201 });
+    setSessionCookie(response, createSession(user.id), request);
+    return response;
+  } catch (error) {
+    console.error('Registration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to register', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
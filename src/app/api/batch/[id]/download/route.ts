@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { buildResultsZip, buildScoresCsv, getBatchJob } from '@/lib/batch';
+
+// ?format=csv for the criterion scores only; the default ZIP adds one JSON report per script
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const job = getBatchJob(params.id);
+  if (!job || (auth.user.role !== 'admin' && job.ownerId !== auth.user.id)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No batch job with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const format = new URL(request.url).searchParams.get('format') || 'zip';
+  if (format === 'csv') {
+    return new Response(buildScoresCsv(job), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${job.id}.csv"`,
+      },
+    });
+  }
+  if (format !== 'zip') {
+    return NextResponse.json(
+      { error: 'Unknown format', message: 'Format must be "zip" or "csv".' },
+      { status: 400 }
+    );
+  }
+
+  return new Response(await buildResultsZip(job), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="batch-${job.id}.zip"`,
+    },
+  });
+}
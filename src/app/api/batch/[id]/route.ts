@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { getBatchJob } from '@/lib/batch';
+
+// Job status with each script's status and result
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const job = getBatchJob(params.id);
+  if (!job || (auth.user.role !== 'admin' && job.ownerId !== auth.user.id)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No batch job with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const counts = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  job.items.forEach(item => counts[item.status]++);
+  return NextResponse.json({ ...job, counts });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { BatchDefaults, BatchInput, BatchInputError, createBatchJob, inputsFromCsv, inputsFromJson, inputsFromZip, MAX_BATCH_ITEMS, prepareBatchItems } from '@/lib/batch';
+import { ExamLevel, TaskType } from '@/types';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getRoleLimits, requireUser, roleLimitProblem } from '@/lib/auth';
+
+async function readInputs(request: Request): Promise<BatchInput[]> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return inputsFromJson(await request.json());
+  }
+
+  const form = await request.formData();
+  const file = form.get('file');
+  const defaults: BatchDefaults = {
+    examLevel: (form.get('examLevel') as ExamLevel) || undefined,
+    taskType: (form.get('taskType') as TaskType) || undefined,
+    taskPrompt: (form.get('taskPrompt') as string) || undefined,
+  };
+  if (!file || typeof file === 'string') return [];
+  if (/\.zip$/i.test(file.name) || file.type.includes('zip')) {
+    return inputsFromZip(await file.arrayBuffer(), defaults);
+  }
+  return inputsFromCsv(await file.text(), defaults);
+}
+
+// Queue many scripts at once: a JSON { items: [...] } body, or a multipart upload of a CSV or a ZIP of .txt files
+export async function POST(request: Request) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+  const limits = getRoleLimits(auth.user.role);
+
+  try {
+    const inputs = await readInputs(request);
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: 'No scripts', message: 'The batch contains no scripts. Send a JSON "items" array, a CSV with a "writing" column, or a ZIP of .txt files.' },
+        { status: 400 }
+      );
+    }
+    if (inputs.length > MAX_BATCH_ITEMS) {
+      return NextResponse.json(
+        { error: 'Batch too large', message: `A batch may contain at most ${MAX_BATCH_ITEMS} scripts; this one has ${inputs.length}.` },
+        { status: 400 }
+      );
+    }
+
+    // Only scripts that pass validation and the role limits are queued, and only those count against the daily quota
+    const items = prepareBatchItems(inputs, { checkItem: item => roleLimitProblem(limits, item)?.message ?? null });
+    const queued = items.filter(item => item.status === 'queued').length;
+    const limit = await checkRateLimit(request, { userId: auth.user.id, dailyLimit: limits.dailyAnalyses, cost: queued });
+    if (!limit.ok) {
+      return rateLimitResponse(limit);
+    }
+
+    const job = createBatchJob(items, auth.user.id);
+    return NextResponse.json(job, { status: 202, headers: limit.headers });
+  } catch (error) {
+    if (error instanceof BatchInputError) {
+      return NextResponse.json(
+        { error: 'Invalid upload', message: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Batch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create batch', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { createAssignment, getClass } from '@/lib/classes';
+import { getExamProfile, getPartSpec, isExamLevel } from '@/lib/exams';
+import { MAX_CONTENT_POINTS, MAX_TASK_PROMPT_LENGTH } from '@/lib/analysis';
+import { canManageClass, requireUser } from '@/lib/auth';
+
+// Post an assignment to the class
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const schoolClass = getClass(params.id);
+  if (!schoolClass || !canManageClass(auth.user, schoolClass)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No class with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { examLevel, taskType } = body;
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  const taskPrompt = typeof body.taskPrompt === 'string' ? body.taskPrompt.trim() : '';
+  const contentPoints: string[] = Array.isArray(body.contentPoints)
+    ? body.contentPoints.filter((p: unknown): p is string => typeof p === 'string').map((p: string) => p.trim()).filter(Boolean)
+    : [];
+  const deadline = new Date(body.deadline);
+
+  if (!title || title.length > 200) {
+    return NextResponse.json(
+      { error: 'Invalid title', message: 'Please give the assignment a title of at most 200 characters.' },
+      { status: 400 }
+    );
+  }
+  if (!isExamLevel(examLevel)) {
+    return NextResponse.json(
+      { error: 'Unknown exam level', message: `Unknown exam level "${examLevel}".` },
+      { status: 400 }
+    );
+  }
+  if (!getPartSpec(examLevel, taskType)) {
+    return NextResponse.json(
+      { error: 'Unsupported task type', message: `${getExamProfile(examLevel).name} does not set a ${taskType} task.` },
+      { status: 400 }
+    );
+  }
+  if (!taskPrompt || taskPrompt.length > MAX_TASK_PROMPT_LENGTH) {
+    return NextResponse.json(
+      { error: 'Invalid task prompt', message: `Please provide the task prompt (at most ${MAX_TASK_PROMPT_LENGTH} characters).` },
+      { status: 400 }
+    );
+  }
+  if (contentPoints.length > MAX_CONTENT_POINTS) {
+    return NextResponse.json(
+      { error: 'Too many content points', message: `Please list at most ${MAX_CONTENT_POINTS} content points.` },
+      { status: 400 }
+    );
+  }
+  if (isNaN(deadline.getTime())) {
+    return NextResponse.json(
+      { error: 'Invalid deadline', message: 'Please provide a valid deadline date.' },
+      { status: 400 }
+    );
+  }
+
+  const assignment = createAssignment({
+    classId: params.id,
+    title,
+    examLevel,
+    taskType,
+    taskPrompt,
+    contentPoints: contentPoints.length ? contentPoints : undefined,
+    deadline: deadline.toISOString(),
+  });
+  return NextResponse.json(assignment, { status: 201 });
+}
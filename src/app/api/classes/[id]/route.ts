@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getClass, listAssignments } from '@/lib/classes';
+import { canManageClass, requireUser } from '@/lib/auth';
+
+// A class with its roster and assignments
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const schoolClass = getClass(params.id);
+  if (!schoolClass || !canManageClass(auth.user, schoolClass)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No class with this ID.' },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ ...schoolClass, assignments: listAssignments(schoolClass.id) });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getClass, inviteStudents } from '@/lib/classes';
+import { normalizeUserId } from '@/lib/submissions';
+import { canManageClass, isStudentAccount, requireUser } from '@/lib/auth';
+
+// Invite students to the class; each joins the roster once they accept
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const schoolClass = getClass(params.id);
+  if (!schoolClass || !canManageClass(auth.user, schoolClass)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No class with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const ids = Array.isArray(body.studentIds) ? body.studentIds.map(normalizeUserId) : [];
+  if (ids.length === 0 || ids.some((id: string | null) => id === null)) {
+    return NextResponse.json(
+      { error: 'Invalid student IDs', message: 'Student IDs may contain letters, numbers, ".", "_", "-" and "@" (max 64 characters).' },
+      { status: 400 }
+    );
+  }
+
+  const unknown = ids.filter((id: string) => !isStudentAccount(id));
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: 'Unknown students', message: `These IDs are not student accounts: ${unknown.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(inviteStudents(params.id, ids));
+}
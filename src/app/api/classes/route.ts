@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { createClass, listClasses } from '@/lib/classes';
+import { normalizeUserId } from '@/lib/submissions';
+import { isStudentAccount, requireUser } from '@/lib/auth';
+
+function parseStudentIds(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const ids = value.map(normalizeUserId);
+  return ids.every((id): id is string => id !== null) ? ids : null;
+}
+
+// List the signed-in teacher's classes; admins may ask for another teacher's with ?teacherId=
+export async function GET(request: Request) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  const requested = new URL(request.url).searchParams.get('teacherId');
+  const teacherId = auth.user.role === 'admin' && requested ? normalizeUserId(requested) : auth.user.id;
+  if (!teacherId) {
+    return NextResponse.json(
+      { error: 'Invalid teacher ID', message: 'Please provide a teacher ID.' },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(listClasses(teacherId));
+}
+
+// Create a class taught by the signed-in teacher, optionally inviting its students
+export async function POST(request: Request) {
+  const auth = requireUser(request, ['teacher', 'admin']);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const teacherId = auth.user.id;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const studentIds = parseStudentIds(body.studentIds);
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Invalid class name', message: 'Please give the class a name of at most 100 characters.' },
+        { status: 400 }
+      );
+    }
+    if (!studentIds) {
+      return NextResponse.json(
+        { error: 'Invalid student IDs', message: 'Student IDs may contain letters, numbers, ".", "_", "-" and "@" (max 64 characters).' },
+        { status: 400 }
+      );
+    }
+
+    const unknown = studentIds.filter(id => !isStudentAccount(id));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: 'Unknown students', message: `These IDs are not student accounts: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(createClass(teacherId, name, studentIds), { status: 201 });
+  } catch (error) {
+    console.error('Create class error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create class', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { AnalysisResult, ExamLevel, TaskType } from '@/types';
+import { isReportFormat, renderReport, REPORT_FORMATS } from '@/lib/reports';
+import { getPartSpec, isExamLevel } from '@/lib/exams';
+import { getSubmission } from '@/lib/submissions';
+import { canViewStudent, requireUser } from '@/lib/auth';
+
+interface ExportRequest {
+  format: string;
+  submissionId?: string;
+  result?: AnalysisResult;
+  writing?: string;
+  examLevel?: ExamLevel;
+  taskType?: TaskType;
+  studentName?: string;
+}
+
+// Render a feedback report as PDF, DOCX or Markdown, from a stored submission or a result posted by the client
+export async function POST(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: ExportRequest = await request.json();
+    if (!isReportFormat(body.format)) {
+      return NextResponse.json(
+        { error: 'Unknown format', message: `Format must be one of: ${Object.keys(REPORT_FORMATS).join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    const stored = body.submissionId ? getSubmission(body.submissionId) : undefined;
+    const submission = stored && canViewStudent(auth.user, stored.studentId) ? stored : undefined;
+    if (body.submissionId && !submission) {
+      return NextResponse.json(
+        { error: 'Not found', message: 'No submission with this ID.' },
+        { status: 404 }
+      );
+    }
+
+    const result = submission?.result ?? body.result;
+    const writing = submission?.writing ?? body.writing;
+    const examLevel = submission?.examLevel ?? body.examLevel;
+    const taskType = submission?.taskType ?? body.taskType;
+    if (!result || !Array.isArray(result.criteria) || !result.score || typeof writing !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing report data', message: 'Please provide a submission ID, or the analysis result together with the original text.' },
+        { status: 400 }
+      );
+    }
+    if (!isExamLevel(examLevel) || !taskType || !getPartSpec(examLevel, taskType)) {
+      return NextResponse.json(
+        { error: 'Unsupported task', message: 'Please provide a valid exam level and task type.' },
+        { status: 400 }
+      );
+    }
+
+    const studentName = submission?.studentId ?? (typeof body.studentName === 'string' ? body.studentName.slice(0, 100) : undefined);
+    const date = submission?.createdAt.slice(0, 10);
+    const output = await renderReport(body.format, result, writing, { examLevel, taskType, studentName, date });
+    const { contentType, extension } = REPORT_FORMATS[body.format];
+    const fileName = `feedback-report-${examLevel}-${taskType}.${extension}`.toLowerCase();
+
+    return new Response(output, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export report', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { Submission, User } from '@/types';
+import { getProvider } from '@/lib/llm';
+import { reviewRevision } from '@/lib/analysis';
+import { compareSubmissions, getSubmission, saveRevisionReview } from '@/lib/submissions';
+import { canViewStudent, getRoleLimits, requireUser } from '@/lib/auth';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+function notFound(message: string) {
+  return NextResponse.json({ error: 'Not found', message }, { status: 404 });
+}
+
+// The submission and the draft it revises (or ?with=<id>), if the user may see them
+function findDrafts(
+  request: Request,
+  user: User,
+  id: string
+): { ok: true; previous: Submission; revised: Submission } | { ok: false; response: NextResponse } {
+  const revised = getSubmission(id);
+  if (!revised || !canViewStudent(user, revised.studentId)) {
+    return { ok: false, response: notFound('No submission with this ID.') };
+  }
+  const previousId = new URL(request.url).searchParams.get('with') || revised.revisionOf;
+  const previous = previousId ? getSubmission(previousId) : undefined;
+  if (!previous || previous.studentId !== revised.studentId) {
+    return { ok: false, response: notFound('This submission is not linked to an earlier draft.') };
+  }
+  return { ok: true, previous, revised };
+}
+
+// Stored examiner comments on this pair of drafts, if any
+const storedReview = (previous: Submission, revised: Submission) =>
+  revised.revisionReview?.previousId === previous.id ? revised.revisionReview : null;
+
+// Compare a submission with the draft it revises, with the examiner's comments if they have been written already
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const drafts = findDrafts(request, auth.user, params.id);
+    if (!drafts.ok) return drafts.response;
+    const { previous, revised } = drafts;
+    return NextResponse.json(compareSubmissions(previous, revised, storedReview(previous, revised)));
+  } catch (error) {
+    console.error('Draft comparison error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare drafts', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Compare as GET does, asking the examiner model for comments on the change when none are stored yet
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+  const { user } = auth;
+
+  try {
+    const drafts = findDrafts(request, user, params.id);
+    if (!drafts.ok) return drafts.response;
+    const { previous, revised } = drafts;
+
+    const comparison = compareSubmissions(previous, revised);
+    // The comments are stored with the revision, so asking again costs no model call
+    const stored = storedReview(previous, revised);
+    if (stored) {
+      return NextResponse.json({ ...comparison, review: stored });
+    }
+
+    const limit = await checkRateLimit(request, { userId: user.id, dailyLimit: getRoleLimits(user.role).dailyAnalyses });
+    if (!limit.ok) {
+      return rateLimitResponse(limit);
+    }
+    const review = await reviewRevision(getProvider(), previous, revised, comparison.criteria, comparison.errors);
+    if (review && revised.revisionOf === previous.id) {
+      saveRevisionReview(revised.id, review);
+    }
+    return NextResponse.json({ ...comparison, review }, { headers: limit.headers });
+  } catch (error) {
+    console.error('Draft comparison error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare drafts', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
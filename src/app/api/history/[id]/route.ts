@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { checkRevisionOf, getSubmission, setRevisionOf, summarize } from '@/lib/submissions';
+import { canViewStudent, requireUser } from '@/lib/auth';
+
+// Re-open a stored report
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  // Someone else's submission is reported as missing rather than confirming it exists
+  const submission = getSubmission(params.id);
+  if (!submission || !canViewStudent(auth.user, submission.studentId)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No submission with this ID.' },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(submission);
+}
+
+// Mark a submission as a revision of an earlier draft, or clear the link with { revisionOf: null }
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const submission = getSubmission(params.id);
+  if (!submission || !canViewStudent(auth.user, submission.studentId)) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'No submission with this ID.' },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const revision = checkRevisionOf(submission.studentId, body.revisionOf, submission.id);
+  if (!revision.ok) {
+    return NextResponse.json(revision.problem, { status: 400 });
+  }
+  return NextResponse.json(summarize(setRevisionOf(submission.id, revision.revisionOf)!));
+}
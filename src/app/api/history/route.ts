@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getStudentProgress, normalizeUserId } from '@/lib/submissions';
+import { canViewStudent, forbidden, requireUser } from '@/lib/auth';
+
+// List a student's past scripts with the data for their progress dashboard; defaults to the signed-in user's own
+export async function GET(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const requested = new URL(request.url).searchParams.get('studentId');
+  const studentId = requested ? normalizeUserId(requested) : auth.user.id;
+  if (!studentId) {
+    return NextResponse.json(
+      { error: 'Invalid student ID', message: 'Please provide a student ID (letters, numbers, ".", "_", "-" or "@").' },
+      { status: 400 }
+    );
+  }
+
+  if (!canViewStudent(auth.user, studentId)) {
+    return forbidden('This student is not on any of your class rosters.');
+  }
+
+  try {
+    return NextResponse.json(getStudentProgress(studentId));
+  } catch (error) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
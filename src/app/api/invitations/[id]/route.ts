@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { acceptInvitation, declineInvitation } from '@/lib/classes';
+import { requireUser } from '@/lib/auth';
+
+function noInvitation() {
+  return NextResponse.json(
+    { error: 'Not found', message: 'You have no invitation to this class.' },
+    { status: 404 }
+  );
+}
+
+// Accept the invitation to a class, which lets its teacher see the student's work
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['student']);
+  if (!auth.ok) return auth.response;
+
+  const schoolClass = acceptInvitation(params.id, auth.user.id);
+  if (!schoolClass) return noInvitation();
+  return NextResponse.json({ classId: schoolClass.id, className: schoolClass.name, teacherId: schoolClass.teacherId });
+}
+
+// Decline the invitation to a class
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = requireUser(request, ['student']);
+  if (!auth.ok) return auth.response;
+
+  if (!declineInvitation(params.id, auth.user.id)) return noInvitation();
+  return new NextResponse(null, { status: 204 });
+}
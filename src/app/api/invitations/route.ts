@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listInvitations } from '@/lib/classes';
+import { requireUser } from '@/lib/auth';
+
+// Classes the signed-in student has been invited to but not yet joined
+export async function GET(request: Request) {
+  const auth = requireUser(request, ['student']);
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json(listInvitations(auth.user.id));
+}
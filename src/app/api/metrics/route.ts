@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { computeTextMetrics } from '@/lib/metrics';
+import { requireUser } from '@/lib/auth';
+
+const MAX_LENGTH = 20000;
+
+// Local text metrics only; no model call, so this works when the LLM provider is down
+export async function POST(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  const writing = typeof body.writing === 'string' ? body.writing : '';
+  if (!writing.trim()) {
+    return NextResponse.json(
+      { error: 'Missing writing', message: 'Please provide the text to measure.' },
+      { status: 400 }
+    );
+  }
+  if (writing.length > MAX_LENGTH) {
+    return NextResponse.json(
+      { error: 'Excessive character count', message: `The text may be at most ${MAX_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(computeTextMetrics(writing));
+}
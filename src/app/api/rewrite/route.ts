@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { AnalysisRequest, Submission } from '@/types';
+import { getProvider } from '@/lib/llm';
+import { REWRITE_PROMPT_VERSION, RewriteInput, validateAnalysisRequest, writeModelAnswer } from '@/lib/analysis';
+import { getSubmission, saveModelRewrite } from '@/lib/submissions';
+import { canViewStudent, getRoleLimits, requireUser, roleLimitProblem } from '@/lib/auth';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+
+// Band 5 model answer for a saved submission ({ submissionId }) or for a script sent like an analysis request
+export async function POST(request: Request) {
+  const auth = requireUser(request);
+  if (!auth.ok) return auth.response;
+  const { user } = auth;
+
+  try {
+    const body: Partial<AnalysisRequest> & { submissionId?: string } = await request.json();
+    const limits = getRoleLimits(user.role);
+
+    let submission: Submission | undefined;
+    let input: RewriteInput;
+    if (body.submissionId) {
+      submission = getSubmission(body.submissionId);
+      if (!submission || !canViewStudent(user, submission.studentId)) {
+        return NextResponse.json({ error: 'Not found', message: 'No submission with this ID.' }, { status: 404 });
+      }
+      // The rewrite is stored with the submission, so asking again costs no model call
+      if (submission.modelRewrite?.promptVersion === REWRITE_PROMPT_VERSION) {
+        return NextResponse.json(submission.modelRewrite);
+      }
+      input = submission;
+    } else {
+      const validation = validateAnalysisRequest(body);
+      if (!validation.ok) {
+        return NextResponse.json(validation.problem, { status: 400 });
+      }
+      const problem = roleLimitProblem(limits, validation.request);
+      if (problem) {
+        return NextResponse.json(problem, { status: 403 });
+      }
+      input = validation.request;
+    }
+
+    const limit = await checkRateLimit(request, { userId: user.id, dailyLimit: limits.dailyAnalyses });
+    if (!limit.ok) {
+      return rateLimitResponse(limit);
+    }
+    const rewrite = await writeModelAnswer(getProvider(), input);
+    if (!rewrite) {
+      return NextResponse.json(
+        { error: 'Model answer unavailable', message: 'The examiner model could not write a model answer right now. Please try again.' },
+        { status: 502, headers: limit.headers }
+      );
+    }
+    if (submission) {
+      saveModelRewrite(submission.id, rewrite);
+    }
+    return NextResponse.json(rewrite, { headers: limit.headers });
+  } catch (error) {
+    console.error('Model answer error:', error);
+    return NextResponse.json(
+      { error: 'Failed to write model answer', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
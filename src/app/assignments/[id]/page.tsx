@@ -0,0 +1,14 @@
+import AssignmentSubmission from '@/components/AssignmentSubmission';
+
+export default function AssignmentPage({ params }: { params: { id: string } }) {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-center text-gray-800 mb-2">
+          Assignment
+        </h1>
+        <AssignmentSubmission assignmentId={params.id} />
+      </div>
+    </main>
+  );
+}
@@ -2,7 +2,7 @@ import type { Metadata } from "next";
 import "./globals.css";
 
 export const metadata: Metadata = {
-  title: "Cambridge CAE/CPE Writing Analyzer",
+  title: "Cambridge B2/C1/C2 Writing Analyzer",
   description: "Analyze your Cambridge exam writing using official marking criteria",
 };
 
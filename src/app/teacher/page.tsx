@@ -0,0 +1,18 @@
+import Link from 'next/link';
+import TeacherDashboard from '@/components/TeacherDashboard';
+
+export default function TeacherPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-center text-gray-800 mb-2">
+          Classes &amp; Assignments
+        </h1>
+        <div className="text-center">
+          <Link href="/" className="text-blue-600 hover:underline">← Back to the analyzer</Link>
+        </div>
+        <TeacherDashboard />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Role, User } from '@/types';
+import { useCurrentUser } from './useCurrentUser';
+import SignInPrompt from './SignInPrompt';
+
+const ROLES: Role[] = ['student', 'teacher', 'admin'];
+
+export default function AdminUsers() {
+  const { current, loading } = useCurrentUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = current?.user.role === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetch('/api/admin/users')
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'Failed to load users.');
+        setUsers(data);
+      })
+      .catch(err => setError((err as Error).message));
+  }, [isAdmin]);
+
+  const changeRole = async (id: string, role: Role) => {
+    setError(null);
+    const response = await fetch(`/api/admin/users/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(data.message || 'Failed to change the role.');
+      return;
+    }
+    setUsers(users.map(u => (u.id === id ? data : u)));
+  };
+
+  if (loading) return null;
+  if (!isAdmin) return <SignInPrompt message="Please sign in with an admin account to manage users." />;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-10 max-w-5xl w-full mx-auto">
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+      <table className="w-full text-sm text-left text-gray-800">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-500">
+            <th className="py-2">Username</th>
+            <th>Name</th>
+            <th>Email</th>
+            <th>Joined</th>
+            <th>Role</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map(u => (
+            <tr key={u.id} className="border-b border-gray-100">
+              <td className="py-2 font-semibold">{u.id}</td>
+              <td>{u.name}</td>
+              <td>{u.email}</td>
+              <td>{new Date(u.createdAt).toLocaleDateString()}</td>
+              <td>
+                <select
+                  value={u.role}
+                  onChange={(e) => changeRole(u.id, e.target.value as Role)}
+                  disabled={u.id === current?.user.id}
+                  className="p-1 border border-gray-300 rounded-md"
+                >
+                  {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { AnalysisResult, ExamLevel, TaskType } from '@/types';
+import CorrectionReview from './CorrectionReview';
+import CriteriaGrid from './CriteriaGrid';
+import ContentPointsPanel from './ContentPointsPanel';
+import MetricsPanel from './MetricsPanel';
+import ModelAnswerPanel from './ModelAnswerPanel';
+import VocabularyPanel from './VocabularyPanel';
+import ScoreSummary from './ScoreSummary';
+import ReportDownload from './ReportDownload';
+
+interface AnalysisReportProps {
+  result: AnalysisResult;
+  writing: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  title?: string;
+  onReanalyze?: (revised: string) => void;
+}
+
+const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, writing, examLevel, taskType, title = 'Analysis Results', onReanalyze }) => {
+  return (
+    <section className="flex flex-col items-center justify-center my-12">
+      <h2 className="text-3xl font-extrabold mb-4 text-gray-900 text-center tracking-tight drop-shadow">{title}</h2>
+      <div className="flex flex-col items-center mb-8">
+        <ScoreSummary
+          score={result.score}
+          criteria={result.criteria}
+          examLevel={examLevel}
+          promptVersion={result.promptVersion}
+          rubricVersion={result.rubricVersion}
+        />
+        {result.sampling && (
+          <div className="text-sm text-gray-600 mb-2">
+            {result.sampling.aggregation === 'median' ? 'Median' : 'Mean'} of {result.sampling.completed} independent assessments
+            {result.sampling.completed < result.sampling.requested && ` (${result.sampling.requested - result.sampling.completed} failed)`}
+          </div>
+        )}
+        {result.length && (
+          <div className={`mt-3 px-4 py-1 rounded-full text-sm font-semibold ${result.length.status === 'within' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+            {result.length.wordCount} words (required {result.length.min}-{result.length.max})
+            {result.length.status === 'under' && ' · under length'}
+            {result.length.status === 'over' && ' · over length'}
+          </div>
+        )}
+        <div className="mt-4">
+          <ReportDownload result={result} writing={writing} examLevel={examLevel} taskType={taskType} />
+        </div>
+      </div>
+      <div className="w-full bg-white/80 rounded-3xl shadow-xl p-8 mb-10 max-w-5xl mx-auto">
+        {result.criteria && result.criteria.length === 4 && (
+          <CriteriaGrid criteria={result.criteria} genre={result.genre} />
+        )}
+        {result.contentPoints && result.contentPoints.length > 0 && (
+          <ContentPointsPanel points={result.contentPoints} />
+        )}
+        {result.metrics && <MetricsPanel metrics={result.metrics} />}
+        {result.vocabulary && <VocabularyPanel vocabulary={result.vocabulary} examLevel={examLevel} />}
+        {((result.errors && result.errors.length > 0) || result.vocabulary) && (
+          <div className="my-10">
+            <CorrectionReview writing={writing} errors={result.errors ?? []} onReanalyze={onReanalyze} vocabulary={result.vocabulary} />
+          </div>
+        )}
+        <ModelAnswerPanel writing={writing} examLevel={examLevel} taskType={taskType} submissionId={result.submissionId} />
+      </div>
+    </section>
+  );
+};
+
+export default AnalysisReport;
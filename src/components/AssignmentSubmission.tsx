@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AnalysisResult, Assignment } from '@/types';
+import { countWords, getExamProfile, getPartSpec } from '@/lib/exams';
+import AnalysisReport from './AnalysisReport';
+import SignInPrompt from './SignInPrompt';
+import { useCurrentUser } from './useCurrentUser';
+import { FaPaperPlane } from 'react-icons/fa';
+
+interface AssignmentSubmissionProps {
+  assignmentId: string;
+}
+
+export default function AssignmentSubmission({ assignmentId }: AssignmentSubmissionProps) {
+  const { current, loading } = useCurrentUser();
+  const [assignment, setAssignment] = useState<(Assignment & { className?: string }) | null>(null);
+  const [writing, setWriting] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!current) return;
+    fetch(`/api/assignments/${assignmentId}`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'Failed to load the assignment.');
+        setAssignment(data);
+      })
+      .catch(err => setError(err.message));
+  }, [assignmentId, current]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assignments/${assignmentId}/submissions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ writing }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to submit your writing. Please try again.');
+        return;
+      }
+      setResult(data);
+    } catch {
+      setError('Failed to submit your writing. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) return null;
+  if (!current) return <SignInPrompt message="Please sign in with your student account to see this assignment." />;
+  if (!assignment) {
+    return <div className="text-center mt-10 text-gray-600">{error || 'Loading assignment...'}</div>;
+  }
+
+  const wordRange = getPartSpec(assignment.examLevel, assignment.taskType)?.wordRange;
+  const isPastDeadline = new Date(assignment.deadline).getTime() < Date.now();
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-10">
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto">
+        <h2 className="text-2xl font-bold text-gray-900">{assignment.title}</h2>
+        <div className="text-sm text-gray-600 mt-1">
+          {assignment.className} · {getExamProfile(assignment.examLevel).name} {assignment.taskType}
+          {wordRange && ` · ${wordRange.min}-${wordRange.max} words`} · due {new Date(assignment.deadline).toLocaleString()}
+          {isPastDeadline && <span className="ml-2 text-yellow-700 font-semibold">(deadline passed, submissions are marked late)</span>}
+        </div>
+        <div className="mt-4 p-4 bg-gray-50 rounded-md text-gray-800 whitespace-pre-wrap">{assignment.taskPrompt}</div>
+        {assignment.contentPoints && (
+          <ul className="list-disc ml-6 mt-2 text-gray-800">
+            {assignment.contentPoints.map(point => <li key={point}>{point}</li>)}
+          </ul>
+        )}
+
+        <label className="block text-sm font-medium text-gray-900 mt-6 mb-2">
+          Your Writing <span className="text-gray-500 font-normal">(handing in as {current.user.name})</span>
+        </label>
+        <textarea
+          value={writing}
+          onChange={(e) => setWriting(e.target.value)}
+          className="w-full h-64 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+          placeholder="Write or paste your answer here..."
+        />
+        <div className="text-sm text-gray-900 mt-2">Word count: {countWords(writing)}</div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting || current.user.role !== 'student' || !writing.trim()}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-3 px-6 rounded-full text-lg font-bold shadow-lg disabled:opacity-60 disabled:cursor-not-allowed mt-4"
+        >
+          <FaPaperPlane className="text-xl" />
+          {isSubmitting ? 'Submitting...' : 'Hand In'}
+        </button>
+        {error && <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+      </div>
+
+      {result && <AnalysisReport result={result} writing={writing} examLevel={assignment.examLevel} taskType={assignment.taskType} />}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { useCurrentUser } from './useCurrentUser';
+
+// Who is signed in, with the links their role can use
+export default function AuthStatus() {
+  const { current, loading } = useCurrentUser();
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    window.location.href = '/login';
+  };
+
+  if (loading) return null;
+  if (!current) {
+    return (
+      <nav className="flex justify-center gap-6 text-sm">
+        <Link href="/login" className="text-blue-600 hover:underline">Sign in</Link>
+      </nav>
+    );
+  }
+
+  const { user } = current;
+  return (
+    <nav className="flex flex-wrap justify-center items-center gap-6 text-sm">
+      <Link href="/history" className="text-blue-600 hover:underline">{user.role === 'student' ? 'My History' : 'Student History'}</Link>
+      {user.role !== 'student' && <Link href="/teacher" className="text-blue-600 hover:underline">Teachers</Link>}
+      {user.role !== 'student' && <Link href="/batch" className="text-blue-600 hover:underline">Batch Analysis</Link>}
+      {user.role === 'admin' && <Link href="/admin" className="text-blue-600 hover:underline">Users</Link>}
+      <span className="text-gray-600">
+        Signed in as <span className="font-semibold">{user.name}</span> ({user.role})
+      </span>
+      <button onClick={handleSignOut} className="text-blue-600 hover:underline">Sign out</button>
+    </nav>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BatchItemStatus, BatchJob, ExamLevel, TaskType } from '@/types';
+import { EXAM_LEVELS, getExamProfile, getTaskTypes } from '@/lib/exams';
+import { FaUpload, FaDownload } from 'react-icons/fa';
+
+type BatchJobStatusResponse = BatchJob & { counts: Record<BatchItemStatus, number> };
+
+const POLL_MS = 3000;
+
+const statusClass: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function BatchUploader() {
+  const [file, setFile] = useState<File | null>(null);
+  const [examLevel, setExamLevel] = useState<ExamLevel>('CAE');
+  const [taskType, setTaskType] = useState<TaskType>('Essay');
+  const [taskPrompt, setTaskPrompt] = useState('');
+  const [job, setJob] = useState<BatchJobStatusResponse | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async () => {
+    if (!file) {
+      setError('Please choose a CSV or ZIP file');
+      return;
+    }
+    setIsUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('examLevel', examLevel);
+      form.append('taskType', taskType);
+      form.append('taskPrompt', taskPrompt);
+      const response = await fetch('/api/batch', { method: 'POST', body: form });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to upload the batch.');
+        return;
+      }
+      setJob({ ...data, counts: { queued: 0, running: 0, succeeded: 0, failed: 0 } });
+    } catch {
+      setError('Failed to upload the batch.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Poll until every script has finished
+  useEffect(() => {
+    if (!job || job.status === 'completed') return;
+    const timer = setTimeout(async () => {
+      const response = await fetch(`/api/batch/${job.id}`);
+      if (response.ok) setJob(await response.json());
+    }, POLL_MS);
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-10">
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto space-y-4">
+        <p className="text-sm text-gray-700">
+          Upload a <strong>CSV</strong> with a <code>writing</code> column (and optional <code>name</code>, <code>examLevel</code>, <code>taskType</code>, <code>taskPrompt</code> columns),
+          or a <strong>ZIP</strong> of <code>.txt</code> scripts with an optional <code>manifest.csv</code> (<code>file</code>, <code>examLevel</code>, <code>taskType</code>, <code>taskPrompt</code>).
+          The settings below apply to scripts that don&apos;t specify their own.
+        </p>
+        <input type="file" accept=".csv,.zip,text/csv,application/zip" onChange={(e) => setFile(e.target.files?.[0] ?? null)} className="text-gray-900" />
+        <div className="grid grid-cols-2 gap-4">
+          <select
+            value={examLevel}
+            onChange={(e) => {
+              const level = e.target.value as ExamLevel;
+              setExamLevel(level);
+              if (!getTaskTypes(level).includes(taskType)) setTaskType(getTaskTypes(level)[0]);
+            }}
+            className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
+          >
+            {EXAM_LEVELS.map(level => <option key={level} value={level}>{getExamProfile(level).name}</option>)}
+          </select>
+          <select value={taskType} onChange={(e) => setTaskType(e.target.value as TaskType)} className="w-full p-2 border border-gray-300 rounded-md text-gray-900">
+            {getTaskTypes(examLevel).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <textarea
+          value={taskPrompt}
+          onChange={(e) => setTaskPrompt(e.target.value)}
+          className="w-full h-24 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+          placeholder="Task prompt (optional)"
+        />
+        <button
+          onClick={handleUpload}
+          disabled={isUploading}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-3 px-6 rounded-full text-lg font-bold shadow-lg disabled:opacity-60"
+        >
+          <FaUpload /> {isUploading ? 'Uploading...' : 'Queue Batch'}
+        </button>
+        {error && <div className="p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+      </div>
+
+      {job && (
+        <div className="bg-white rounded-2xl shadow p-6 max-w-5xl w-full">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h3 className="text-xl font-bold text-gray-900">
+              Batch {job.status === 'completed' ? 'complete' : 'in progress'} · {job.items.length} scripts
+            </h3>
+            {job.status === 'completed' && (
+              <div className="flex gap-3">
+                <a href={`/api/batch/${job.id}/download?format=csv`} className="flex items-center gap-2 text-blue-600 font-semibold hover:underline">
+                  <FaDownload /> Scores CSV
+                </a>
+                <a href={`/api/batch/${job.id}/download`} className="flex items-center gap-2 text-blue-600 font-semibold hover:underline">
+                  <FaDownload /> CSV + JSON reports (ZIP)
+                </a>
+              </div>
+            )}
+          </div>
+          <table className="w-full text-sm text-left text-gray-800">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-500">
+                <th className="py-2">Script</th>
+                <th>Task</th>
+                <th>Status</th>
+                <th>Subscale</th>
+                <th>Grade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.items.map(item => (
+                <tr key={item.id} className="border-b border-gray-100">
+                  <td className="py-2">{item.name}</td>
+                  <td>{item.request.examLevel} {item.request.taskType}</td>
+                  <td>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusClass[item.status]}`}>{item.status}</span>
+                    {item.status === 'failed' && <div className="text-xs text-red-700">{item.error}</div>}
+                  </td>
+                  <td>{item.result ? `${item.result.score.subscaleTotal}/${item.result.score.subscaleMax}` : '-'}</td>
+                  <td>{item.result?.score.grade ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ClassInvitation } from '@/types';
+
+// Lets a student accept or decline invitations to classes; a teacher sees their work only after they accept
+export default function ClassInvitations() {
+  const [invitations, setInvitations] = useState<ClassInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/invitations')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setInvitations)
+      .catch(() => setInvitations([]));
+  }, []);
+
+  const respond = async (classId: string, accept: boolean) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/invitations/${classId}`, { method: accept ? 'POST' : 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Failed to answer the invitation.');
+        return;
+      }
+      setInvitations(current => current.filter(invitation => invitation.classId !== classId));
+    } catch {
+      setError('Failed to answer the invitation.');
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto">
+      <h3 className="text-lg font-bold text-gray-900 mb-2">Class invitations</h3>
+      <p className="text-sm text-gray-600 mb-4">Joining a class lets its teacher see your submissions.</p>
+      <ul className="space-y-2">
+        {invitations.map(invitation => (
+          <li key={invitation.classId} className="flex items-center justify-between gap-4 text-gray-800">
+            <span>
+              <span className="font-semibold">{invitation.className}</span> (teacher: {invitation.teacherId})
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => respond(invitation.classId, true)}
+                className="bg-gradient-to-r from-blue-600 to-purple-500 text-white py-1 px-4 rounded-full font-bold shadow"
+              >
+                Join
+              </button>
+              <button
+                onClick={() => respond(invitation.classId, false)}
+                className="py-1 px-4 rounded-full border border-gray-300 text-gray-700"
+              >
+                Decline
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+      {error && <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+    </div>
+  );
+}
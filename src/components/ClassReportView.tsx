@@ -0,0 +1,135 @@
+import React from 'react';
+import { ClassReport } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+import { errorTypeLabel } from '@/lib/taxonomy';
+
+interface ClassReportViewProps {
+  report: ClassReport;
+}
+
+const SCORES = ['0', '1', '2', '3', '4', '5'];
+
+// Group half-band scores with the band below for the histogram
+function bucketCounts(counts: Record<string, number>): Record<string, number> {
+  const buckets: Record<string, number> = {};
+  Object.entries(counts).forEach(([score, count]) => {
+    const key = String(Math.floor(Number(score)));
+    buckets[key] = (buckets[key] ?? 0) + count;
+  });
+  return buckets;
+}
+
+const ClassReportView: React.FC<ClassReportViewProps> = ({ report }) => {
+  const { assignment } = report;
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="bg-white rounded-2xl shadow p-6">
+        <h3 className="text-2xl font-bold text-gray-900">{assignment.title}</h3>
+        <div className="text-sm text-gray-600 mt-1">
+          {report.className} · {getExamProfile(assignment.examLevel).name} {assignment.taskType} · due {new Date(assignment.deadline).toLocaleString()}
+        </div>
+        <div className="flex flex-wrap gap-4 mt-4 text-sm">
+          <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 font-semibold">{report.submitted} submitted</span>
+          <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 font-semibold">{report.late.length} late</span>
+          <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 font-semibold">{report.missing.length} missing</span>
+        </div>
+        {report.missing.length > 0 && (
+          <div className="text-sm text-gray-600 mt-2">Missing: {report.missing.join(', ')}</div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {report.criteria.map(criterion => {
+          const buckets = bucketCounts(criterion.counts);
+          const maxCount = Math.max(1, ...Object.values(buckets));
+          return (
+            <div key={criterion.name} className="bg-white rounded-2xl shadow p-6">
+              <div className="flex justify-between items-baseline">
+                <h4 className="text-lg font-bold text-gray-900">{criterion.name}</h4>
+                <span className="text-sm text-gray-600">mean {criterion.mean.toFixed(1)} · median {criterion.median}</span>
+              </div>
+              <div className="flex items-end gap-2 h-24 mt-4">
+                {SCORES.map(score => (
+                  <div key={score} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <span className="text-xs text-gray-600">{buckets[score] ?? 0}</span>
+                    <div
+                      className={`w-full rounded-t ${Number(score) < report.band ? 'bg-red-300' : 'bg-green-400'}`}
+                      style={{ height: `${((buckets[score] ?? 0) / maxCount) * 100}%` }}
+                    ></div>
+                    <span className="text-xs text-gray-500 mt-1">{score}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="text-sm mt-3 text-gray-700">
+                {criterion.belowBand.length === 0
+                  ? `Everyone is at band ${report.band} or above.`
+                  : `Below band ${report.band}: ${criterion.belowBand.join(', ')}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow p-6">
+          <h4 className="text-lg font-bold text-gray-900 mb-3">Most common error types</h4>
+          <ul className="space-y-1 text-sm text-gray-800">
+            {report.errorTypes.slice(0, 10).map(entry => (
+              <li key={entry.type} className="flex justify-between">
+                <span>{errorTypeLabel(entry.type)}</span>
+                <span>{entry.count} errors · {entry.submissions} students</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="bg-white rounded-2xl shadow p-6">
+          <h4 className="text-lg font-bold text-gray-900 mb-3">Most common corrections</h4>
+          <ul className="space-y-1 text-sm text-gray-800">
+            {report.corrections.slice(0, 10).map(entry => (
+              <li key={`${entry.text}→${entry.correction}`} className="flex justify-between gap-4">
+                <span>
+                  <span className="line-through text-red-600">{entry.text}</span> → <span className="text-green-700 font-semibold">{entry.correction}</span>
+                </span>
+                <span className="text-gray-500">×{entry.count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow p-6">
+        <h4 className="text-lg font-bold text-gray-900 mb-3">Students</h4>
+        <table className="w-full text-sm text-left text-gray-800">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-500">
+              <th className="py-2">Student</th>
+              {report.criteria.map(c => <th key={c.name}>{c.name}</th>)}
+              <th>Subscale</th>
+              <th>Grade</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.students.map(student => (
+              <tr key={student.studentId} className="border-b border-gray-100">
+                <td className="py-2">
+                  {student.studentId}
+                  {report.late.includes(student.studentId) && <span className="ml-2 text-xs text-yellow-700">(late)</span>}
+                </td>
+                {report.criteria.map(c => (
+                  <td key={c.name} className={student.criteria[c.name] < report.band ? 'text-red-600 font-semibold' : ''}>
+                    {student.criteria[c.name]}
+                  </td>
+                ))}
+                <td>{student.score.subscaleTotal}/{student.score.subscaleMax}</td>
+                <td>{student.score.grade}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ClassReportView;
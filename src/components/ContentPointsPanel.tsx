@@ -0,0 +1,50 @@
+import React from 'react';
+import { ContentPointAssessment, ContentPointStatus } from '@/types';
+import { FaCheckCircle, FaAdjust, FaTimesCircle } from 'react-icons/fa';
+
+interface ContentPointsPanelProps {
+  points: ContentPointAssessment[];
+}
+
+const statusStyles: Record<ContentPointStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  covered: { label: 'Covered', className: 'bg-green-100 text-green-800', icon: <FaCheckCircle className="text-green-500" /> },
+  partial: { label: 'Partly covered', className: 'bg-yellow-100 text-yellow-800', icon: <FaAdjust className="text-yellow-500" /> },
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-800', icon: <FaTimesCircle className="text-red-500" /> },
+};
+
+const ContentPointsPanel: React.FC<ContentPointsPanelProps> = ({ points }) => {
+  return (
+    <div className="bg-white/90 p-6 rounded-2xl border-2 border-yellow-200 shadow-xl my-8 max-w-3xl mx-auto">
+      <h3 className="text-2xl font-extrabold mb-4 text-yellow-700">Content Points</h3>
+      <ol className="space-y-4">
+        {points.map((point, idx) => {
+          const style = statusStyles[point.status];
+          return (
+            <li key={idx} className="border-b border-gray-100 pb-4 last:border-b-0">
+              <div className="flex items-start gap-3">
+                <span className="mt-1 text-lg">{style.icon}</span>
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-bold text-gray-900">{idx + 1}. {point.point}</span>
+                    <span className={`px-3 py-0.5 rounded-full text-xs font-semibold ${style.className}`}>{style.label}</span>
+                  </div>
+                  <div className="text-gray-700 mt-1">{point.comment}</div>
+                  {point.evidence && (
+                    <blockquote className="mt-2 pl-3 border-l-4 border-yellow-300 text-gray-600 italic">
+                      “{point.evidence}”
+                      {typeof point.start !== 'number' && (
+                        <span className="not-italic text-xs text-gray-400 ml-2">(not found verbatim in your text)</span>
+                      )}
+                    </blockquote>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default ContentPointsPanel;
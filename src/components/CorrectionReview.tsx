@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LanguageError, VocabularyProfile } from '@/types';
+import { acceptedEdits, applyEdits, CorrectionDecision, CorrectionStatus, diffWords, initialDecisions } from '@/lib/revision';
+import { anchorErrors, isAnchored } from '@/lib/anchoring';
+import { errorTypeLabel } from '@/lib/taxonomy';
+import TextHighlighter from './TextHighlighter';
+import DraftDiff from './DraftDiff';
+import { FaCheck, FaChevronLeft, FaChevronRight, FaCopy, FaRedo, FaTimes, FaUndo } from 'react-icons/fa';
+
+interface CorrectionReviewProps {
+  writing: string;
+  errors: LanguageError[];
+  // Send the revised draft back for a fresh analysis
+  onReanalyze?: (revised: string) => void;
+  vocabulary?: VocabularyProfile;
+}
+
+const CorrectionReview: React.FC<CorrectionReviewProps> = ({ writing, errors, onReanalyze, vocabulary }) => {
+  const [decisions, setDecisions] = useState<CorrectionDecision[]>(() => initialDecisions(errors));
+  const [selected, setSelected] = useState(0);
+  const [showDiff, setShowDiff] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const located = useMemo(() => anchorErrors(errors, writing), [errors, writing]);
+  // Errors that could not be located in the text cannot be applied, so the workflow skips them
+  const order = useMemo(
+    () => located
+      .map((error, index) => ({ error, index }))
+      .filter(({ error }) => isAnchored(error))
+      .sort((a, b) => a.error.start! - b.error.start!)
+      .map(({ index }) => index),
+    [located]
+  );
+
+  useEffect(() => {
+    setDecisions(initialDecisions(errors));
+    setSelected(order[0] ?? 0);
+  }, [errors, order]);
+
+  const revision = useMemo(() => applyEdits(writing, acceptedEdits(located, decisions)), [writing, located, decisions]);
+  const diff = useMemo(() => (showDiff ? diffWords(writing, revision.text) : []), [showDiff, writing, revision.text]);
+
+  const position = order.indexOf(selected);
+  const current = located[selected];
+  const decision = decisions[selected];
+  const counts = decisions.reduce(
+    (acc, d, i) => (order.includes(i) ? { ...acc, [d.status]: acc[d.status] + 1 } : acc),
+    { pending: 0, accepted: 0, rejected: 0 } as Record<CorrectionStatus, number>
+  );
+
+  const move = (step: number) => {
+    if (order.length === 0) return;
+    setSelected(order[(position + step + order.length) % order.length]);
+  };
+
+  const decide = (changes: Partial<CorrectionDecision>, advance = false) => {
+    setDecisions(decisions.map((d, i) => (i === selected ? { ...d, ...changes } : d)));
+    if (!advance) return;
+    // Jump to the next undecided error after this one, if any
+    const next = [...order.slice(position + 1), ...order.slice(0, position)].find(i => decisions[i].status === 'pending');
+    if (next !== undefined) setSelected(next);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(revision.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Revised text with the applied corrections marked
+  const renderRevised = () => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    revision.applied.forEach(edit => {
+      parts.push(<span key={lastIndex + '-normal'}>{revision.text.substring(lastIndex, edit.revisedStart)}</span>);
+      parts.push(
+        <span key={edit.revisedStart + '-edit'} className="bg-green-200 border-b-2 border-green-500">
+          {revision.text.substring(edit.revisedStart, edit.revisedEnd)}
+        </span>
+      );
+      lastIndex = edit.revisedEnd;
+    });
+    parts.push(<span key={lastIndex + '-end'}>{revision.text.substring(lastIndex)}</span>);
+    return parts;
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-full font-semibold shadow disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <TextHighlighter
+        originalText={writing}
+        errors={located}
+        selectedIndex={selected}
+        statuses={decisions.map(d => d.status)}
+        onSelect={setSelected}
+        vocabulary={vocabulary}
+      />
+
+      {order.length > 0 && current && decision && (
+        <div className="bg-white/90 p-6 rounded-2xl border-2 border-blue-200 shadow-xl">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h3 className="text-2xl font-extrabold text-blue-700">Revise Your Draft</h3>
+            <div className="flex items-center gap-3 text-sm text-gray-700">
+              <button onClick={() => move(-1)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Previous correction">
+                <FaChevronLeft />
+              </button>
+              <span>Correction {position + 1} of {order.length}</span>
+              <button onClick={() => move(1)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Next correction">
+                <FaChevronRight />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 bg-gray-50 rounded-xl text-gray-900">
+            <div className="text-sm font-bold text-blue-700 mb-2">
+              {errorTypeLabel(current.type)} error
+              {decision.status !== 'pending' && (
+                <span className={`ml-2 ${decision.status === 'accepted' ? 'text-green-700' : 'text-gray-500'}`}>
+                  ({decision.status})
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="line-through text-red-700">{current.text}</span>
+              <span>→</span>
+              <input
+                value={decision.replacement}
+                onChange={(e) => decide({ replacement: e.target.value, status: 'accepted' })}
+                className="flex-1 min-w-[12rem] p-2 border border-gray-300 rounded-md text-gray-900"
+                aria-label="Correction"
+              />
+            </div>
+            <div className="text-sm text-gray-700">{current.explanation}</div>
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-4">
+            <button onClick={() => decide({ status: 'accepted' }, true)} className={`${buttonClass} bg-green-600 text-white`}>
+              <FaCheck /> Accept
+            </button>
+            <button onClick={() => decide({ status: 'rejected' }, true)} className={`${buttonClass} bg-gray-200 text-gray-800`}>
+              <FaTimes /> Reject
+            </button>
+            {decision.status !== 'pending' && (
+              <button onClick={() => decide({ status: 'pending', replacement: current.correction })} className={`${buttonClass} bg-white text-gray-700`}>
+                <FaUndo /> Undo
+              </button>
+            )}
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <div className="text-sm text-gray-600">
+                {counts.accepted} accepted · {counts.rejected} rejected · {counts.pending} to review
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+                Compare with the original
+              </label>
+            </div>
+
+            {showDiff ? (
+              <DraftDiff segments={diff} />
+            ) : (
+              <div className="p-4 bg-gray-50 rounded-xl whitespace-pre-wrap text-gray-800 leading-relaxed">{renderRevised()}</div>
+            )}
+
+            <div className="flex flex-wrap gap-3 mt-4">
+              <button onClick={handleCopy} className={`${buttonClass} bg-white text-gray-800`}>
+                <FaCopy /> {copied ? 'Copied' : 'Copy Revised Text'}
+              </button>
+              {onReanalyze && (
+                <button
+                  onClick={() => onReanalyze(revision.text)}
+                  disabled={counts.accepted === 0}
+                  className={`${buttonClass} bg-gradient-to-r from-blue-600 to-purple-500 text-white`}
+                >
+                  <FaRedo /> Re-analyze Revised Draft
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionReview;
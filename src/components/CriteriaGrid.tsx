@@ -1,9 +1,13 @@
 import React from 'react';
-import { Criterion } from '@/types';
-import { FaRegLightbulb, FaRegComments, FaRegListAlt, FaRegEdit } from 'react-icons/fa';
+import { Criterion, GenreCheck } from '@/types';
+import { FaRegLightbulb, FaRegComments, FaRegListAlt, FaRegEdit, FaExclamationTriangle, FaCheck, FaTimes } from 'react-icons/fa';
 
 interface CriteriaGridProps {
   criteria: Criterion[];
+  // For partial results: shown in place of criteria that have not arrived (yet)
+  placeholder?: string;
+  // Rule-based convention checks, listed under Communicative Achievement
+  genre?: GenreCheck;
 }
 
 const getColor = (score: number) => {
@@ -19,17 +23,25 @@ const icons: Record<string, React.ReactNode> = {
   'Language': <FaRegEdit className="text-xl text-pink-500 mr-2" />,
 };
 
-const CriteriaGrid: React.FC<CriteriaGridProps> = ({ criteria }) => {
+const CriteriaGrid: React.FC<CriteriaGridProps> = ({ criteria, placeholder, genre }) => {
   // Ensure the order is always Content, Communicative Achievement, Organisation, Language
   const order = ['Content', 'Communicative Achievement', 'Organisation', 'Language'];
-  const sorted = order.map(name => criteria.find(c => c.name === name) || { name, score: 0, feedback: 'No feedback.' });
+  const sorted = order.map(name => criteria.find(c => c.name === name) || (placeholder ? null : { name, score: 0, feedback: 'No feedback.' }));
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 my-8 max-w-3xl mx-auto">
-      {sorted.map((criterion) => (
+      {sorted.map((criterion, i) => criterion === null ? (
+        <div key={order[i]} className="bg-white rounded-2xl shadow p-6 flex flex-col min-h-[200px] border border-dashed border-gray-200">
+          <div className="flex items-center mb-2">
+            {icons[order[i]]}
+            <span className="text-lg font-bold text-gray-400">{order[i]}</span>
+          </div>
+          <div className="text-gray-400 text-base mt-2">{placeholder}</div>
+        </div>
+      ) : (
         <div
           key={criterion.name}
-          className="relative bg-white rounded-2xl shadow p-6 flex flex-col min-h-[200px] border border-gray-100 transition-transform duration-200 hover:shadow-xl hover:scale-105"
+          className={`relative bg-white rounded-2xl shadow p-6 flex flex-col min-h-[200px] border transition-transform duration-200 hover:shadow-xl hover:scale-105 ${criterion.consistency?.lowAgreement ? 'border-orange-300 border-dashed' : 'border-gray-100'}`}
         >
           <div className="flex items-center mb-2">
             {icons[criterion.name]}
@@ -50,6 +62,37 @@ const CriteriaGrid: React.FC<CriteriaGridProps> = ({ criteria }) => {
           <div className="text-gray-700 text-base mt-2 font-normal leading-relaxed">
             {criterion.feedback}
           </div>
+          {criterion.suggestions && criterion.suggestions.length > 0 && (
+            <ul className="mt-3 list-disc ml-5 text-sm text-gray-700 space-y-1">
+              {criterion.suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+            </ul>
+          )}
+          {criterion.name === 'Communicative Achievement' && genre && genre.findings.length > 0 && (
+            <div className="mt-4 border-t border-gray-100 pt-3">
+              <div className="text-xs font-bold uppercase text-gray-500 mb-2">{genre.taskType} conventions</div>
+              <ul className="space-y-1 text-sm">
+                {genre.findings.map(finding => (
+                  <li key={finding.id} className="flex items-start gap-2" title={finding.detail}>
+                    {finding.met ? <FaCheck className="text-green-500 mt-1 shrink-0" /> : <FaTimes className="text-red-400 mt-1 shrink-0" />}
+                    <span className={finding.met ? 'text-gray-700' : 'text-gray-900'}>
+                      {finding.label}
+                      {!finding.met && <span className="block text-xs text-gray-500">{finding.detail}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {criterion.consistency && (
+            <div
+              className={`mt-4 text-xs flex items-center gap-2 ${criterion.consistency.lowAgreement ? 'text-orange-700 font-semibold' : 'text-gray-500'}`}
+              title={`Scores from each run: ${criterion.consistency.samples.join(', ')}`}
+            >
+              {criterion.consistency.lowAgreement && <FaExclamationTriangle />}
+              {criterion.consistency.lowAgreement ? 'Low agreement' : 'Consistent'} across {criterion.consistency.samples.length} runs
+              (range {Math.min(...criterion.consistency.samples)}-{Math.max(...criterion.consistency.samples)}, ±{criterion.consistency.stdDev.toFixed(1)})
+            </div>
+          )}
         </div>
       ))}
     </div>
@@ -0,0 +1,114 @@
+import React from 'react';
+import { DraftComparison, LanguageError } from '@/types';
+import { errorTypeLabel } from '@/lib/taxonomy';
+import DraftDiff from './DraftDiff';
+
+interface DraftComparisonViewProps {
+  comparison: DraftComparison;
+}
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change}` : String(change);
+}
+
+function changeClass(change: number): string {
+  if (change > 0) return 'bg-green-100 text-green-800';
+  if (change < 0) return 'bg-red-100 text-red-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+const ErrorList: React.FC<{ title: string; errors: LanguageError[]; className: string }> = ({ title, errors, className }) => (
+  <div>
+    <div className={`text-sm font-bold mb-2 ${className}`}>{title} ({errors.length})</div>
+    {errors.length === 0 ? (
+      <div className="text-sm text-gray-500">None</div>
+    ) : (
+      <ul className="space-y-1 text-sm text-gray-800">
+        {errors.map((error, i) => (
+          <li key={i}>
+            <span className="line-through text-red-700">{error.text}</span> → <span className="text-green-700">{error.correction}</span>
+            <span className="text-xs text-gray-500"> · {errorTypeLabel(error.type)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const DraftComparisonView: React.FC<DraftComparisonViewProps> = ({ comparison }) => {
+  const { previous, revised, review, errors } = comparison;
+
+  return (
+    <section className="w-full max-w-5xl my-10 bg-white/90 rounded-3xl shadow-xl p-8 space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-3xl font-extrabold text-gray-900 tracking-tight">Draft Comparison</h2>
+        <div className="text-gray-800">
+          {previous.score.subscaleTotal} → {revised.score.subscaleTotal}/{revised.score.subscaleMax}
+          <span className={`ml-2 px-3 py-1 rounded-full text-sm font-semibold ${changeClass(comparison.subscaleChange)}`}>
+            {formatChange(comparison.subscaleChange)}
+          </span>
+        </div>
+      </div>
+
+      <table className="w-full text-sm text-left text-gray-800">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-500">
+            <th className="py-2">Criterion</th>
+            <th>First draft</th>
+            <th>Revision</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.criteria.map(c => (
+            <tr key={c.name} className="border-b border-gray-100">
+              <td className="py-2 font-semibold">{c.name}</td>
+              <td>{c.before}/5</td>
+              <td>{c.after}/5</td>
+              <td>
+                <span className={`px-2 py-0.5 rounded-full font-semibold ${changeClass(c.change)}`}>{formatChange(c.change)}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="p-4 bg-blue-50 rounded-xl text-gray-800">
+        <div className="font-bold text-blue-800 mb-2">Examiner comments</div>
+        {review ? (
+          <>
+            <p>{review.summary}</p>
+            {review.improvements.length > 0 && (
+              <>
+                <div className="font-semibold mt-3">What improved</div>
+                <ul className="list-disc ml-6">{review.improvements.map(item => <li key={item}>{item}</li>)}</ul>
+              </>
+            )}
+            {review.remainingIssues.length > 0 && (
+              <>
+                <div className="font-semibold mt-3">Still to work on</div>
+                <ul className="list-disc ml-6">{review.remainingIssues.map(item => <li key={item}>{item}</li>)}</ul>
+              </>
+            )}
+          </>
+        ) : (
+          <p className="text-gray-600">The examiner comments are not available right now; the scores and errors below are still up to date.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ErrorList title="Fixed" errors={errors.fixed} className="text-green-700" />
+        <ErrorList title="Still present" errors={errors.remaining.map(match => match.after)} className="text-yellow-700" />
+        <ErrorList title="New in the revision" errors={errors.introduced} className="text-red-700" />
+      </div>
+
+      <DraftDiff
+        segments={comparison.diff}
+        originalLabel={`First draft · ${new Date(previous.createdAt).toLocaleDateString()}`}
+        revisedLabel={`Revision · ${new Date(revised.createdAt).toLocaleDateString()}`}
+      />
+    </section>
+  );
+};
+
+export default DraftComparisonView;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { DiffSegment } from '@/types';
+
+interface DraftDiffProps {
+  segments: DiffSegment[];
+  originalLabel?: string;
+  revisedLabel?: string;
+}
+
+// Two drafts side by side, with removed words struck through on the left and added ones marked on the right
+const DraftDiff: React.FC<DraftDiffProps> = ({ segments, originalLabel = 'Original', revisedLabel = 'Revised' }) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-gray-800 leading-relaxed">
+      <div>
+        <div className="text-sm font-semibold text-gray-600 mb-1">{originalLabel}</div>
+        <div className="p-4 bg-gray-50 rounded-xl whitespace-pre-wrap">
+          {segments.filter(s => s.type !== 'added').map((s, i) => (
+            <span key={i} className={s.type === 'removed' ? 'bg-red-200 line-through' : ''}>{s.text}</span>
+          ))}
+        </div>
+      </div>
+      <div>
+        <div className="text-sm font-semibold text-gray-600 mb-1">{revisedLabel}</div>
+        <div className="p-4 bg-gray-50 rounded-xl whitespace-pre-wrap">
+          {segments.filter(s => s.type !== 'removed').map((s, i) => (
+            <span key={i} className={s.type === 'added' ? 'bg-green-200' : ''}>{s.text}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftDiff;
@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DraftComparison, StudentProgress, Submission, SubmissionSummary } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+import { errorTypeLabel } from '@/lib/taxonomy';
+import ProgressChart from './ProgressChart';
+import AnalysisReport from './AnalysisReport';
+import DraftComparisonView from './DraftComparisonView';
+import SignInPrompt from './SignInPrompt';
+import ClassInvitations from './ClassInvitations';
+import { useCurrentUser } from './useCurrentUser';
+import { FaHistory } from 'react-icons/fa';
+
+export default function HistoryDashboard() {
+  const { current, loading } = useCurrentUser();
+  const [studentId, setStudentId] = useState('');
+  const [progress, setProgress] = useState<StudentProgress | null>(null);
+  const [selected, setSelected] = useState<Submission | null>(null);
+  const [comparison, setComparison] = useState<DraftComparison | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Without an ID the server returns the signed-in student's own history
+  const loadHistory = async (id?: string) => {
+    if (id !== undefined && !id.trim()) {
+      setError('Please enter a student ID');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setSelected(null);
+    setComparison(null);
+    try {
+      const response = await fetch(id ? `/api/history?studentId=${encodeURIComponent(id.trim())}` : '/api/history');
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to load history.');
+        setProgress(null);
+        return;
+      }
+      setProgress(data);
+    } catch {
+      setError('Failed to load history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openSubmission = async (id: string) => {
+    setError(null);
+    setComparison(null);
+    try {
+      const response = await fetch(`/api/history/${id}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to open report.');
+        return;
+      }
+      setSelected(data);
+    } catch {
+      setError('Failed to open report.');
+    }
+  };
+
+  const openComparison = async (id: string) => {
+    setError(null);
+    setSelected(null);
+    setComparingId(id);
+    try {
+      // POST so the examiner comments are written if this pair has none yet
+      const response = await fetch(`/api/history/${id}/compare`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to compare the drafts.');
+        return;
+      }
+      setComparison(data);
+    } catch {
+      setError('Failed to compare the drafts.');
+    } finally {
+      setComparingId(null);
+    }
+  };
+
+  // Link a script to the earlier draft it revises, or unlink it with an empty value
+  const markRevision = async (id: string, revisionOf: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionOf: revisionOf || null }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to link the drafts.');
+        return;
+      }
+      if (progress) {
+        setProgress({ ...progress, submissions: progress.submissions.map(s => (s.id === id ? (data as SubmissionSummary) : s)) });
+      }
+    } catch {
+      setError('Failed to link the drafts.');
+    }
+  };
+
+  const isStudent = current?.user.role === 'student';
+
+  useEffect(() => {
+    if (isStudent) loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isStudent]);
+
+  if (loading) return null;
+  if (!current) return <SignInPrompt message="Please sign in to see your submission history." />;
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-10">
+      {isStudent ? (
+        <>
+          <ClassInvitations />
+          {error && <div className="mb-6 p-3 bg-red-50 text-red-700 rounded-md max-w-5xl w-full">{error}</div>}
+        </>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto">
+          <label className="block text-sm font-medium text-gray-900 mb-2">
+            Student ID
+          </label>
+          <div className="flex gap-4">
+            <input
+              value={studentId}
+              onChange={(e) => setStudentId(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && loadHistory(studentId)}
+              className="flex-1 p-2 border border-gray-300 rounded-md text-gray-900"
+              placeholder="e.g. anna.k"
+            />
+            <button
+              onClick={() => loadHistory(studentId)}
+              disabled={isLoading}
+              className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-2 px-6 rounded-full font-bold shadow-lg disabled:opacity-60"
+            >
+              <FaHistory />
+              {isLoading ? 'Loading...' : 'Show History'}
+            </button>
+          </div>
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+
+      {progress && (
+        <div className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-2xl shadow p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Criteria over time</h3>
+            <ProgressChart submissions={progress.submissions} />
+          </div>
+          <div className="bg-white rounded-2xl shadow p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Most frequent error types</h3>
+            {progress.errorTypes.length === 0 ? (
+              <div className="text-gray-500">No errors recorded.</div>
+            ) : (
+              <ul className="space-y-2">
+                {progress.errorTypes.slice(0, 8).map(entry => (
+                  <li key={entry.type}>
+                    <div className="flex justify-between text-sm text-gray-800">
+                      <span className="font-semibold">{errorTypeLabel(entry.type)}</span>
+                      <span>{entry.count} in {entry.submissions} script{entry.submissions === 1 ? '' : 's'}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 bg-blue-500 rounded"
+                        style={{ width: `${(entry.count / progress.errorTypes[0].count) * 100}%` }}
+                      ></div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="lg:col-span-3 bg-white rounded-2xl shadow p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Past scripts</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-500">
+                  <th className="py-2">Date</th>
+                  <th>Exam</th>
+                  <th>Task</th>
+                  <th>Subscale</th>
+                  <th>Scale</th>
+                  <th>Grade</th>
+                  <th>Revision of</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...progress.submissions].reverse().map((s, i, newestFirst) => (
+                  <tr key={s.id} className="border-b border-gray-100">
+                    <td className="py-2">{new Date(s.createdAt).toLocaleString()}</td>
+                    <td>{getExamProfile(s.examLevel).name}</td>
+                    <td>{s.taskType}</td>
+                    <td>{s.score.subscaleTotal}/{s.score.subscaleMax}</td>
+                    <td>{s.score.scaleScore}</td>
+                    <td>{s.score.grade}</td>
+                    <td>
+                      <select
+                        value={s.revisionOf ?? ''}
+                        onChange={(e) => markRevision(s.id, e.target.value)}
+                        className="p-1 border border-gray-300 rounded-md text-gray-900 text-xs max-w-[10rem]"
+                        aria-label="Earlier draft"
+                      >
+                        <option value="">none</option>
+                        {newestFirst.slice(i + 1).map(earlier => (
+                          <option key={earlier.id} value={earlier.id}>
+                            {new Date(earlier.createdAt).toLocaleDateString()} {earlier.taskType} ({earlier.score.subscaleTotal})
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="text-right space-x-3 whitespace-nowrap">
+                      {s.revisionOf && (
+                        <button
+                          onClick={() => openComparison(s.id)}
+                          disabled={comparingId === s.id}
+                          className="text-blue-600 font-semibold hover:underline disabled:opacity-60"
+                        >
+                          {comparingId === s.id ? 'Comparing...' : 'Compare drafts'}
+                        </button>
+                      )}
+                      <button onClick={() => openSubmission(s.id)} className="text-blue-600 font-semibold hover:underline">
+                        Open report
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {comparison && <DraftComparisonView comparison={comparison} />}
+
+      {selected && (
+        <AnalysisReport
+          result={{ ...selected.result, submissionId: selected.id }}
+          writing={selected.writing}
+          examLevel={selected.examLevel}
+          taskType={selected.taskType}
+          title={`${selected.taskType} · ${new Date(selected.createdAt).toLocaleDateString()}`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { getTranslator, Translator, UiLocale } from '@/lib/i18n';
+
+const LocaleContext = createContext<Translator>(getTranslator('en'));
+
+// Components outside a provider, such as the history pages, stay in English
+export default function LocaleProvider({ locale, children }: { locale: UiLocale; children: React.ReactNode }) {
+  const translator = useMemo(() => getTranslator(locale), [locale]);
+  return <LocaleContext.Provider value={translator}>{children}</LocaleContext.Provider>;
+}
+
+export function useTranslator(): Translator {
+  return useContext(LocaleContext);
+}
+
+// Fill {name} placeholders of a translated string with elements such as links
+export function formatNodes(template: string, nodes: Record<string, React.ReactNode>): React.ReactNode[] {
+  return template.split(/\{(\w+)\}/).map((part, i) => (i % 2 === 1 ? <React.Fragment key={i}>{nodes[part] ?? `{${part}}`}</React.Fragment> : part));
+}
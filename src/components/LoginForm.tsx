@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaEnvelope, FaSignInAlt, FaUserPlus } from 'react-icons/fa';
+
+type Mode = 'password' | 'magic' | 'register';
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400';
+const buttonClass = 'w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-2 px-4 rounded-full font-bold shadow disabled:opacity-60';
+
+export default function LoginForm() {
+  const [mode, setMode] = useState<Mode>('password');
+  const [identifier, setIdentifier] = useState('');
+  const [username, setUsername] = useState('');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('error') === 'link') {
+      setError('This sign-in link has expired or was already used. Please ask for a new one.');
+    }
+  }, []);
+
+  const submit = async (url: string, payload: object, onSuccess: (data: { message?: string }) => void) => {
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Something went wrong. Please try again.');
+        return;
+      }
+      onSuccess(data);
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const goHome = () => {
+    window.location.href = '/';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'password') submit('/api/auth/login', { identifier, password }, goHome);
+    if (mode === 'register') submit('/api/auth/register', { username, name, email, password }, goHome);
+    if (mode === 'magic') submit('/api/auth/magic-link', { email }, data => setMessage(data.message || 'Check your inbox.'));
+  };
+
+  const tab = (value: Mode, label: string) => (
+    <button
+      type="button"
+      onClick={() => { setMode(value); setError(null); setMessage(null); }}
+      className={`flex-1 py-2 text-sm font-semibold border-b-2 ${mode === value ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-10 max-w-md w-full mx-auto">
+      <div className="flex mb-6">
+        {tab('password', 'Password')}
+        {tab('magic', 'Email link')}
+        {tab('register', 'Create account')}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'password' && (
+          <input value={identifier} onChange={(e) => setIdentifier(e.target.value)} className={inputClass} placeholder="Username or email" autoComplete="username" />
+        )}
+        {mode === 'register' && (
+          <>
+            <input value={username} onChange={(e) => setUsername(e.target.value)} className={inputClass} placeholder="Username, e.g. anna.k" autoComplete="username" />
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Your name" autoComplete="name" />
+          </>
+        )}
+        {(mode === 'register' || mode === 'magic') && (
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} placeholder="Email" autoComplete="email" />
+        )}
+        {mode !== 'magic' && (
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Password"
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+          />
+        )}
+
+        <button type="submit" disabled={isSubmitting} className={buttonClass}>
+          {mode === 'password' && <><FaSignInAlt /> Sign in</>}
+          {mode === 'magic' && <><FaEnvelope /> Email me a sign-in link</>}
+          {mode === 'register' && <><FaUserPlus /> Create account</>}
+        </button>
+      </form>
+
+      {message && <div className="mt-4 p-3 bg-green-50 text-green-800 rounded-md">{message}</div>}
+      {error && <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React from 'react';
+import { LinkingCategory, TextMetrics } from '@/types';
+
+interface MetricsPanelProps {
+  metrics: TextMetrics;
+  // Shown above the metrics, e.g. when they stand in for an examiner assessment
+  notice?: string;
+}
+
+const categoryLabels: Record<LinkingCategory, string> = {
+  addition: 'Addition',
+  contrast: 'Contrast',
+  cause: 'Cause & result',
+  example: 'Examples',
+  sequence: 'Sequence',
+  conclusion: 'Conclusion',
+  stance: 'Stance',
+};
+
+function balanceLabel(variation: number): string {
+  if (variation < 0.25) return 'even';
+  if (variation < 0.5) return 'fairly even';
+  return 'uneven';
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="p-3 bg-gray-50 rounded-xl text-center">
+    <div className="text-2xl font-bold text-gray-900">{value}</div>
+    <div className="text-xs text-gray-600">{label}</div>
+  </div>
+);
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, notice }) => {
+  const { paragraphs, sentences, lexical, structures } = metrics;
+  const longestParagraph = Math.max(1, ...paragraphs.wordCounts);
+
+  return (
+    <div className="bg-white/90 p-6 rounded-2xl border-2 border-teal-200 shadow-xl my-8 max-w-5xl w-full mx-auto text-gray-800">
+      <h3 className="text-2xl font-extrabold mb-1 text-teal-700">Text Metrics</h3>
+      <p className="text-sm text-gray-500 mb-4">Measured directly from the text, without the examiner model.</p>
+      {notice && <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md">{notice}</div>}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+        <Stat label="Words" value={metrics.wordCount} />
+        <Stat label="Paragraphs" value={paragraphs.count} />
+        <Stat label="Sentences" value={sentences.count} />
+        <Stat label="Words per sentence" value={sentences.meanLength} />
+        <Stat label="Lexical diversity (MTLD)" value={lexical.mtld} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Paragraph balance <span className="font-normal text-sm text-gray-500">({balanceLabel(paragraphs.variation)})</span></h4>
+          <ul className="space-y-1">
+            {paragraphs.wordCounts.map((words, i) => (
+              <li key={i} className="flex items-center gap-2 text-sm">
+                <span className="w-6 text-gray-500">{i + 1}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded">
+                  <div className="h-3 bg-teal-400 rounded" style={{ width: `${(words / longestParagraph) * 100}%` }}></div>
+                </div>
+                <span className="w-16 text-right">{words} words</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Sentence variety</h4>
+          <div className="text-sm space-y-1">
+            <div>{sentences.bands.short} short · {sentences.bands.medium} medium · {sentences.bands.long} long (over 25 words)</div>
+            <div>Lengths from {sentences.shortest} to {sentences.longest} words, spread {sentences.lengthSpread}</div>
+            <div>{Math.round(structures.complexSentenceShare * 100)}% of sentences contain a subordinate or relative clause</div>
+            <div>Type-token ratio {lexical.typeTokenRatio} ({lexical.uniqueWords} different words)</div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Linking devices</h4>
+          <ul className="text-sm space-y-1">
+            {metrics.linking.map(use => (
+              <li key={use.category} className={use.count ? '' : 'text-gray-400'}>
+                <span className="font-semibold">{categoryLabels[use.category]}:</span>{' '}
+                {use.count ? use.devices.map(d => (d.count > 1 ? `${d.phrase} ×${d.count}` : d.phrase)).join(', ') : 'none'}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Structures <span className="font-normal text-sm text-gray-500">(estimated)</span></h4>
+          <div className="grid grid-cols-3 gap-2">
+            <Stat label="Passives" value={structures.passives} />
+            <Stat label="Relative clauses" value={structures.relativeClauses} />
+            <Stat label="Subordinate clauses" value={structures.subordinateClauses} />
+            <Stat label="Conditionals" value={structures.conditionals} />
+            <Stat label="Inversions" value={structures.inversions} />
+            <Stat label="Cleft sentences" value={structures.cleftSentences} />
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h4 className="font-bold text-gray-900 mb-2">Repetition hot-spots</h4>
+        {metrics.repetition.length === 0 ? (
+          <div className="text-sm text-gray-500">No content word is repeated three or more times within fifty words.</div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {metrics.repetition.map(spot => (
+              <span key={`${spot.word}-${spot.start}`} className="px-3 py-1 rounded-full bg-orange-100 text-orange-800 text-sm font-semibold">
+                {spot.word} ×{spot.count}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MetricsPanel;
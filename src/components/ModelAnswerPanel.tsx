@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ExamLevel, ModelRewrite, RewriteChange, RewriteFocus, TaskType } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+import { FaMagic } from 'react-icons/fa';
+
+interface ModelAnswerPanelProps {
+  writing: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  // Saved submissions keep their rewrite, so reopening it is free
+  submissionId?: string;
+}
+
+const focusStyles: Record<RewriteFocus, string> = {
+  accuracy: 'bg-red-100 text-red-800',
+  range: 'bg-blue-100 text-blue-800',
+  cohesion: 'bg-purple-100 text-purple-800',
+  register: 'bg-teal-100 text-teal-800',
+  organisation: 'bg-orange-100 text-orange-800',
+  development: 'bg-yellow-100 text-yellow-800',
+};
+
+// Rewritten paragraph with each located change underlined and numbered
+function renderRewritten(text: string, changes: Array<RewriteChange & { number: number }>) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  changes
+    .filter(c => typeof c.start === 'number' && typeof c.end === 'number')
+    .sort((a, b) => a.start! - b.start!)
+    .forEach(change => {
+      if (change.start! < lastIndex) return;
+      parts.push(<span key={lastIndex + '-normal'}>{text.substring(lastIndex, change.start!)}</span>);
+      parts.push(
+        <span key={change.start + '-change'} className="bg-green-100 border-b-2 border-green-500" title={change.reason}>
+          {text.substring(change.start!, change.end!)}
+          <sup className="text-green-700 font-bold ml-0.5">{change.number}</sup>
+        </span>
+      );
+      lastIndex = change.end!;
+    });
+  parts.push(<span key={lastIndex + '-end'}>{text.substring(lastIndex)}</span>);
+  return parts;
+}
+
+const ModelAnswerPanel: React.FC<ModelAnswerPanelProps> = ({ writing, examLevel, taskType, submissionId }) => {
+  const [rewrite, setRewrite] = useState<ModelRewrite | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRewrite(null);
+    setError(null);
+  }, [writing, submissionId]);
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/rewrite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submissionId ? { submissionId } : { examLevel, taskType, writing }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to write a model answer. Please try again.');
+        return;
+      }
+      setRewrite(data);
+    } catch {
+      setError('Failed to write a model answer. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Number the changes through the whole answer
+  let counter = 0;
+  const numbered = rewrite?.paragraphs.map(p => p.changes.map(change => ({ ...change, number: ++counter }))) ?? [];
+
+  return (
+    <div className="bg-white/90 p-6 rounded-2xl border-2 border-green-200 shadow-xl my-8 text-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-extrabold text-green-700">Band 5 Model Answer</h3>
+          <p className="text-sm text-gray-500">Your text rewritten at the top band for {getExamProfile(examLevel).name} {taskType}, keeping your ideas.</p>
+        </div>
+        {!rewrite && (
+          <button
+            onClick={handleGenerate}
+            disabled={loading}
+            className="flex items-center gap-2 px-5 py-2 rounded-full font-semibold shadow bg-gradient-to-r from-green-600 to-teal-500 text-white disabled:opacity-60"
+          >
+            <FaMagic /> {loading ? 'Writing...' : 'Show Model Answer'}
+          </button>
+        )}
+      </div>
+      {error && <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+
+      {rewrite && (
+        <div className="mt-6 space-y-6">
+          <p className="p-4 bg-green-50 rounded-xl">{rewrite.summary}</p>
+          <div className="hidden md:grid grid-cols-2 gap-6 text-sm font-bold text-gray-500">
+            <div>Your text</div>
+            <div>Model answer ({rewrite.wordCount} words)</div>
+          </div>
+          {rewrite.paragraphs.map((paragraph, i) => (
+            <div key={i} className="border-t border-gray-100 pt-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 leading-relaxed">
+                <div className="whitespace-pre-wrap text-gray-600">{paragraph.original}</div>
+                <div className="whitespace-pre-wrap text-gray-900">{renderRewritten(paragraph.rewritten, numbered[i])}</div>
+              </div>
+              {numbered[i].length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm">
+                  {numbered[i].map(change => (
+                    <li key={change.number}>
+                      <span className="font-bold text-green-700">{change.number}.</span>{' '}
+                      {change.original && <><span className="line-through text-red-700">{change.original}</span> → </>}
+                      <span className="text-green-700">{change.revised}</span>: {change.reason}{' '}
+                      <span className={`ml-1 px-2 py-0.5 rounded-full text-xs font-semibold ${focusStyles[change.focus]}`}>
+                        {change.criterion} · {change.focus}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelAnswerPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Criterion, LanguageError } from '@/types';
+import CriteriaGrid from './CriteriaGrid';
+import TextHighlighter from './TextHighlighter';
+
+// What has been received from a streaming analysis: only complete criteria and errors are kept
+export interface PartialAnalysis {
+  criteria: Criterion[];
+  errors: LanguageError[];
+  characters: number;
+}
+
+interface PartialReportProps {
+  partial: PartialAnalysis;
+  writing: string;
+  streaming: boolean;
+  // Why the stream stopped early, e.g. cancelled or disconnected
+  notice?: string | null;
+}
+
+const PartialReport: React.FC<PartialReportProps> = ({ partial, writing, streaming, notice }) => {
+  return (
+    <section className="flex flex-col items-center justify-center my-12 w-full">
+      <h2 className="text-3xl font-extrabold mb-4 text-gray-900 text-center tracking-tight drop-shadow">
+        {streaming ? 'Analyzing...' : 'Partial Results'}
+      </h2>
+      {streaming && (
+        <div className="text-sm text-gray-600 mb-4">
+          Receiving examiner feedback ({partial.characters} characters, {partial.criteria.length}/4 criteria, {partial.errors.length} errors so far)
+        </div>
+      )}
+      {notice && <div className="mb-4 p-3 bg-yellow-100 text-yellow-800 rounded-md max-w-3xl">{notice}</div>}
+      <div className="w-full bg-white/80 rounded-3xl shadow-xl p-8 mb-10 max-w-5xl mx-auto">
+        <CriteriaGrid criteria={partial.criteria} placeholder={streaming ? 'Waiting for the examiner...' : 'Not received.'} />
+        <div className="my-10">
+          <TextHighlighter originalText={writing} errors={partial.errors} />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default PartialReport;
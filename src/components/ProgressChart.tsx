@@ -0,0 +1,66 @@
+import React from 'react';
+import { SubmissionSummary } from '@/types';
+
+interface ProgressChartProps {
+  submissions: SubmissionSummary[];
+}
+
+const SERIES: Array<{ name: string; color: string }> = [
+  { name: 'Content', color: '#eab308' },
+  { name: 'Communicative Achievement', color: '#3b82f6' },
+  { name: 'Organisation', color: '#a855f7' },
+  { name: 'Language', color: '#ec4899' },
+];
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = 32;
+
+// Line chart of the four criterion scores (0-5) across submissions, oldest first
+const ProgressChart: React.FC<ProgressChartProps> = ({ submissions }) => {
+  if (submissions.length === 0) {
+    return <div className="text-gray-500 text-center py-8">No submissions yet.</div>;
+  }
+
+  const x = (i: number) => PAD + (submissions.length === 1 ? (WIDTH - 2 * PAD) / 2 : (i * (WIDTH - 2 * PAD)) / (submissions.length - 1));
+  const y = (score: number) => HEIGHT - PAD - (score / 5) * (HEIGHT - 2 * PAD);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Criterion scores over time">
+        {[0, 1, 2, 3, 4, 5].map(score => (
+          <g key={score}>
+            <line x1={PAD} x2={WIDTH - PAD} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+            <text x={PAD - 8} y={y(score) + 4} fontSize="10" textAnchor="end" fill="#6b7280">{score}</text>
+          </g>
+        ))}
+        {SERIES.map(series => {
+          const points = submissions
+            .map((s, i) => (typeof s.criteria[series.name] === 'number' ? `${x(i)},${y(s.criteria[series.name])}` : null))
+            .filter(Boolean)
+            .join(' ');
+          return (
+            <g key={series.name}>
+              <polyline points={points} fill="none" stroke={series.color} strokeWidth="2" />
+              {submissions.map((s, i) => (
+                <circle key={s.id} cx={x(i)} cy={y(s.criteria[series.name] ?? 0)} r="3" fill={series.color}>
+                  <title>{`${series.name}: ${s.criteria[series.name]} (${new Date(s.createdAt).toLocaleDateString()})`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-4 text-xs mt-2">
+        {SERIES.map(series => (
+          <div key={series.name} className="flex items-center gap-2">
+            <div className="w-4 h-1 rounded" style={{ backgroundColor: series.color }}></div>
+            <span className="text-gray-700 font-semibold">{series.name}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressChart;
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ExamLevel, TaskType } from '@/types';
+import { EXAM_LEVELS, getExamProfile, getTaskTypes } from '@/lib/exams';
+import { FIRST_LANGUAGES } from '@/lib/i18n';
+import type { ChatMessage } from '@/lib/llm/types';
+import { useCurrentUser } from './useCurrentUser';
+
+interface PromptVersions {
+  promptVersion: string;
+  rubricVersion: string;
+  rubricVersions: string[];
+}
+
+interface Preview {
+  promptVersion: string;
+  rubricVersion: string;
+  messages: ChatMessage[];
+}
+
+// Admins can check the exact examiner prompt a level, task type and rubric produce, without calling the model
+export default function PromptPreview() {
+  const { current } = useCurrentUser();
+  const [versions, setVersions] = useState<PromptVersions | null>(null);
+  const [examLevel, setExamLevel] = useState<ExamLevel>('FCE');
+  const [taskType, setTaskType] = useState<TaskType>('Essay');
+  const [rubricVersion, setRubricVersion] = useState('');
+  const [firstLanguage, setFirstLanguage] = useState('');
+  const [taskPrompt, setTaskPrompt] = useState('');
+  const [writing, setWriting] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = current?.user.role === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetch('/api/admin/prompt')
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.message || 'Failed to load the prompt versions.');
+        setVersions(data);
+        setRubricVersion(data.rubricVersion);
+      })
+      .catch(err => setError((err as Error).message));
+  }, [isAdmin]);
+
+  const handleExamLevelChange = (level: ExamLevel) => {
+    setExamLevel(level);
+    if (!getTaskTypes(level).includes(taskType)) setTaskType(getTaskTypes(level)[0]);
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/prompt', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ examLevel, taskType, rubricVersion, firstLanguage, taskPrompt, writing }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'Failed to build the prompt.');
+        return;
+      }
+      setPreview(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-10 max-w-5xl w-full mx-auto text-gray-800">
+      <h2 className="text-2xl font-bold text-gray-800 mb-1">Examiner Prompt Preview</h2>
+      {versions && (
+        <p className="text-sm text-gray-500 mb-4">
+          Analyses use examiner prompt {versions.promptVersion} with rubric {versions.rubricVersion}.
+        </p>
+      )}
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md">{error}</div>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+        <label className="block">
+          <span className="block font-medium mb-1">Exam Level</span>
+          <select value={examLevel} onChange={(e) => handleExamLevelChange(e.target.value as ExamLevel)} className="w-full p-2 border border-gray-300 rounded-md">
+            {EXAM_LEVELS.map(level => <option key={level} value={level}>{getExamProfile(level).name}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block font-medium mb-1">Task Type</span>
+          <select value={taskType} onChange={(e) => setTaskType(e.target.value as TaskType)} className="w-full p-2 border border-gray-300 rounded-md">
+            {getTaskTypes(examLevel).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block font-medium mb-1">Rubric</span>
+          <select value={rubricVersion} onChange={(e) => setRubricVersion(e.target.value)} className="w-full p-2 border border-gray-300 rounded-md">
+            {versions?.rubricVersions.map(version => <option key={version} value={version}>{version}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block font-medium mb-1">First Language</span>
+          <select value={firstLanguage} onChange={(e) => setFirstLanguage(e.target.value)} className="w-full p-2 border border-gray-300 rounded-md">
+            <option value="">Not specified</option>
+            {FIRST_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="block text-sm mb-4">
+        <span className="block font-medium mb-1">Task Prompt <span className="font-normal text-gray-500">(optional)</span></span>
+        <textarea value={taskPrompt} onChange={(e) => setTaskPrompt(e.target.value)} rows={2} className="w-full p-2 border border-gray-300 rounded-md" />
+      </label>
+      <label className="block text-sm mb-4">
+        <span className="block font-medium mb-1">Sample Writing <span className="font-normal text-gray-500">(optional, fills in the metrics and vocabulary sections)</span></span>
+        <textarea value={writing} onChange={(e) => setWriting(e.target.value)} rows={4} className="w-full p-2 border border-gray-300 rounded-md" />
+      </label>
+      <button
+        onClick={handlePreview}
+        disabled={loading}
+        className="px-5 py-2 rounded-md font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60"
+      >
+        {loading ? 'Building...' : 'Preview Prompt'}
+      </button>
+
+      {preview && (
+        <div className="mt-6 space-y-4">
+          <div className="text-sm text-gray-500">Examiner prompt {preview.promptVersion}, rubric {preview.rubricVersion}</div>
+          {preview.messages.map((message, i) => (
+            <div key={i}>
+              <div className="text-xs font-bold uppercase text-gray-500 mb-1">{message.role}</div>
+              <pre className="whitespace-pre-wrap text-sm bg-gray-50 border border-gray-200 rounded-md p-4 max-h-[32rem] overflow-y-auto">{message.content}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { AnalysisResult, ExamLevel, TaskType } from '@/types';
+import { FaDownload } from 'react-icons/fa';
+
+interface ReportDownloadProps {
+  result: AnalysisResult;
+  writing: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+}
+
+const FORMATS = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word (DOCX)' },
+  { value: 'markdown', label: 'Markdown' },
+];
+
+export default function ReportDownload({ result, writing, examLevel, taskType }: ReportDownloadProps) {
+  const [format, setFormat] = useState('pdf');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      // Stored submissions are rendered from the server's copy
+      const payload = result.submissionId
+        ? { format, submissionId: result.submissionId }
+        : { format, result, writing, examLevel, taskType };
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Failed to export the report.');
+        return;
+      }
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'feedback-report';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Failed to export the report.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value)} className="p-2 border border-gray-300 rounded-md text-gray-900 text-sm">
+          {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        <button
+          onClick={handleDownload}
+          disabled={isExporting}
+          className="flex items-center gap-2 bg-white border border-blue-600 text-blue-700 py-2 px-4 rounded-full text-sm font-bold shadow hover:bg-blue-50 disabled:opacity-60"
+        >
+          <FaDownload />
+          {isExporting ? 'Preparing...' : 'Download Report'}
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-700">{error}</div>}
+    </div>
+  );
+}
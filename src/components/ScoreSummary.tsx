@@ -0,0 +1,60 @@
+import React from 'react';
+import { Criterion, ExamLevel, ScoreBreakdown } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+
+interface ScoreSummaryProps {
+  score: ScoreBreakdown;
+  criteria: Criterion[];
+  examLevel: ExamLevel;
+  // Versions recorded on the result; older results have none
+  promptVersion?: string;
+  rubricVersion?: string;
+}
+
+const gradeColor = (grade: string) => {
+  if (grade.startsWith('Grade A')) return 'bg-green-500';
+  if (grade.startsWith('Grade')) return 'bg-blue-500';
+  if (grade.startsWith('Level')) return 'bg-yellow-400';
+  return 'bg-red-400';
+};
+
+const ScoreSummary: React.FC<ScoreSummaryProps> = ({ score, criteria, examLevel, promptVersion, rubricVersion }) => {
+  const profile = getExamProfile(examLevel);
+
+  return (
+    <div className="flex flex-col items-center mb-8">
+      <div className="flex flex-wrap items-stretch justify-center gap-6">
+        <div className="w-40 flex flex-col items-center justify-center rounded-2xl bg-white shadow-lg p-4 border border-gray-100">
+          <div className="text-4xl font-extrabold text-gray-900">
+            {score.subscaleTotal}<span className="text-xl text-gray-500">/{score.subscaleMax}</span>
+          </div>
+          <div className="text-sm text-gray-600 font-semibold mt-1">Writing subscale</div>
+        </div>
+        <div className="w-40 flex flex-col items-center justify-center rounded-2xl bg-white shadow-lg p-4 border border-gray-100">
+          <div className="text-4xl font-extrabold text-gray-900">{score.scaleScore}</div>
+          <div className="text-sm text-gray-600 font-semibold mt-1 text-center">Cambridge English Scale</div>
+        </div>
+        <div className={`w-40 flex flex-col items-center justify-center rounded-2xl shadow-lg p-4 text-white ${gradeColor(score.grade)}`}>
+          <div className="text-2xl font-extrabold text-center">{score.grade}</div>
+          <div className="text-sm font-semibold mt-1 text-center">
+            Likely {profile.name} result{score.cefr ? ` (${score.cefr})` : ''}
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-center gap-3 mt-4 text-sm text-gray-700">
+        {criteria.map(c => (
+          <span key={c.name} className="px-3 py-1 rounded-full bg-gray-100 font-semibold">
+            {c.name}: {c.score}/5
+          </span>
+        ))}
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        Conversion table {score.tableVersion}
+        {rubricVersion && `, rubric ${rubricVersion}`}
+        {promptVersion && `, examiner prompt ${promptVersion}`}. Single-task estimate, not an official result.
+      </div>
+    </div>
+  );
+};
+
+export default ScoreSummary;
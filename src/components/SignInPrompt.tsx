@@ -0,0 +1,23 @@
+import React from 'react';
+import Link from 'next/link';
+import { FaSignInAlt } from 'react-icons/fa';
+
+interface SignInPromptProps {
+  message: string;
+}
+
+const SignInPrompt: React.FC<SignInPromptProps> = ({ message }) => {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-10 max-w-xl w-full mx-auto text-center text-gray-800">
+      <p className="mb-4">{message}</p>
+      <Link
+        href="/login"
+        className="inline-flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-2 px-6 rounded-full font-bold shadow-lg"
+      >
+        <FaSignInAlt /> Sign in
+      </Link>
+    </div>
+  );
+};
+
+export default SignInPrompt;
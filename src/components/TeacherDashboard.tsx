@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Assignment, ClassReport, ExamLevel, SchoolClass, TaskType } from '@/types';
+import { EXAM_LEVELS, getExamProfile, getTaskTypes } from '@/lib/exams';
+import ClassReportView from './ClassReportView';
+import SignInPrompt from './SignInPrompt';
+import { useCurrentUser } from './useCurrentUser';
+import { FaPlus } from 'react-icons/fa';
+
+type ClassDetails = SchoolClass & { assignments: Assignment[] };
+
+function splitIds(value: string): string[] {
+  return value.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed. Please try again.');
+  }
+  return data;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400';
+const buttonClass = 'flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-2 px-4 rounded-full font-bold shadow disabled:opacity-60';
+
+export default function TeacherDashboard() {
+  const { current, loading } = useCurrentUser();
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [selectedClass, setSelectedClass] = useState<ClassDetails | null>(null);
+  const [report, setReport] = useState<ClassReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [className, setClassName] = useState('');
+  const [roster, setRoster] = useState('');
+  const [newStudents, setNewStudents] = useState('');
+
+  const [title, setTitle] = useState('');
+  const [examLevel, setExamLevel] = useState<ExamLevel>('CAE');
+  const [taskType, setTaskType] = useState<TaskType>('Essay');
+  const [taskPrompt, setTaskPrompt] = useState('');
+  const [contentPoints, setContentPoints] = useState('');
+  const [deadline, setDeadline] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const loadClasses = () => run(async () => {
+    setClasses(await requestJson<SchoolClass[]>('/api/classes'));
+  });
+
+  const openClass = (id: string) => run(async () => {
+    setReport(null);
+    setSelectedClass(await requestJson<ClassDetails>(`/api/classes/${id}`));
+  });
+
+  const handleCreateClass = () => run(async () => {
+    const created = await requestJson<SchoolClass>('/api/classes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: className, studentIds: splitIds(roster) }),
+    });
+    setClassName('');
+    setRoster('');
+    setClasses([...classes, created]);
+    await openClass(created.id);
+  });
+
+  const handleAddStudents = () => run(async () => {
+    if (!selectedClass) return;
+    const updated = await requestJson<SchoolClass>(`/api/classes/${selectedClass.id}/students`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ studentIds: splitIds(newStudents) }),
+    });
+    setNewStudents('');
+    setSelectedClass({ ...selectedClass, ...updated });
+  });
+
+  const handleCreateAssignment = () => run(async () => {
+    if (!selectedClass) return;
+    const created = await requestJson<Assignment>(`/api/classes/${selectedClass.id}/assignments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title,
+        examLevel,
+        taskType,
+        taskPrompt,
+        contentPoints: contentPoints.split('\n').map(p => p.trim()).filter(Boolean),
+        deadline: deadline ? new Date(deadline).toISOString() : '',
+      }),
+    });
+    setTitle('');
+    setTaskPrompt('');
+    setContentPoints('');
+    setSelectedClass({ ...selectedClass, assignments: [...selectedClass.assignments, created] });
+  });
+
+  const openReport = (assignmentId: string) => run(async () => {
+    setReport(await requestJson<ClassReport>(`/api/assignments/${assignmentId}/report`));
+  });
+
+  const isTeacher = current?.user.role === 'teacher' || current?.user.role === 'admin';
+
+  useEffect(() => {
+    if (isTeacher) loadClasses();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isTeacher]);
+
+  if (loading) return null;
+  if (!isTeacher) return <SignInPrompt message="Please sign in with a teacher account to manage classes." />;
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-10 space-y-6">
+      {error && <div className="p-3 bg-red-50 text-red-700 rounded-md max-w-5xl w-full">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 max-w-5xl w-full">
+        <div className="bg-white rounded-2xl shadow p-6 space-y-4">
+          <h3 className="text-xl font-bold text-gray-900">Classes</h3>
+          <ul className="space-y-1">
+            {classes.map(c => (
+              <li key={c.id}>
+                <button
+                  onClick={() => openClass(c.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md ${selectedClass?.id === c.id ? 'bg-blue-100 text-blue-900 font-semibold' : 'hover:bg-gray-100 text-gray-800'}`}
+                >
+                  {c.name} <span className="text-xs text-gray-500">({c.studentIds.length} students)</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="border-t border-gray-200 pt-4 space-y-2">
+            <input value={className} onChange={(e) => setClassName(e.target.value)} className={inputClass} placeholder="New class name" />
+            <textarea value={roster} onChange={(e) => setRoster(e.target.value)} className={`${inputClass} h-20`} placeholder="Student IDs (comma or newline separated)" />
+            <button onClick={handleCreateClass} disabled={!className.trim()} className={`${buttonClass} w-full`}>
+              <FaPlus /> Create Class
+            </button>
+          </div>
+        </div>
+
+        {selectedClass && (
+          <div className="lg:col-span-2 bg-white rounded-2xl shadow p-6 space-y-4">
+            <h3 className="text-xl font-bold text-gray-900">{selectedClass.name}</h3>
+            <div className="text-sm text-gray-700">
+              <span className="font-semibold">Roster:</span> {selectedClass.studentIds.join(', ') || 'no students yet'}
+            </div>
+            {(selectedClass.invitedStudentIds ?? []).length > 0 && (
+              <div className="text-sm text-gray-700">
+                <span className="font-semibold">Invited, not yet joined:</span> {selectedClass.invitedStudentIds?.join(', ')}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input value={newStudents} onChange={(e) => setNewStudents(e.target.value)} className={inputClass} placeholder="Invite student IDs" />
+              <button onClick={handleAddStudents} disabled={!newStudents.trim()} className={buttonClass}>Invite</button>
+            </div>
+
+            <h4 className="text-lg font-bold text-gray-900 pt-2">Assignments</h4>
+            <ul className="space-y-2">
+              {selectedClass.assignments.map(a => (
+                <li key={a.id} className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-100 pb-2 text-sm">
+                  <span className="text-gray-800">
+                    <span className="font-semibold">{a.title}</span> · {getExamProfile(a.examLevel).name} {a.taskType} · due {new Date(a.deadline).toLocaleString()}
+                  </span>
+                  <span className="flex gap-3">
+                    <a href={`/assignments/${a.id}`} className="text-blue-600 hover:underline">Student link</a>
+                    <button onClick={() => openReport(a.id)} className="text-blue-600 font-semibold hover:underline">Class report</button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="border-t border-gray-200 pt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={`${inputClass} md:col-span-2`} placeholder="Assignment title" />
+              <select
+                value={examLevel}
+                onChange={(e) => {
+                  const level = e.target.value as ExamLevel;
+                  setExamLevel(level);
+                  if (!getTaskTypes(level).includes(taskType)) setTaskType(getTaskTypes(level)[0]);
+                }}
+                className={inputClass}
+              >
+                {EXAM_LEVELS.map(level => <option key={level} value={level}>{getExamProfile(level).name}</option>)}
+              </select>
+              <select value={taskType} onChange={(e) => setTaskType(e.target.value as TaskType)} className={inputClass}>
+                {getTaskTypes(examLevel).map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <textarea value={taskPrompt} onChange={(e) => setTaskPrompt(e.target.value)} className={`${inputClass} h-24 md:col-span-2`} placeholder="Task prompt" />
+              <textarea value={contentPoints} onChange={(e) => setContentPoints(e.target.value)} className={`${inputClass} h-20`} placeholder="Content points (one per line)" />
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">Deadline</label>
+                <input type="datetime-local" value={deadline} onChange={(e) => setDeadline(e.target.value)} className={inputClass} />
+              </div>
+              <button onClick={handleCreateAssignment} disabled={!title.trim() || !taskPrompt.trim() || !deadline} className={`${buttonClass} md:col-span-2`}>
+                <FaPlus /> Post Assignment
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {report && (
+        <div className="max-w-5xl w-full">
+          <ClassReportView report={report} />
+        </div>
+      )}
+    </div>
+  );
+}
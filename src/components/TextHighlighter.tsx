@@ -1,153 +1,127 @@
-import React, { useState } from 'react';
-import { Criterion } from '@/types';
-
-interface Error {
-  text: string;
-  correction: string;
-  type: string;
-  explanation: string;
-  start?: number;
-  end?: number;
-}
+import React, { useMemo, useState } from 'react';
+import { CefrLevel, ErrorCategory, LanguageError, OverusedWord, OverusedWordUse, VocabularyProfile } from '@/types';
+import { CorrectionStatus } from '@/lib/revision';
+import { anchorErrors, isAnchored } from '@/lib/anchoring';
+import { ERROR_CATEGORIES, errorCategory, summarizeErrors } from '@/lib/taxonomy';
+import { useTranslator } from './LocaleProvider';
+
+type Error = LanguageError;
 
 interface TextHighlighterProps {
   originalText: string;
   errors: Error[];
+  // Correction workflow: clicking a highlight selects it, and decided errors are restyled
+  selectedIndex?: number;
+  statuses?: CorrectionStatus[];
+  onSelect?: (index: number) => void;
+  // Enables the vocabulary view: word levels and overused low-level words
+  vocabulary?: VocabularyProfile;
 }
 
-// Helper to normalize apostrophes and quotes
-function normalize(str: string) {
-  return str
-    .replace(/[’‘‛`]/g, "'")
-    .replace(/[""„‟]/g, '"')
-    .toLowerCase();
+type HighlightMode = 'errors' | 'vocabulary';
+
+type LegendKey = ErrorCategory | 'other';
+
+const categoryStyles: Record<LegendKey, { highlight: string; swatch: string; label: string }> = {
+  grammar: { highlight: 'bg-red-200 border-red-400', swatch: 'bg-red-600 border-red-800', label: 'text-red-900' },
+  spelling: { highlight: 'bg-yellow-200 border-yellow-400', swatch: 'bg-yellow-400 border-yellow-700', label: 'text-yellow-900' },
+  vocabulary: { highlight: 'bg-blue-200 border-blue-400', swatch: 'bg-blue-600 border-blue-900', label: 'text-blue-900' },
+  punctuation: { highlight: 'bg-orange-200 border-orange-400', swatch: 'bg-orange-500 border-orange-800', label: 'text-orange-900' },
+  style: { highlight: 'bg-purple-200 border-purple-400', swatch: 'bg-purple-600 border-purple-900', label: 'text-purple-900' },
+  other: { highlight: 'bg-gray-200 border-gray-400', swatch: 'bg-gray-500 border-gray-700', label: 'text-gray-800' },
+};
+
+// Everyday A1-A2 words are left plain so the higher levels stand out
+const levelStyles: Record<CefrLevel, { highlight: string; swatch: string }> = {
+  A1: { highlight: '', swatch: 'bg-gray-100 border-gray-300' },
+  A2: { highlight: '', swatch: 'bg-gray-200 border-gray-400' },
+  B1: { highlight: 'bg-sky-100', swatch: 'bg-sky-200 border-sky-400' },
+  B2: { highlight: 'bg-emerald-100', swatch: 'bg-emerald-300 border-emerald-500' },
+  C1: { highlight: 'bg-violet-200', swatch: 'bg-violet-400 border-violet-600' },
+  C2: { highlight: 'bg-fuchsia-300', swatch: 'bg-fuchsia-500 border-fuchsia-700' },
+};
+
+// Types the taxonomy does not know keep their own label and are grouped under "other"
+function legendKey(error: Error): LegendKey {
+  return errorCategory(error) ?? 'other';
 }
 
-const TextHighlighter: React.FC<TextHighlighterProps> = ({ originalText, errors }) => {
+// Category colour, with a heavier underline for errors that impede communication
+function highlightClass(error: Error) {
+  const weight = error.severity === 'impeding' ? 'border-b-4 font-semibold' : 'border-b-2';
+  return `${categoryStyles[legendKey(error)].highlight} ${weight}`;
+}
+
+// Errors only some of the examiner runs agreed on get a dashed, faded highlight
+function agreementClass(error: Error) {
+  return error.lowAgreement ? 'border-dashed opacity-70' : '';
+}
+
+// Accepted corrections turn green and rejected ones fade out
+function decisionClass(status: CorrectionStatus | undefined, selected: boolean) {
+  const base = status === 'accepted' ? '!bg-green-200 !border-green-500' : status === 'rejected' ? 'opacity-40' : '';
+  return selected ? `${base} ring-2 ring-blue-500 rounded-sm` : base;
+}
+
+const TextHighlighter: React.FC<TextHighlighterProps> = ({ originalText, errors, selectedIndex, statuses, onSelect, vocabulary }) => {
+  const [mode, setMode] = useState<HighlightMode>(errors.length === 0 && vocabulary ? 'vocabulary' : 'errors');
   const [hoveredError, setHoveredError] = useState<Error | null>(null);
+  const [hoveredWord, setHoveredWord] = useState<{ word: OverusedWord; use: OverusedWordUse } | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
+  const [hidden, setHidden] = useState<LegendKey[]>([]);
+  const { t, categoryLabel, typeLabel } = useTranslator();
+  const stats = useMemo(() => summarizeErrors(errors), [errors]);
+  const isVisible = (error: Error) => !hidden.includes(legendKey(error));
+  // Results saved before errors carried positions are placed here, with the same rules as the server
+  const anchored = useMemo(() => anchorErrors(errors, originalText), [errors, originalText]);
+  const unlocated = anchored.filter(error => !isAnchored(error) && isVisible(error));
 
-  // Helper to find all non-overlapping matches of all errors (case-insensitive, normalized)
-  const getHighlightRanges = () => {
-    const ranges: Array<{ start: number; end: number; error: Error }> = [];
-    const normText = normalize(originalText);
-    errors.forEach((error) => {
-      if (!error.text) return;
-      const normError = normalize(error.text);
-      // Use word boundaries for single words
-      const isSingleWord = /^\w+$/.test(normError.replace(/'/g, ''));
-      let regex;
-      if (isSingleWord) {
-        regex = new RegExp(`\\b${normError.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g');
-      } else {
-        regex = new RegExp(normError.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-      }
-      let match;
-      while ((match = regex.exec(normText)) !== null) {
-        // Check for overlap
-        const start = match.index;
-        const end = start + match[0].length;
-        const overlap = ranges.some(r => (start < r.end && end > r.start));
-        if (!overlap) {
-          ranges.push({ start, end, error });
-        }
-      }
-    });
-    // Sort by start index
-    return ranges.sort((a, b) => a.start - b.start);
+  // Overused words by position, so each use can be matched to its token
+  const overusedAt = useMemo(() => {
+    const uses = new Map<number, { word: OverusedWord; use: OverusedWordUse }>();
+    vocabulary?.overused.forEach(word => word.uses.forEach(use => uses.set(use.start, { word, use })));
+    return uses;
+  }, [vocabulary]);
+
+  const showTooltip = (e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setTooltipPosition({ x: rect.left + rect.width / 2, y: rect.top - 10 });
+  };
+
+  const toggleCategory = (key: LegendKey) => {
+    setHidden(hidden.includes(key) ? hidden.filter(k => k !== key) : [...hidden, key]);
   };
 
   const highlightText = () => {
-    if (!errors || errors.length === 0) {
-      return <span>{originalText}</span>;
-    }
-    // If any error has start/end, use position-based highlighting
-    if (errors.some(e => typeof e.start === 'number' && typeof e.end === 'number')) {
-      // Sort errors by start
-      const sorted = [...errors]
-        .filter(e => typeof e.start === 'number' && typeof e.end === 'number')
-        .sort((a, b) => (a.start! - b.start!));
-      const parts: React.ReactNode[] = [];
-      let lastIndex = 0;
-      sorted.forEach((err, idx) => {
-        if (err.start! > lastIndex) {
-          parts.push(<span key={lastIndex + '-normal'}>{originalText.substring(lastIndex, err.start!)}</span>);
-        }
-        const errorTypeColors = {
-          grammar: 'bg-red-200 border-b-2 border-red-400',
-          spelling: 'bg-yellow-200 border-b-2 border-yellow-400',
-          vocabulary: 'bg-blue-200 border-b-2 border-blue-400',
-          style: 'bg-purple-200 border-b-2 border-purple-400'
-        };
-        const type = ['grammar', 'spelling', 'vocabulary', 'style'].includes(err.type) ? err.type : 'style';
-        const colorClass = errorTypeColors[type as keyof typeof errorTypeColors];
-        parts.push(
-          <span
-            key={err.start + '-error'}
-            className={`${colorClass} cursor-pointer transition-all duration-200 hover:brightness-90`}
-            title={err.explanation}
-            onMouseEnter={e => {
-              setHoveredError(err);
-              const rect = e.currentTarget.getBoundingClientRect();
-              setTooltipPosition({
-                x: rect.left + rect.width / 2,
-                y: rect.top - 10
-              });
-            }}
-            onMouseLeave={() => setHoveredError(null)}
-          >
-            {originalText.substring(err.start!, err.end!)}
-          </span>
-        );
-        lastIndex = err.end!;
-      });
-      if (lastIndex < originalText.length) {
-        parts.push(<span key={lastIndex + '-end'}>{originalText.substring(lastIndex)}</span>);
-      }
-      return parts;
-    }
-    // Fallback: old logic
-    const normText = normalize(originalText);
-    const ranges = getHighlightRanges();
-    if (ranges.length === 0) {
+    const sorted = anchored
+      .map((error, index) => ({ error, index }))
+      .filter(({ error }) => isAnchored(error) && isVisible(error))
+      .sort((a, b) => (a.error.start! - b.error.start!));
+    if (sorted.length === 0) {
       return <span>{originalText}</span>;
     }
     const parts: React.ReactNode[] = [];
     let lastIndex = 0;
-    ranges.forEach((range, idx) => {
-      // Find the actual text in the original (not normalized)
-      const actualText = originalText.substring(range.start, range.end);
-      if (range.start > lastIndex) {
-        parts.push(<span key={lastIndex + '-normal'}>{originalText.substring(lastIndex, range.start)}</span>);
+    sorted.forEach(({ error: err, index }) => {
+      if (err.start! > lastIndex) {
+        parts.push(<span key={lastIndex + '-normal'}>{originalText.substring(lastIndex, err.start!)}</span>);
       }
-      const errorTypeColors = {
-        grammar: 'bg-red-200 border-b-2 border-red-400',
-        spelling: 'bg-yellow-200 border-b-2 border-yellow-400',
-        vocabulary: 'bg-blue-200 border-b-2 border-blue-400',
-        style: 'bg-purple-200 border-b-2 border-purple-400'
-      };
-      // Default to 'style' if type is unrecognized
-      const type = ['grammar', 'spelling', 'vocabulary', 'style'].includes(range.error.type) ? range.error.type : 'style';
-      const colorClass = errorTypeColors[type as keyof typeof errorTypeColors];
       parts.push(
         <span
-          key={range.start + '-error'}
-          className={`${colorClass} cursor-pointer transition-all duration-200 hover:brightness-90`}
-          title={range.error.explanation}
+          key={err.start + '-error'}
+          className={`${highlightClass(err)} ${agreementClass(err)} ${decisionClass(statuses?.[index], index === selectedIndex)} cursor-pointer transition-all duration-200 hover:brightness-90`}
+          title={err.explanation}
+          onClick={() => onSelect?.(index)}
           onMouseEnter={e => {
-            setHoveredError(range.error);
-            const rect = e.currentTarget.getBoundingClientRect();
-            setTooltipPosition({
-              x: rect.left + rect.width / 2,
-              y: rect.top - 10
-            });
+            setHoveredError(err);
+            showTooltip(e);
           }}
           onMouseLeave={() => setHoveredError(null)}
         >
-          {actualText}
+          {originalText.substring(err.start!, err.end!)}
         </span>
       );
-      lastIndex = range.end;
+      lastIndex = err.end!;
     });
     if (lastIndex < originalText.length) {
       parts.push(<span key={lastIndex + '-end'}>{originalText.substring(lastIndex)}</span>);
@@ -155,40 +129,159 @@ const TextHighlighter: React.FC<TextHighlighterProps> = ({ originalText, errors
     return parts;
   };
 
+  const highlightVocabulary = () => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    vocabulary!.tokens.forEach(token => {
+      const overused = overusedAt.get(token.start);
+      if (!overused && !(token.level && levelStyles[token.level].highlight)) return;
+      parts.push(<span key={lastIndex + '-normal'}>{originalText.substring(lastIndex, token.start)}</span>);
+      parts.push(
+        overused ? (
+          <span
+            key={token.start + '-overused'}
+            className="bg-orange-100 border-b-2 border-dashed border-orange-500 cursor-help"
+            onMouseEnter={e => {
+              setHoveredWord(overused);
+              showTooltip(e);
+            }}
+            onMouseLeave={() => setHoveredWord(null)}
+          >
+            {originalText.substring(token.start, token.end)}
+          </span>
+        ) : (
+          <span key={token.start + '-level'} className={`${levelStyles[token.level!].highlight} rounded-sm`} title={token.level!}>
+            {originalText.substring(token.start, token.end)}
+          </span>
+        )
+      );
+      lastIndex = token.end;
+    });
+    parts.push(<span key={lastIndex + '-end'}>{originalText.substring(lastIndex)}</span>);
+    return parts;
+  };
+
+  const modeButton = (value: HighlightMode, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      className={`px-3 py-1 rounded-full font-semibold ${mode === value ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-blue-50'}`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <div className="relative">
       <div className="bg-white/90 p-6 rounded-2xl border-2 border-blue-200 shadow-xl text-base leading-relaxed">
-        <h3 className="text-2xl font-extrabold mb-4 text-blue-700 flex items-center gap-2">
-          <span role="img" aria-label="Error Analysis">🔍</span> Error Analysis
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-2xl font-extrabold text-blue-700 flex items-center gap-2">
+            <span role="img" aria-label={t('errorAnalysis')}>🔍</span> {mode === 'errors' ? t('errorAnalysis') : t('vocabularyAnalysis')}
+          </h3>
+          {vocabulary && (
+            <div className="flex gap-1 p-1 rounded-full border border-blue-200 text-sm">
+              {modeButton('errors', t('modeErrors'))}
+              {modeButton('vocabulary', t('modeVocabulary'))}
+            </div>
+          )}
+        </div>
         <div className="text-gray-700 mb-4">
-          {highlightText()}
+          {mode === 'vocabulary' && vocabulary ? highlightVocabulary() : highlightText()}
         </div>
-        {/* Error Legend */}
-        <div className="mt-6 pt-4 border-t border-gray-200">
-          <div className="text-sm text-gray-600 mb-3 font-semibold">Error Types:</div>
-          <div className="flex flex-wrap gap-4 text-xs">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-red-600 border border-red-800 rounded"></div>
-              <span className="text-red-900 font-semibold">Grammar</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-yellow-400 border border-yellow-700 rounded"></div>
-              <span className="text-yellow-900 font-semibold">Spelling</span>
+        {mode === 'vocabulary' && vocabulary && (
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <div className="text-sm text-gray-600 mb-3 font-semibold">{t('wordLevels')}:</div>
+            <div className="flex flex-wrap gap-4 text-xs">
+              {vocabulary.levels.map(level => (
+                <div key={level.level} className="flex items-center gap-2">
+                  <div className={`w-4 h-4 border rounded ${levelStyles[level.level].swatch}`}></div>
+                  <span className="text-gray-800 font-semibold">{level.level} ({Math.round(level.share * 100)}%)</span>
+                </div>
+              ))}
+              {vocabulary.overused.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 bg-orange-100 border-b-2 border-dashed border-orange-500"></div>
+                  <span className="text-gray-800 font-semibold">{t('overusedWord')} ({vocabulary.overused.length})</span>
+                </div>
+              )}
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-blue-600 border border-blue-900 rounded"></div>
-              <span className="text-blue-900 font-semibold">Vocabulary</span>
+          </div>
+        )}
+        {mode === 'errors' && unlocated.length > 0 && (
+          <div className="mb-4 p-4 bg-gray-50 rounded-xl">
+            <div className="text-sm font-semibold text-gray-700 mb-2">{t('notLocated')} ({unlocated.length})</div>
+            <ul className="space-y-1 text-sm text-gray-800">
+              {unlocated.map((error, i) => (
+                <li key={i}>
+                  <span className="line-through text-red-700">{error.text}</span> → <span className="text-green-700">{error.correction}</span>
+                  <span className="text-xs text-gray-500"> · {typeLabel(error.type)}</span>
+                  {error.explanation && <span className="text-gray-600">: {error.explanation}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {/* Error Legend */}
+        {mode === 'errors' && (
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <div className="text-sm text-gray-600 mb-3 font-semibold">{t('errorTypes')} <span className="font-normal">{t('clickToToggle')}</span>:</div>
+            <div className="flex flex-wrap gap-4 text-xs">
+              {ERROR_CATEGORIES.map(category => {
+                const entry = stats.categories.find(c => c.category === category)!;
+                return (
+                  <button
+                    key={category}
+                    onClick={() => toggleCategory(category)}
+                    disabled={entry.count === 0}
+                    className={`flex items-center gap-2 disabled:opacity-40 ${hidden.includes(category) ? 'opacity-40 line-through' : ''}`}
+                  >
+                    <div className={`w-4 h-4 border rounded ${categoryStyles[category].swatch}`}></div>
+                    <span className={`${categoryStyles[category].label} font-semibold`}>
+                      {categoryLabel(category)} ({entry.count})
+                    </span>
+                  </button>
+                );
+              })}
+              {stats.unrecognized.length > 0 && (
+                <button
+                  onClick={() => toggleCategory('other')}
+                  className={`flex items-center gap-2 ${hidden.includes('other') ? 'opacity-40 line-through' : ''}`}
+                >
+                  <div className={`w-4 h-4 border rounded ${categoryStyles.other.swatch}`}></div>
+                  <span className={`${categoryStyles.other.label} font-semibold`}>
+                    {t('otherErrors')} ({stats.unrecognized.reduce((sum, type) => sum + type.count, 0)})
+                  </span>
+                </button>
+              )}
+              {stats.impeding > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-b-4 border-gray-600"></div>
+                  <span className="text-gray-700 font-semibold">{t('impedesCommunication')} ({stats.impeding})</span>
+                </div>
+              )}
+              {errors.some(e => e.lowAgreement) && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-b-2 border-dashed border-gray-600 opacity-70"></div>
+                  <span className="text-gray-700 font-semibold">{t('lowAgreement')}</span>
+                </div>
+              )}
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-purple-600 border border-purple-900 rounded"></div>
-              <span className="text-purple-900 font-semibold">Style</span>
+            {/* Per-type counts for the categories on show */}
+            <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-700">
+              {stats.categories
+                .filter(c => c.count > 0 && !hidden.includes(c.category))
+                .flatMap(c => c.types)
+                .map(type => (
+                  <span key={type.type}>{typeLabel(type.type)} {type.count}</span>
+                ))}
+              {!hidden.includes('other') && stats.unrecognized.map(type => (
+                <span key={`other-${type.type}`} className="italic" title={t('outsideTaxonomy')}>{type.type} {type.count}</span>
+              ))}
             </div>
           </div>
-        </div>
+        )}
       </div>
       {/* Tooltip */}
-      {hoveredError && (
+      {mode === 'errors' && hoveredError && (
         <div
           className="fixed z-50 bg-gray-900 text-white p-4 rounded-xl shadow-2xl max-w-xs transform -translate-x-1/2 -translate-y-full border border-blue-400"
           style={{
@@ -197,11 +290,12 @@ const TextHighlighter: React.FC<TextHighlighterProps> = ({ originalText, errors
           }}
         >
           <div className="text-base">
-            <div className="font-bold text-blue-300 capitalize mb-2">
-              {hoveredError.type} Error
+            <div className="font-bold text-blue-300 mb-2">
+              {t('errorOfType', { type: typeLabel(hoveredError.type) })}
+              {hoveredError.severity === 'impeding' && <span className="ml-2 text-orange-300">· {t('impedesCommunication')}</span>}
             </div>
             <div className="mb-2">
-              <span className="text-gray-300">Change:</span>{' '}
+              <span className="text-gray-300">{t('change')}</span>{' '}
               <span className="line-through text-red-300">{hoveredError.text}</span>{' '}
               →{' '}
               <span className="text-green-300 font-bold">{hoveredError.correction}</span>
@@ -209,11 +303,45 @@ const TextHighlighter: React.FC<TextHighlighterProps> = ({ originalText, errors
             <div className="text-gray-200 text-xs">
               {hoveredError.explanation}
             </div>
+            {typeof hoveredError.agreement === 'number' && (
+              <div className={`text-xs mt-2 ${hoveredError.lowAgreement ? 'text-orange-300' : 'text-gray-400'}`}>
+                {t('flaggedInRuns', { percent: Math.round(hoveredError.agreement * 100) })}
+              </div>
+            )}
           </div>
           {/* Tooltip arrow */}
           <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
         </div>
       )}
+      {mode === 'vocabulary' && hoveredWord && (
+        <div
+          className="fixed z-50 bg-gray-900 text-white p-4 rounded-xl shadow-2xl max-w-xs transform -translate-x-1/2 -translate-y-full border border-orange-400"
+          style={{
+            left: tooltipPosition.x,
+            top: tooltipPosition.y,
+          }}
+        >
+          <div className="text-base">
+            <div className="font-bold text-orange-300 mb-2">
+              {t('overusedTimes', { word: hoveredWord.word.lemma, level: hoveredWord.word.level, count: hoveredWord.word.count })}
+            </div>
+            {hoveredWord.use.suggestions.length > 0 ? (
+              <div>
+                <span className="text-gray-300">{t('tryInstead')}</span>{' '}
+                {hoveredWord.use.suggestions.map((s, i) => (
+                  <span key={s.word}>
+                    {i > 0 && ', '}
+                    <span className="text-green-300 font-bold">{s.word}</span> <span className="text-xs text-gray-400">{s.level}</span>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <div className="text-gray-200 text-xs">{t('noAlternative')}</div>
+            )}
+          </div>
+          <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,92 @@
+import React from 'react';
+import { CefrLevel, ExamLevel, VocabularyProfile } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+
+interface VocabularyPanelProps {
+  vocabulary: VocabularyProfile;
+  examLevel: ExamLevel;
+}
+
+const levelColors: Record<CefrLevel, string> = {
+  A1: 'bg-gray-300',
+  A2: 'bg-gray-400',
+  B1: 'bg-sky-400',
+  B2: 'bg-emerald-500',
+  C1: 'bg-violet-500',
+  C2: 'bg-fuchsia-600',
+};
+
+const VocabularyPanel: React.FC<VocabularyPanelProps> = ({ vocabulary, examLevel }) => {
+  const profile = getExamProfile(examLevel);
+
+  return (
+    <div className="bg-white/90 p-6 rounded-2xl border-2 border-violet-200 shadow-xl my-8 max-w-5xl w-full mx-auto text-gray-800">
+      <h3 className="text-2xl font-extrabold mb-1 text-violet-700">Vocabulary Profile</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Each of your {vocabulary.contentWords} content words looked up in a CEFR word list ({vocabulary.unlisted} not listed, such as names or rare words).
+      </p>
+
+      {/* Share of content words at each level */}
+      <div className="flex h-6 rounded-full overflow-hidden mb-2">
+        {vocabulary.levels.filter(l => l.share > 0).map(l => (
+          <div key={l.level} className={levelColors[l.level]} style={{ width: `${l.share * 100}%` }} title={`${l.level}: ${l.count} words`}></div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs mb-6">
+        {vocabulary.levels.map(l => (
+          <span key={l.level} className="flex items-center gap-1">
+            <span className={`w-3 h-3 rounded ${levelColors[l.level]}`}></span>
+            <span className="font-semibold">{l.level}</span> {Math.round(l.share * 100)}%
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Targets for {profile.name} <span className="font-normal text-sm text-gray-500">({profile.cefr})</span></h4>
+          <ul className="space-y-2 text-sm">
+            {vocabulary.targets.map(target => (
+              <li key={target.level}>
+                <div className="flex justify-between">
+                  <span>{target.level} or above</span>
+                  <span className={target.met ? 'text-green-700 font-semibold' : 'text-orange-700 font-semibold'}>
+                    {Math.round(target.share * 100)}% {target.met ? '✓' : `(aim for ${Math.round(target.minShare * 100)}%)`}
+                  </span>
+                </div>
+                <div className="relative h-2 bg-gray-100 rounded mt-1">
+                  <div className={`h-2 rounded ${target.met ? 'bg-green-400' : 'bg-orange-400'}`} style={{ width: `${Math.min(target.share, 1) * 100}%` }}></div>
+                  <div className="absolute top-0 h-2 w-0.5 bg-gray-700" style={{ left: `${target.minShare * 100}%` }}></div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-gray-900 mb-2">Overused low-level words</h4>
+          {vocabulary.overused.length === 0 ? (
+            <div className="text-sm text-gray-500">No everyday word is used often enough to need replacing.</div>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {vocabulary.overused.map(word => {
+                const confirmed = Array.from(new Set(word.uses.flatMap(use => use.suggestions.map(s => s.word))));
+                return (
+                  <li key={word.lemma}>
+                    <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 font-semibold">{word.lemma} ×{word.count}</span>{' '}
+                    <span className="text-xs text-gray-500">{word.level}</span>
+                    {confirmed.length > 0 && <span> → <span className="text-green-700">{confirmed.join(', ')}</span></span>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {vocabulary.overused.length > 0 && (
+            <p className="mt-2 text-xs text-gray-500">Switch the text view to Vocabulary to see which alternatives fit each sentence.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyPanel;
@@ -1,154 +1,466 @@
 'use client';
 
-import { useState } from 'react';
-import { ExamLevel, TaskType, AnalysisResult } from '@/types';
-import TextHighlighter from './TextHighlighter';
-import CriteriaGrid from './CriteriaGrid';
-import { FaSearch } from 'react-icons/fa';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ExamLevel, TaskType, AnalysisRequest, AnalysisResult, Aggregation, AnalysisStreamEvent, TextMetrics } from '@/types';
+import { EXAM_LEVELS, countWords, getExamProfile, getPartSpec, getTaskTypes } from '@/lib/exams';
+import { readSseEvents } from '@/lib/sse';
+import { computeTextMetrics } from '@/lib/metrics';
+import { FIRST_LANGUAGES, getTranslator, isUiLocale, matchUiLocale, UI_LOCALES, UiLocale } from '@/lib/i18n';
+import AnalysisReport from './AnalysisReport';
+import PartialReport, { PartialAnalysis } from './PartialReport';
+import MetricsPanel from './MetricsPanel';
+import SignInPrompt from './SignInPrompt';
+import LocaleProvider, { formatNodes } from './LocaleProvider';
+import { useCurrentUser } from './useCurrentUser';
+import { FaSearch, FaStop } from 'react-icons/fa';
+
+const EMPTY_PARTIAL: PartialAnalysis = { criteria: [], errors: [], characters: 0 };
+
+// "0:42", or "3:05:09" while a daily quota is exhausted
+function formatCountdown(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
 
 export default function WritingAnalyzer() {
+  const { current, loading } = useCurrentUser();
   const [examLevel, setExamLevel] = useState<ExamLevel>('CAE');
   const [taskType, setTaskType] = useState<TaskType>('Essay');
   const [writing, setWriting] = useState('');
+  const [studentId, setStudentId] = useState('');
+  const [taskPrompt, setTaskPrompt] = useState('');
+  const [contentPoints, setContentPoints] = useState('');
+  const [samples, setSamples] = useState(1);
+  const [aggregation, setAggregation] = useState<Aggregation>('median');
+  const [firstLanguage, setFirstLanguage] = useState('');
+  const [uiLocale, setUiLocale] = useState<UiLocale>('en');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  // The request behind the report on screen, replayed as it was by "analyze again"
+  const [submitted, setSubmitted] = useState<AnalysisRequest | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Feedback streamed so far, kept after a cancel or disconnect
+  const [partial, setPartial] = useState<PartialAnalysis | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Local measurements shown instead when the examiner model cannot be reached
+  const [fallbackMetrics, setFallbackMetrics] = useState<TextMetrics | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // When the server's Retry-After allows the next analysis
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const { t } = useMemo(() => getTranslator(uiLocale), [uiLocale]);
+  const retryIn = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const profile = getExamProfile(examLevel);
+  const wordRange = getPartSpec(examLevel, taskType)?.wordRange;
+  const wordCount = countWords(writing);
+
+  useEffect(() => {
+    setUiLocale(matchUiLocale(navigator.languages ?? [navigator.language]));
+    // Stop a running analysis when leaving the page
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Start on a level the account may use
+  useEffect(() => {
+    if (current && !current.limits.examLevels.includes(examLevel)) {
+      handleExamLevelChange(current.limits.examLevels[0]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current]);
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const handleExamLevelChange = (level: ExamLevel) => {
+    setExamLevel(level);
+    // Keep the task type only if the new level sets it
+    if (!getTaskTypes(level).includes(taskType)) {
+      setTaskType(getTaskTypes(level)[0]);
+    }
+  };
+
+  // Students who pick a first language the interface is translated into get it in that language too
+  const handleFirstLanguageChange = (code: string) => {
+    setFirstLanguage(code);
+    if (isUiLocale(code)) setUiLocale(code);
+  };
+
+  // The form's current settings applied to this text
+  const buildRequest = (text: string, revisionOf?: string): AnalysisRequest => ({
+    examLevel,
+    taskType,
+    writing: text,
+    taskPrompt,
+    contentPoints: contentPoints.split('\n').map(p => p.trim()).filter(Boolean),
+    samples,
+    aggregation,
+    studentId: current?.user.role !== 'student' ? studentId.trim() || undefined : undefined,
+    revisionOf,
+    firstLanguage: firstLanguage || undefined,
+  });
+
+  const handleAnalyze = () => analyze(buildRequest(writing));
+
+  // Ask the examiner again instead of showing the cached assessment, with the settings the report was made with
+  const handleAnalyzeAgain = () => {
+    if (submitted) analyze({ ...submitted, reanalyze: true });
+  };
 
-  const handleAnalyze = async () => {
-    if (!writing.trim()) {
-      setError('Please enter your writing sample');
+  // Load a revised draft into the editor and assess it again under the settings of the report it came from,
+  // saved as a revision of that draft
+  const handleReanalyze = (revised: string) => {
+    if (!submitted) return;
+    setWriting(revised);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    analyze({ ...submitted, writing: revised, revisionOf: result?.submissionId, reanalyze: undefined });
+  };
+
+  const analyze = async (request: AnalysisRequest) => {
+    const text = request.writing;
+    if (!text.trim()) {
+      setError(t('enterWriting'));
       return;
     }
 
     setIsAnalyzing(true);
     setError(null);
+    setNotice(null);
+    setFallbackMetrics(null);
+    setResult(null);
+    setPartial(EMPTY_PARTIAL);
+    setSubmitted(request);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streaming = false;
+    let finished = false;
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          examLevel,
-          taskType,
-          writing,
-        }),
+        body: JSON.stringify(request),
+        signal: controller.signal,
       });
 
-      let data;
-      try {
-        data = await response.json();
-      } catch {
-        data = {};
-      }
-
-      if (!response.ok) {
-        setError(data.message || 'Failed to analyze writing. Please try again.');
-        setResult(null);
+      if (!response.ok || !response.body) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        if (response.status === 429 && retryAfter > 0) {
+          setNow(Date.now());
+          setRetryAt(Date.now() + retryAfter * 1000);
+        }
+        let data;
+        try {
+          data = await response.json();
+        } catch {
+          data = {};
+        }
+        setError(data.message || t('analyzeFailed'));
+        setPartial(null);
+        if (response.status >= 500) setFallbackMetrics(computeTextMetrics(text));
         return;
       }
 
-      setResult(data);
+      streaming = true;
+      for await (const message of readSseEvents(response.body)) {
+        const event = { type: message.event, ...JSON.parse(message.data) } as AnalysisStreamEvent;
+        switch (event.type) {
+          case 'token':
+            setPartial(p => p && { ...p, characters: p.characters + event.text.length });
+            break;
+          case 'criterion':
+            setPartial(p => p && { ...p, criteria: [...p.criteria.filter(c => c.name !== event.criterion.name), event.criterion] });
+            break;
+          case 'languageError':
+            setPartial(p => p && { ...p, errors: [...p.errors, event.error] });
+            break;
+          case 'retry':
+            // The examiner's reply was malformed and is being redone from scratch
+            setPartial(EMPTY_PARTIAL);
+            break;
+          case 'result':
+            finished = true;
+            setResult(event.result);
+            setPartial(null);
+            break;
+          case 'failure':
+            finished = true;
+            setError(event.message || t('analyzeFailed'));
+            setPartial(null);
+            setFallbackMetrics(computeTextMetrics(text));
+            break;
+        }
+      }
+      if (!finished) {
+        setNotice(t('connectionClosed'));
+      }
     } catch (err) {
-      setError('Failed to analyze writing. Please try again.');
+      if (controller.signal.aborted) {
+        setNotice(t('cancelled'));
+      } else if (streaming && !finished) {
+        setNotice(t('connectionLost'));
+      } else {
+        setError(t('analyzeFailed'));
+        setPartial(null);
+        setFallbackMetrics(computeTextMetrics(text));
+      }
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  if (loading) return null;
+  if (!current) return <SignInPrompt message={t('signInToAnalyze')} />;
+
   return (
-    <div className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-20">
-      <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto">
-        <div className="grid grid-cols-2 gap-4 mb-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-900 mb-2">
-              Exam Level
-            </label>
-            <select
-              value={examLevel}
-              onChange={(e) => setExamLevel(e.target.value as ExamLevel)}
-              className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
-            >
-              <option value="CAE">CAE (Advanced)</option>
-              <option value="CPE">CPE (Proficiency)</option>
-            </select>
+    <LocaleProvider locale={uiLocale}>
+      <div lang={uiLocale} className="max-w-7xl mx-auto px-6 flex flex-col items-center mt-20">
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-5xl w-full mx-auto">
+          {current.user.role !== 'student' && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('studentId')}{' '}
+                <span className="text-gray-500 font-normal">
+                  {formatNodes(t('studentIdHint'), { history: <Link href="/history" className="text-blue-600 hover:underline">{t('historyLink')}</Link> })}
+                </span>
+              </label>
+              <input
+                value={studentId}
+                onChange={(e) => setStudentId(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+                placeholder="e.g. anna.k"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('examLevel')}
+              </label>
+              <select
+                value={examLevel}
+                onChange={(e) => handleExamLevelChange(e.target.value as ExamLevel)}
+                className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {EXAM_LEVELS.filter(level => current.limits.examLevels.includes(level)).map(level => (
+                  <option key={level} value={level}>{getExamProfile(level).name} ({level})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('taskType')}
+              </label>
+              <select
+                value={taskType}
+                onChange={(e) => setTaskType(e.target.value as TaskType)}
+                className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {profile.parts.map(part => (
+                  <optgroup key={part.part} label={t('partOption', { part: part.part, min: part.wordRange.min, max: part.wordRange.max })}>
+                    {part.taskTypes.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
           </div>
-          <div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('firstLanguage')} <span className="text-gray-500 font-normal">{t('firstLanguageHint')}</span>
+              </label>
+              <select
+                value={firstLanguage}
+                onChange={(e) => handleFirstLanguageChange(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                <option value="">{t('firstLanguageNone')}</option>
+                {FIRST_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code}>{language.nativeName} ({language.name})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('interfaceLanguage')}
+              </label>
+              <select
+                value={uiLocale}
+                onChange={(e) => setUiLocale(e.target.value as UiLocale)}
+                className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {UI_LOCALES.map(locale => (
+                  <option key={locale.code} value={locale.code}>{locale.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('taskPrompt')}
+              </label>
+              <textarea
+                value={taskPrompt}
+                onChange={(e) => setTaskPrompt(e.target.value)}
+                className="w-full h-32 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+                placeholder={t('taskPromptPlaceholder')}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                {t('contentPoints')} <span className="text-gray-500 font-normal">{t('contentPointsHint')}</span>
+              </label>
+              <textarea
+                value={contentPoints}
+                onChange={(e) => setContentPoints(e.target.value)}
+                className="w-full h-32 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+                placeholder={t('contentPointsPlaceholder')}
+              />
+            </div>
+          </div>
+
+          <div className="mb-6">
             <label className="block text-sm font-medium text-gray-900 mb-2">
-              Task Type
+              {t('yourWriting')}
             </label>
-            <select
-              value={taskType}
-              onChange={(e) => setTaskType(e.target.value as TaskType)}
-              className="w-full p-2 border border-gray-300 rounded-md text-gray-900"
-            >
-              <option value="Essay">Essay</option>
-              <option value="Proposal">Proposal</option>
-              <option value="Report">Report</option>
-              <option value="Review">Review</option>
-              <option value="Letter">Letter</option>
-            </select>
+            <textarea
+              value={writing}
+              onChange={(e) => setWriting(e.target.value)}
+              className="w-full h-64 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
+              placeholder={t('writingPlaceholder')}
+            />
+            <div className="text-sm text-gray-900 mt-2">
+              {t('wordCount', { count: wordCount })}
+              {wordRange && <span className="text-gray-500"> {t('wordTarget', { min: wordRange.min, max: wordRange.max })}</span>}
+            </div>
+            {wordRange && wordCount > 0 && (wordCount < wordRange.min || wordCount > wordRange.max) && (
+              <div className="mt-2 p-2 bg-yellow-100 text-yellow-800 rounded">
+                {t(wordCount < wordRange.min ? 'tooShort' : 'tooLong', { count: wordCount, exam: profile.name, min: wordRange.min, max: wordRange.max })}
+              </div>
+            )}
           </div>
-        </div>
 
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-900 mb-2">
-            Your Writing
-          </label>
-          <textarea
-            value={writing}
-            onChange={(e) => setWriting(e.target.value)}
-            className="w-full h-64 p-3 border border-gray-300 rounded-md text-gray-900 placeholder-gray-400"
-            placeholder="Paste your writing here..."
-          />
-          <div className="text-sm text-gray-900 mt-2">
-            Word count: {writing.trim().split(/\s+/).filter(Boolean).length}
+          <div className="flex flex-wrap items-center gap-4 mb-2 text-sm text-gray-900">
+            <label className="flex items-center gap-2">
+              {t('consistencyCheck')}
+              <select
+                value={samples}
+                onChange={(e) => setSamples(Number(e.target.value))}
+                className="p-1 border border-gray-300 rounded-md"
+              >
+                <option value={1}>{t('samplesOff')}</option>
+                {current.limits.maxSamples >= 3 && <option value={3}>{t('samplesCount', { count: 3 })}</option>}
+                {current.limits.maxSamples >= 5 && <option value={5}>{t('samplesCount', { count: 5 })}</option>}
+              </select>
+            </label>
+            {samples > 1 && (
+              <label className="flex items-center gap-2">
+                {t('combineBy')}
+                <select
+                  value={aggregation}
+                  onChange={(e) => setAggregation(e.target.value as Aggregation)}
+                  className="p-1 border border-gray-300 rounded-md"
+                >
+                  <option value="median">{t('median')}</option>
+                  <option value="mean">{t('mean')}</option>
+                </select>
+              </label>
+            )}
           </div>
-          {writing.trim().split(/\s+/).filter(Boolean).length > 0 && writing.trim().split(/\s+/).filter(Boolean).length < 150 && (
-            <div className="mt-2 p-2 bg-yellow-100 text-yellow-800 rounded">
-              Your writing contains only {writing.trim().split(/\s+/).filter(Boolean).length} words. Please provide at least 150 words for a meaningful assessment.
+
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing || retryIn > 0}
+            className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-3 px-6 rounded-full text-lg font-bold shadow-lg hover:from-blue-700 hover:to-purple-600 transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed mt-4"
+          >
+            <FaSearch className="text-xl" />
+            {isAnalyzing ? t('analyzing') : retryIn > 0 ? t('tryAgainIn', { time: formatCountdown(retryIn) }) : t('analyze')}
+          </button>
+          {isAnalyzing && (
+            <button
+              onClick={handleCancel}
+              className="w-full flex items-center justify-center gap-2 bg-white border border-gray-300 text-gray-700 py-2 px-6 rounded-full font-semibold hover:bg-gray-50 mt-3"
+            >
+              <FaStop />
+              {t('cancel')}
+            </button>
+          )}
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">
+              {error}
             </div>
           )}
         </div>
 
-        <button
-          onClick={handleAnalyze}
-          disabled={isAnalyzing}
-          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-500 text-white py-3 px-6 rounded-full text-lg font-bold shadow-lg hover:from-blue-700 hover:to-purple-600 transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed mt-4"
-        >
-          <FaSearch className="text-xl" />
-          {isAnalyzing ? 'Analyzing...' : 'Analyze Writing'}
-        </button>
-
-        {error && (
-          <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md">
-            {error}
-          </div>
+        {fallbackMetrics && (
+          <MetricsPanel
+            metrics={fallbackMetrics}
+            notice={t('metricsFallback')}
+          />
         )}
-      </div>
 
-      {result && (
-        <section className="flex flex-col items-center justify-center my-12">
-          <h2 className="text-3xl font-extrabold mb-4 text-gray-900 text-center tracking-tight drop-shadow">Analysis Results</h2>
-          <div className="flex flex-col items-center mb-8">
-            <div className="w-36 h-36 flex items-center justify-center rounded-full bg-green-400 border-10 border-green-200 shadow-lg text-7xl font-extrabold text-white mb-3 animate-pulse">
-              {result.overallScore}/5
-            </div>
-            <div className="text-base text-gray-700 font-semibold tracking-wide">Overall Score</div>
-          </div>
-          <div className="w-full bg-white/80 rounded-3xl shadow-xl p-8 mb-10 max-w-5xl mx-auto">
-            {result.criteria && result.criteria.length === 4 && (
-              <CriteriaGrid criteria={result.criteria} />
+        {partial && submitted && (
+          <PartialReport partial={partial} writing={submitted.writing} streaming={isAnalyzing} notice={notice} />
+        )}
+
+        {result && submitted && (
+          <>
+            {result.cache?.status === 'hit' && result.cache.cachedAt && (
+              <div className="text-sm text-gray-700 mb-2 flex flex-wrap items-center gap-3">
+                {t('cachedResult', { time: new Date(result.cache.cachedAt).toLocaleString(uiLocale) })}
+                <button
+                  onClick={handleAnalyzeAgain}
+                  disabled={isAnalyzing || retryIn > 0}
+                  className="px-3 py-1 rounded-md border border-blue-600 text-blue-600 font-semibold hover:bg-blue-50 disabled:opacity-60"
+                >
+                  {t('analyzeAgain')}
+                </button>
+              </div>
             )}
-            {result.errors && result.errors.length > 0 && (
-              <div className="my-10">
-                <TextHighlighter originalText={writing} errors={result.errors} />
+            {result.submissionId && (
+              <div className="text-sm text-gray-700">
+                {formatNodes(t(submitted.revisionOf ? 'savedAsRevision' : 'saved'), {
+                  history: <Link href="/history" className="text-blue-600 hover:underline">{t('submissionHistoryLink')}</Link>,
+                })}
               </div>
             )}
-          </div>
-        </section>
-      )}
-    </div>
+            <AnalysisReport
+              result={result}
+              writing={submitted.writing}
+              examLevel={submitted.examLevel}
+              taskType={submitted.taskType}
+              onReanalyze={isAnalyzing ? undefined : handleReanalyze}
+            />
+          </>
+        )}
+      </div>
+    </LocaleProvider>
   );
 } 
\ No newline at end of file
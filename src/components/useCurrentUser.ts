@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RoleLimits, User } from '@/types';
+
+export interface CurrentUser {
+  user: User;
+  limits: RoleLimits;
+}
+
+// The signed-in user from /api/auth/me; current stays null when nobody is signed in
+export function useCurrentUser() {
+  const [current, setCurrent] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : null))
+      .catch(() => null)
+      .then(data => {
+        if (!active) return;
+        setCurrent(data);
+        setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return { current, loading };
+}
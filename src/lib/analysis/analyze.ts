@@ -0,0 +1,131 @@
+import { AnalysisFailure, AnalysisRequest, AnalysisResult } from '@/types';
+import { LLMProvider } from '@/lib/llm';
+import { checkLength, countWords, getPartSpec } from '@/lib/exams';
+import { scoreCriteria } from '@/lib/scoring';
+import { computeTextMetrics } from '@/lib/metrics';
+import { confirmSuggestions, profileVocabulary } from '@/lib/vocabulary';
+import { summarizeErrors } from '@/lib/taxonomy';
+import { checkGenre } from '@/lib/genre';
+import { anchorErrors, locatePassage, unanchoredErrors } from '@/lib/anchoring';
+import { getRubric } from '@/lib/rubrics';
+import { debugLog } from '@/lib/debug';
+import { buildExaminerMessages, buildRepairMessages, PROMPT_VERSION } from './prompt';
+import { parseModelOutput } from './parse';
+import { CRITERIA, ModelOutput } from './schema';
+import { combineResults } from './consensus';
+
+export const MAX_SAMPLES = 5;
+
+export type AnalysisOutcome =
+  | { ok: true; result: AnalysisResult }
+  | { ok: false; failure: AnalysisFailure };
+
+export interface AnalyzeOptions {
+  // Total model calls, including the first attempt
+  maxAttempts?: number;
+  // Stop waiting for the model, e.g. when the client has gone away
+  signal?: AbortSignal;
+}
+
+export function invalidOutputFailure(attempts: number, issues: string[]): AnalysisFailure {
+  return {
+    error: 'Invalid model output',
+    message: 'The examiner model did not return a valid assessment. Please try again.',
+    attempts,
+    issues,
+  };
+}
+
+export function toResult(data: ModelOutput, { examLevel, taskType, writing, contentPoints = [] }: AnalysisRequest): AnalysisResult {
+  const criteria = CRITERIA.map(name => data.criteria.find(c => c.name === name)!);
+  const total = criteria.reduce((sum, c) => sum + c.score, 0);
+  const errors = anchorErrors(data.errors, writing);
+  const result: AnalysisResult = {
+    overallScore: total / criteria.length,
+    score: scoreCriteria(criteria, examLevel, process.env.SCALE_TABLE_VERSION),
+    criteria,
+    errors,
+    errorStats: summarizeErrors(errors),
+    metrics: computeTextMetrics(writing),
+    vocabulary: confirmSuggestions(profileVocabulary(writing, examLevel), examLevel, data.vocabulary),
+    genre: checkGenre(writing, taskType),
+    promptVersion: PROMPT_VERSION,
+    rubricVersion: getRubric().version,
+  };
+  if (result.errorStats!.unrecognized.length > 0) {
+    debugLog('Error types outside the taxonomy (kept as given):', result.errorStats!.unrecognized);
+  }
+  const unanchored = unanchoredErrors(errors);
+  if (unanchored.length > 0) {
+    debugLog('Errors not located in the writing:', unanchored.map(e => e.text));
+  }
+
+  const partSpec = getPartSpec(examLevel, taskType);
+  if (partSpec) {
+    result.length = checkLength(countWords(writing), partSpec.wordRange);
+  }
+
+  if (contentPoints.length > 0) {
+    // Keep the teacher's wording of each point and link it to the passage the model cited
+    result.contentPoints = data.contentPoints.map((assessment, i) => {
+      const range = assessment.evidence ? locatePassage(writing, assessment.evidence) : null;
+      return { ...assessment, point: contentPoints[i], ...(range ?? {}) };
+    });
+  }
+  return result;
+}
+
+// Ask the examiner model for a JSON assessment, re-prompting with the validation issues when it is malformed
+async function analyzeOnce(
+  provider: LLMProvider,
+  request: AnalysisRequest,
+  { maxAttempts = 3, signal }: AnalyzeOptions = {}
+): Promise<AnalysisOutcome> {
+  const initial = buildExaminerMessages(request);
+  let messages = initial;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const output = await provider.complete(messages, { json: true, signal });
+    debugLog(`Raw AI output (attempt ${attempt}):`, output);
+
+    const parsed = parseModelOutput(output, request);
+    if (parsed.ok) {
+      return { ok: true, result: toResult(parsed.data, request) };
+    }
+
+    issues = parsed.issues;
+    debugLog('Model output failed validation:', issues);
+    messages = buildRepairMessages(request, initial, output, issues);
+  }
+
+  return { ok: false, failure: invalidOutputFailure(maxAttempts, issues) };
+}
+
+// Run one assessment, or several independent ones combined into a consensus when request.samples > 1
+export async function analyzeWriting(
+  provider: LLMProvider,
+  request: AnalysisRequest,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisOutcome> {
+  const samples = Math.min(Math.max(Math.floor(request.samples ?? 1), 1), MAX_SAMPLES);
+  if (samples === 1) {
+    return analyzeOnce(provider, request, options);
+  }
+
+  // A sample whose provider call throws counts as failed, like one with invalid output
+  const settled = await Promise.allSettled(Array.from({ length: samples }, () => analyzeOnce(provider, request, options)));
+  options.signal?.throwIfAborted();
+  const outcomes = settled.flatMap(sample => (sample.status === 'fulfilled' ? [sample.value] : []));
+  const results = outcomes.flatMap(outcome => (outcome.ok ? [outcome.result] : []));
+  if (results.length === 0) {
+    if (outcomes.length > 0) return outcomes[0];
+    // Every sample threw: report it the same way as a single failed call
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  const failed = settled.length - results.length;
+  if (failed > 0) {
+    console.error(`${failed} of ${samples} samples failed; combining the other ${results.length}`);
+  }
+  return { ok: true, result: combineResults(results, request, request.aggregation ?? 'median', samples) };
+}
@@ -0,0 +1,109 @@
+import { Aggregation, AnalysisRequest, AnalysisResult, ContentPointAssessment, Criterion, LanguageError } from '@/types';
+import { scoreCriteria } from '@/lib/scoring';
+import { summarizeErrors } from '@/lib/taxonomy';
+import { CRITERIA } from './schema';
+
+// A criterion whose samples differ by more than this many bands is flagged as unstable
+export const LOW_AGREEMENT_SPREAD = 1;
+// Errors flagged by fewer than this share of samples are kept but marked
+export const LOW_AGREEMENT_SHARE = 0.75;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function aggregate(values: number[], aggregation: Aggregation): number {
+  const value = aggregation === 'median' ? median(values) : mean(values);
+  // Report to the nearest half band
+  return Math.round(value * 2) / 2;
+}
+
+function combineCriterion(name: string, results: AnalysisResult[], aggregation: Aggregation): Criterion {
+  const candidates = results.map(r => r.criteria.find(c => c.name === name)!);
+  const samples = candidates.map(c => c.score);
+  const score = aggregate(samples, aggregation);
+  const avg = mean(samples);
+  const spread = Math.max(...samples) - Math.min(...samples);
+  // Use the feedback written for the score closest to the combined one
+  const closest = candidates.reduce((best, c) => (Math.abs(c.score - score) < Math.abs(best.score - score) ? c : best));
+
+  return {
+    ...closest,
+    score,
+    consistency: {
+      samples,
+      spread,
+      stdDev: Math.sqrt(mean(samples.map(s => (s - avg) ** 2))),
+      lowAgreement: spread > LOW_AGREEMENT_SPREAD,
+    },
+  };
+}
+
+function errorKey(error: LanguageError): string {
+  const text = error.text.trim().toLowerCase();
+  return typeof error.start === 'number' ? `${text}@${error.start}` : text;
+}
+
+// Keep errors that at least half of the samples agree on
+function combineErrors(results: AnalysisResult[]): LanguageError[] {
+  const groups = new Map<string, LanguageError[]>();
+  for (const result of results) {
+    const seen = new Set<string>();
+    for (const error of result.errors ?? []) {
+      const key = errorKey(error);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      groups.set(key, [...(groups.get(key) ?? []), error]);
+    }
+  }
+
+  const needed = Math.ceil(results.length / 2);
+  return Array.from(groups.values())
+    .filter(group => group.length >= needed)
+    .map(group => {
+      const agreement = group.length / results.length;
+      return { ...group[0], agreement, lowAgreement: agreement < LOW_AGREEMENT_SHARE };
+    })
+    .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity));
+}
+
+// Majority verdict per content point, keeping the evidence cited for that verdict
+function combineContentPoints(results: AnalysisResult[]): ContentPointAssessment[] | undefined {
+  const first = results[0].contentPoints;
+  if (!first) return undefined;
+  return first.map((_, i) => {
+    const verdicts = results.map(r => r.contentPoints![i]);
+    const counts = new Map<string, number>();
+    verdicts.forEach(v => counts.set(v.status, (counts.get(v.status) ?? 0) + 1));
+    const status = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    return verdicts.find(v => v.status === status)!;
+  });
+}
+
+export function combineResults(
+  results: AnalysisResult[],
+  request: AnalysisRequest,
+  aggregation: Aggregation,
+  requested: number
+): AnalysisResult {
+  const criteria = CRITERIA.map(name => combineCriterion(name, results, aggregation));
+  const total = criteria.reduce((sum, c) => sum + c.score, 0);
+  const errors = combineErrors(results);
+
+  return {
+    ...results[0],
+    overallScore: total / criteria.length,
+    score: scoreCriteria(criteria, request.examLevel, results[0].score.tableVersion),
+    criteria,
+    errors,
+    errorStats: summarizeErrors(errors),
+    contentPoints: combineContentPoints(results),
+    sampling: { requested, completed: results.length, aggregation },
+  };
+}
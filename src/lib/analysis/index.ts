@@ -0,0 +1,10 @@
+export { analyzeWriting, MAX_SAMPLES } from './analyze';
+export type { AnalysisOutcome, AnalyzeOptions } from './analyze';
+export { streamAnalysis } from './stream';
+export { CRITERIA } from './schema';
+export { buildExaminerMessages, PROMPT_VERSION } from './prompt';
+export { validateAnalysisRequest, isMeaningful, isMostlyEnglish, MAX_CONTENT_POINTS, MAX_TASK_PROMPT_LENGTH } from './validate';
+export type { RequestProblem, ValidationOutcome } from './validate';
+export { reviewRevision } from './review';
+export { writeModelAnswer, REWRITE_PROMPT_VERSION } from './rewrite';
+export type { RewriteInput } from './rewrite';
@@ -0,0 +1,39 @@
+import { AnalysisRequest } from '@/types';
+import { buildModelOutputSchema, ModelOutput } from './schema';
+
+export type ParseOutcome =
+  | { ok: true; data: ModelOutput }
+  | { ok: false; issues: string[] };
+
+// Pull the JSON document out of the reply, tolerating code fences or stray prose around it
+export function extractJson(output: string): string | null {
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : output;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  return candidate.substring(start, end + 1);
+}
+
+export function parseModelOutput(output: string, request: Pick<AnalysisRequest, 'contentPoints'>): ParseOutcome {
+  const json = extractJson(output);
+  if (!json) {
+    return { ok: false, issues: ['response does not contain a JSON object'] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, issues: [`invalid JSON: ${(e as Error).message}`] };
+  }
+
+  const parsed = buildModelOutputSchema(request).safeParse(raw);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)),
+    };
+  }
+  return { ok: true, data: parsed.data };
+}
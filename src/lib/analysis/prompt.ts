@@ -0,0 +1,186 @@
+import { AnalysisRequest, GenreCheck, TextMetrics, VocabularyProfile } from '@/types';
+import { ChatMessage } from '@/lib/llm';
+import { checkLength, countWords, getExamProfile, getPartSpec } from '@/lib/exams';
+import { computeTextMetrics } from '@/lib/metrics';
+import { profileVocabulary } from '@/lib/vocabulary';
+import { checkGenre } from '@/lib/genre';
+import { ERROR_CATEGORIES, ERROR_TAXONOMY } from '@/lib/taxonomy';
+import { getFirstLanguage } from '@/lib/i18n';
+import { BANDS, getRubric, Rubric } from '@/lib/rubrics';
+import { CRITERIA, modelOutputExample } from './schema';
+
+// Bump whenever the wording below changes, so stored results can be compared like for like
+export const PROMPT_VERSION = 'examiner-8';
+
+function buildTaskSection({ taskPrompt, contentPoints = [] }: AnalysisRequest): string {
+  if (!taskPrompt && contentPoints.length === 0) {
+    return 'The task question was not provided; judge Content on how fully and relevantly the writing develops its apparent purpose.';
+  }
+
+  const lines: string[] = [];
+  if (taskPrompt) {
+    lines.push(`TASK QUESTION the student answered:\n"""\n${taskPrompt}\n"""`);
+  }
+  if (contentPoints.length > 0) {
+    lines.push(`REQUIRED CONTENT POINTS:\n${contentPoints.map((point, i) => `${i + 1}. ${point}`).join('\n')}`);
+    lines.push(`For EACH required content point, in the same order, add an entry to "contentPoints" with status "covered" (fully addressed and developed), "partial" (mentioned but underdeveloped) or "missed" (not addressed), a short comment, and as "evidence" the passage from the writing that addresses it, copied verbatim (omit "evidence" when the point is missed). Base the Content score on these verdicts.`);
+  } else {
+    lines.push('Identify the points the question requires and judge Content on whether each is addressed and developed.');
+  }
+  return lines.join('\n\n');
+}
+
+function buildLengthSection({ examLevel, taskType, writing }: AnalysisRequest): string {
+  const partSpec = getPartSpec(examLevel, taskType);
+  if (!partSpec) return '';
+  const { wordCount, min, max, status } = checkLength(countWords(writing), partSpec.wordRange);
+  const verdict = status === 'within'
+    ? 'which is within the required range'
+    : status === 'under'
+      ? `which is ${min - wordCount} words UNDER the required range. As a Cambridge examiner would, consider whether the short length has left content points missing or underdeveloped`
+      : `which is ${wordCount - max} words OVER the required range. As a Cambridge examiner would, consider whether the extra length contains irrelevance or padding, or has affected organisation and the target reader`;
+  return `LENGTH: The task requires ${min}-${max} words. The answer has ${wordCount} words, ${verdict}. Do not award or deduct marks for length alone.`;
+}
+
+function buildMetricsSection(metrics: TextMetrics): string {
+  const { paragraphs, sentences, lexical, structures } = metrics;
+  const linking = metrics.linking
+    .map(use => (use.count ? `${use.category} ${use.count} (${use.devices.map(d => d.phrase).join(', ')})` : `${use.category} none`))
+    .join('; ');
+  const repetition = metrics.repetition.length
+    ? metrics.repetition.map(r => `"${r.word}" ${r.count} times within 50 words`).join('; ')
+    : 'no content word repeated 3+ times within 50 words';
+
+  return `TEXT METRICS (computed automatically; use them as evidence for Organisation and Language, not as scores in themselves):
+- Paragraphs: ${paragraphs.count} (words per paragraph: ${paragraphs.wordCounts.join(', ')}; length variation ${paragraphs.variation})
+- Sentences: ${sentences.count}, mean ${sentences.meanLength} words (spread ${sentences.lengthSpread}, shortest ${sentences.shortest}, longest ${sentences.longest})
+- Lexical diversity: MTLD ${lexical.mtld}, type-token ratio ${lexical.typeTokenRatio}
+- Linking devices by function: ${linking}
+- Structures (estimated): ${structures.passives} passive, ${structures.relativeClauses} relative clauses, ${structures.subordinateClauses} subordinate clauses, ${structures.conditionals} conditional sentences, ${structures.inversions} inversions, ${structures.cleftSentences} cleft sentences; ${Math.round(structures.complexSentenceShare * 100)}% of sentences are complex
+- Repetition: ${repetition}`;
+}
+
+function buildVocabularySection(vocabulary: VocabularyProfile): string {
+  const levels = vocabulary.levels.map(l => `${l.level} ${Math.round(l.share * 100)}%`).join(', ');
+  const targets = vocabulary.targets
+    .map(t => `${Math.round(t.share * 100)}% at ${t.level} or above (expected at least ${Math.round(t.minShare * 100)}%)`)
+    .join('; ');
+  const lines = [
+    `VOCABULARY PROFILE (each word looked up in a CEFR word list; use it as evidence for Language, not as a score in itself):
+- Content words by level: ${levels}; ${vocabulary.unlisted} of ${vocabulary.contentWords} content words are not in the list
+- Against the exam's expectations: ${targets}`,
+  ];
+  if (vocabulary.overused.length > 0) {
+    const words = vocabulary.overused.map(
+      w => `- "${w.lemma}" (${w.level}) ${w.count} times, in sentences ${Array.from(new Set(w.uses.map(u => u.sentence))).join(', ')}; candidates: ${w.candidates.map(c => c.word).join(', ')}`
+    );
+    lines.push(`Low-level words used repeatedly:
+${words.join('\n')}
+For each of these words, add an entry to "vocabulary" for every sentence it appears in, with the word as written, the sentence number and as "alternatives" the candidates (or other words of a higher level) that would replace it there without changing the meaning or breaking the grammar; give an empty list when none fits. Format: "vocabulary": [{"word": "good", "sentence": 2, "alternatives": ["beneficial"]}]`);
+  }
+  return lines.join('\n');
+}
+
+// Band descriptors of the rubric for the exam level, one block per criterion
+function buildCriteriaSection(rubric: Rubric, { examLevel }: AnalysisRequest): string {
+  const profile = getExamProfile(examLevel);
+  const criteria = CRITERIA.map((name, i) => {
+    const { focus, levels } = rubric.criteria[name];
+    return `${i + 1}. ${name.toUpperCase()} (0-5): ${focus}
+${BANDS.map(band => `   Band ${band}: ${levels[examLevel][band]}`).join('\n')}`;
+  });
+  return `ASSESSMENT CRITERIA for ${profile.name} (${profile.cefr}): score each criterion from 0 to 5 by finding the band whose descriptor best matches the writing; give 0 only when it falls short of Band 1.
+${criteria.join('\n')}`;
+}
+
+function buildGenreSection(rubric: Rubric, { taskType }: AnalysisRequest, check: GenreCheck): string {
+  const genre = rubric.genres[taskType];
+  if (!genre) return '';
+  return `GENRE: this ${taskType} is written for ${genre.reader}; its purpose is ${genre.purpose}. Expected register: ${genre.register}. Conventions of the genre:
+${genre.conventions.map(convention => `- ${convention}`).join('\n')}
+AUTOMATIC CONVENTION CHECK (rule-based, so it can miss paraphrases; confirm each finding against the text):
+${check.findings.map(f => `- [${f.met ? 'met' : 'not met'}] ${f.label}: ${f.detail}`).join('\n')}
+Judge Communicative Achievement and Organisation against these conventions, and say in the feedback which are missing or misused.`;
+}
+
+function buildErrorTypesSection(): string {
+  const lines = ERROR_CATEGORIES.map(category => {
+    const { label, types } = ERROR_TAXONOMY[category];
+    return `- ${label}: ${types.map(t => `${t.id} (${t.description})`).join('; ')}`;
+  });
+  return `ERROR TYPES: give each error the most specific "type" id from this list:
+${lines.join('\n')}
+Give each error a "severity": "impeding" if it obscures the meaning or would confuse the reader, otherwise "minor".`;
+}
+
+// Feedback in the student's first language, with the English forms kept so corrections can still be applied;
+// starts with a blank line so it can follow another section directly
+function buildFirstLanguageSection({ firstLanguage }: AnalysisRequest): string {
+  const language = getFirstLanguage(firstLanguage);
+  if (!language) return '';
+  return `
+
+STUDENT'S FIRST LANGUAGE: ${language.name}.
+Write every criterion "feedback" and "suggestions", every error "explanation" and every content point "comment" in ${language.name}, in plain language a B1 learner can follow. Keep "text", "correction", "context" and "evidence" exactly as they are in English, and keep the JSON keys, criterion names and the "type", "severity" and "status" values in English.
+Look out for interference errors typical of ${language.name} speakers, and when an error is likely carried over from ${language.name}, say so in its explanation:
+${language.interference.map(note => `- ${note}`).join('\n')}`;
+}
+
+export function buildExaminerMessages(request: AnalysisRequest, rubric: Rubric = getRubric()): ChatMessage[] {
+  const { examLevel, taskType, writing } = request;
+  const profile = getExamProfile(examLevel);
+  const partSpec = getPartSpec(examLevel, taskType);
+  const partLine = partSpec ? `This is a Writing Part ${partSpec.part} task: ${partSpec.description}.` : '';
+  const prompt = `You are an official Cambridge ${profile.name} examiner. Analyze this ${taskType} using official Cambridge assessment criteria for ${profile.name}.
+${partLine}
+
+TASK: Provide a score (0-5) and detailed feedback for each of the four criteria below, plus a list of specific language errors.
+
+${buildTaskSection(request)}
+
+${buildLengthSection(request)}
+
+${buildMetricsSection(computeTextMetrics(writing))}
+
+${buildVocabularySection(profileVocabulary(writing, examLevel))}
+
+${buildCriteriaSection(rubric, request)}
+
+${buildGenreSection(rubric, request, checkGenre(writing, taskType))}
+
+Keep the feedback for each criterion separate; do not include feedback for one criterion inside another. Give 1-3 concrete "suggestions" per criterion.
+
+For errors: only flag style/register errors if the phrase does not suit the register expected for this ${taskType}, such as slang or contractions in formal writing. Do NOT flag phrases as errors if they are acceptable in that register. In the "text" field, include only the exact word or phrase that is incorrect, copied verbatim from the student's writing, not the whole sentence. In "context", copy the error together with three to five words around it, verbatim, so it can be found when the same phrase appears more than once; in "sentence", give the number of the sentence it is in, counting from 1.
+
+${buildErrorTypesSection()}${buildFirstLanguageSection(request)}
+
+OUTPUT FORMAT: Respond with a single JSON object and nothing else (no markdown, no commentary), matching this structure exactly:
+${modelOutputExample(request)}
+
+Student writing to analyze:
+"${writing}"`;
+
+  return [
+    {
+      role: 'system',
+      content: `You are a Cambridge English examiner specializing in ${profile.name} assessments. You always reply with a single valid JSON document in the requested structure.`,
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+// Follow-up turn asking the model to fix a reply that failed validation
+export function buildRepairMessages(request: AnalysisRequest, messages: ChatMessage[], badOutput: string, issues: string[]): ChatMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content: badOutput },
+    {
+      role: 'user',
+      content: `Your previous reply could not be used because it did not match the required JSON structure:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Reply again with ONLY the corrected JSON object, containing all four criteria exactly once and the "errors" array:
+${modelOutputExample(request)}`,
+    },
+  ];
+}
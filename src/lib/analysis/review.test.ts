@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisResult, CriterionChange, ErrorChanges, Submission } from '@/types';
+import { createMockProvider } from '@/lib/llm';
+import { buildRevisionReviewMessages, reviewRevision } from './review';
+
+function submission(id: string, writing: string, firstLanguage?: string): Submission {
+  return {
+    id,
+    studentId: 'anna',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    examLevel: 'FCE',
+    taskType: 'Essay',
+    firstLanguage,
+    writing,
+    promptVersion: 'test',
+    result: {} as AnalysisResult,
+  };
+}
+
+const PREVIOUS = submission('draft-1', 'He dont like it.');
+const REVISED = submission('draft-2', 'He does not like it.');
+const CRITERIA: CriterionChange[] = [{ name: 'Language', before: 2, after: 3, change: 1 }];
+const ERRORS: ErrorChanges = {
+  fixed: [{ text: 'dont', correction: "doesn't", type: 'agreement', explanation: '' }],
+  remaining: [],
+  introduced: [],
+};
+const SETTINGS = { model: 'mock', temperature: 0, maxTokens: 1000 };
+
+const review = (reply: string) =>
+  reviewRevision(createMockProvider([reply], SETTINGS), PREVIOUS, REVISED, CRITERIA, ERRORS);
+
+test('reviewRevision returns the examiner comments tied to the earlier draft', async () => {
+  const reply = 'Here is my review:\n```json\n{"summary": "Better.", "improvements": ["Fixed the verb"], "remainingIssues": []}\n```';
+  assert.deepEqual(await review(reply), {
+    previousId: 'draft-1',
+    summary: 'Better.',
+    improvements: ['Fixed the verb'],
+    remainingIssues: [],
+  });
+});
+
+test('reviewRevision gives null when the reply does not match the schema', async () => {
+  assert.equal(await review('{"summary": "", "improvements": [], "remainingIssues": []}'), null);
+  assert.equal(await review('{"summary": "Better.", "improvements": "Fixed the verb", "remainingIssues": []}'), null);
+  assert.equal(await review('{"summary": "Better."}'), null);
+});
+
+test('reviewRevision gives null when the reply is not JSON', async () => {
+  assert.equal(await review('The revision is much better.'), null);
+  assert.equal(await review('{"summary": "Better.",'), null);
+});
+
+test('buildRevisionReviewMessages lists the score changes and fixed errors, in the first language when known', () => {
+  const [, english] = buildRevisionReviewMessages(PREVIOUS, REVISED, CRITERIA, ERRORS);
+  assert.match(english.content, /- Language: 2 → 3/);
+  assert.match(english.content, /ERRORS FIXED:\n- "dont" → "doesn't"/);
+  assert.match(english.content, /ERRORS INTRODUCED BY THE REVISION: none/);
+  assert.doesNotMatch(english.content, /first language/);
+
+  const [, polish] = buildRevisionReviewMessages(PREVIOUS, submission('draft-2', REVISED.writing, 'pl'), CRITERIA, ERRORS);
+  assert.match(polish.content, /in Polish, the student's first language/);
+});
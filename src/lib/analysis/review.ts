@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { CriterionChange, ErrorChanges, RevisionReview, Submission } from '@/types';
+import { ChatMessage, LLMProvider } from '@/lib/llm';
+import { getExamProfile } from '@/lib/exams';
+import { getFirstLanguage } from '@/lib/i18n';
+import { debugLog } from '@/lib/debug';
+import { extractJson } from './parse';
+
+const reviewSchema = z.object({
+  summary: z.string().min(1),
+  improvements: z.array(z.string()),
+  remainingIssues: z.array(z.string()),
+});
+
+function listErrors(label: string, errors: Array<{ text: string; correction: string }>): string {
+  if (errors.length === 0) return `${label}: none`;
+  return `${label}:\n${errors.map(e => `- "${e.text}" → "${e.correction}"`).join('\n')}`;
+}
+
+export function buildRevisionReviewMessages(
+  previous: Submission,
+  revised: Submission,
+  criteria: CriterionChange[],
+  errors: ErrorChanges
+): ChatMessage[] {
+  const profile = getExamProfile(revised.examLevel);
+  const language = getFirstLanguage(revised.firstLanguage);
+  const languageLine = language ? `\nWrite the summary, improvements and remaining issues in ${language.name}, the student's first language; quote the student's English unchanged.\n` : '';
+  const prompt = `A student has revised their ${profile.name} ${revised.taskType} and both drafts have been assessed. Comment on what the revision improved and what still needs work, as a Cambridge examiner giving feedback to the student.
+
+CRITERION SCORES (0-5, first draft → revision):
+${criteria.map(c => `- ${c.name}: ${c.before} → ${c.after}`).join('\n')}
+
+${listErrors('ERRORS FIXED', errors.fixed)}
+
+${listErrors('ERRORS STILL PRESENT', errors.remaining.map(match => match.after))}
+
+${listErrors('ERRORS INTRODUCED BY THE REVISION', errors.introduced)}
+
+OUTPUT FORMAT: Respond with a single JSON object and nothing else, matching this structure exactly:
+{"summary": "two or three sentences on whether the revision helped and why", "improvements": ["specific improvement"], "remainingIssues": ["specific issue still to address"]}
+${languageLine}
+First draft:
+"${previous.writing}"
+
+Revision:
+"${revised.writing}"`;
+
+  return [
+    {
+      role: 'system',
+      content: `You are a Cambridge English examiner specializing in ${profile.name} assessments. You always reply with a single valid JSON document in the requested structure.`,
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+// Ask the examiner model to comment on a revision; the comparison is still useful without it, so failures give null
+export async function reviewRevision(
+  provider: LLMProvider,
+  previous: Submission,
+  revised: Submission,
+  criteria: CriterionChange[],
+  errors: ErrorChanges
+): Promise<RevisionReview | null> {
+  try {
+    const output = await provider.complete(buildRevisionReviewMessages(previous, revised, criteria, errors), { json: true });
+    const json = extractJson(output);
+    const parsed = json ? reviewSchema.safeParse(JSON.parse(json)) : null;
+    if (!parsed?.success) {
+      console.error('Revision review did not match the expected structure');
+      debugLog('Revision review output:', output);
+      return null;
+    }
+    return { previousId: previous.id, ...parsed.data };
+  } catch (error) {
+    console.error('Revision review error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from '@/lib/llm';
+import { RewriteInput, writeModelAnswer, REWRITE_PROMPT_VERSION } from './rewrite';
+
+const INPUT: RewriteInput = {
+  examLevel: 'FCE',
+  taskType: 'Essay',
+  writing: 'Uniforms is good.\n\nThey save time in the morning.\n\nI think schools must have them.',
+};
+const SETTINGS = { model: 'mock', temperature: 0, maxTokens: 1000 };
+
+const rewrite = (reply: unknown) =>
+  writeModelAnswer(createMockProvider([typeof reply === 'string' ? reply : JSON.stringify(reply)], SETTINGS), INPUT);
+
+test('writeModelAnswer aligns rewrites by paragraph number and keeps a skipped paragraph unchanged', async () => {
+  const result = await rewrite({
+    summary: 'Clearer and more accurate.',
+    paragraphs: [
+      { paragraph: 3, rewritten: 'All in all, I am convinced that schools should require them.', changes: [] },
+      { paragraph: 1, rewritten: 'School uniforms are, in my view, a good idea.', changes: [] },
+      { paragraph: 4, rewritten: 'A paragraph the student never wrote.', changes: [] },
+    ],
+  });
+
+  assert.ok(result);
+  assert.deepEqual(result.paragraphs.map(p => [p.original, p.rewritten]), [
+    ['Uniforms is good.', 'School uniforms are, in my view, a good idea.'],
+    ['They save time in the morning.', 'They save time in the morning.'],
+    ['I think schools must have them.', 'All in all, I am convinced that schools should require them.'],
+  ]);
+  assert.deepEqual(result.paragraphs[1].changes, []);
+  assert.equal(result.wordCount, 9 + 6 + 11);
+  assert.equal(result.promptVersion, REWRITE_PROMPT_VERSION);
+});
+
+test('writeModelAnswer locates each change in the rewrite and replaces an unknown focus with the criterion default', async () => {
+  const result = await rewrite({
+    summary: 'Fixed the agreement.',
+    paragraphs: [{
+      paragraph: 1,
+      rewritten: 'School uniforms are a good idea.',
+      changes: [
+        { original: 'Uniforms is', revised: 'uniforms are', reason: 'Agreement.', criterion: 'Language', focus: 'accuracy' },
+        { original: 'good', revised: 'a good idea', reason: 'Clearer.', criterion: 'Organisation', focus: 'grammar' },
+      ],
+    }],
+  });
+
+  const [agreement, idea] = result!.paragraphs[0].changes;
+  assert.equal(agreement.focus, 'accuracy');
+  assert.deepEqual([agreement.start, agreement.end], [7, 19]);
+  assert.equal(idea.focus, 'cohesion');
+});
+
+test('writeModelAnswer gives null when the reply does not match the schema', async () => {
+  assert.equal(await rewrite({ summary: 'Better.', paragraphs: [{ paragraph: 0, rewritten: 'Text.' }] }), null);
+  assert.equal(await rewrite({ summary: 'Better.', paragraphs: [{ paragraph: 1, rewritten: 'Text.', changes: [{ revised: 'Text', reason: 'x', criterion: 'Style' }] }] }), null);
+  assert.equal(await rewrite('Here is a better version of the essay.'), null);
+});
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { AnalysisRequest, CriterionName, ModelRewrite, RewriteChange, RewriteFocus } from '@/types';
+import { ChatMessage, LLMProvider } from '@/lib/llm';
+import { countWords, getExamProfile, getPartSpec } from '@/lib/exams';
+import { splitParagraphs } from '@/lib/metrics/text';
+import { getFirstLanguage } from '@/lib/i18n';
+import { locatePassage } from '@/lib/anchoring';
+import { getRubric } from '@/lib/rubrics';
+import { debugLog } from '@/lib/debug';
+import { CRITERIA } from './schema';
+import { extractJson } from './parse';
+
+// Bump whenever the wording below changes; cached rewrites from an older prompt are regenerated
+export const REWRITE_PROMPT_VERSION = 'model-answer-2';
+
+export const REWRITE_FOCUSES: RewriteFocus[] = ['accuracy', 'range', 'cohesion', 'register', 'organisation', 'development'];
+
+// The focus a change most likely serves when the model leaves it out or invents one
+const DEFAULT_FOCUS: Record<CriterionName, RewriteFocus> = {
+  Content: 'development',
+  'Communicative Achievement': 'register',
+  Organisation: 'cohesion',
+  Language: 'range',
+};
+
+const rewriteSchema = z.object({
+  summary: z.string().min(1),
+  paragraphs: z.array(
+    z.object({
+      paragraph: z.number().int().positive(),
+      rewritten: z.string().min(1),
+      changes: z
+        .array(
+          z.object({
+            original: z.string(),
+            revised: z.string().min(1),
+            reason: z.string().min(1),
+            criterion: z.enum(['Content', 'Communicative Achievement', 'Organisation', 'Language']),
+            focus: z.string().optional(),
+          })
+        )
+        .default([]),
+    })
+  ),
+});
+
+export type RewriteInput = Pick<AnalysisRequest, 'examLevel' | 'taskType' | 'writing' | 'taskPrompt' | 'firstLanguage'>;
+
+export function buildModelRewriteMessages({ examLevel, taskType, writing, taskPrompt, firstLanguage }: RewriteInput): ChatMessage[] {
+  const profile = getExamProfile(examLevel);
+  const wordRange = getPartSpec(examLevel, taskType)?.wordRange;
+  const paragraphs = splitParagraphs(writing);
+  const language = getFirstLanguage(firstLanguage);
+  const genre = getRubric().genres[taskType];
+
+  const prompt = `Rewrite this student's ${profile.name} ${taskType} as an answer that would score Band 5 on every criterion (${CRITERIA.join(', ')}) at ${profile.cefr} level.
+
+RULES:
+- Keep the student's own ideas, arguments, examples and paragraph order; develop them, but do not add new points.
+- Fix every error and upgrade the language: a wider range of vocabulary and structures, clear cohesion between sentences and paragraphs, and a register that suits a ${taskType}.${genre ? `\n- Follow the conventions of a ${taskType} written for ${genre.reader} (${genre.register}): ${genre.conventions.join('; ')}.` : ''}
+- Rewrite each numbered paragraph as one paragraph with the same number, so the two versions can be read side by side.${wordRange ? `\n- Keep the whole answer within ${wordRange.min}-${wordRange.max} words.` : ''}
+- For each paragraph, list the changes that matter most (at most six): the student's words in "original" (empty if you added something), your words in "revised" copied verbatim from your rewritten paragraph, a one-sentence "reason", the "criterion" it serves and its "focus", one of: ${REWRITE_FOCUSES.join(', ')}.${language ? `\n- Write "summary" and every "reason" in ${language.name}, the student's first language; keep "original", "revised" and "rewritten" in English.` : ''}
+${taskPrompt ? `\nTASK QUESTION the student answered:\n"""\n${taskPrompt}\n"""\n` : ''}
+OUTPUT FORMAT: Respond with a single JSON object and nothing else, matching this structure exactly:
+{"summary": "two sentences on what the model answer does better", "paragraphs": [{"paragraph": 1, "rewritten": "...", "changes": [{"original": "...", "revised": "...", "reason": "...", "criterion": "Language", "focus": "range"}]}]}
+
+Student's paragraphs:
+${paragraphs.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n')}`;
+
+  return [
+    {
+      role: 'system',
+      content: `You are a Cambridge English examiner and teacher writing model answers for ${profile.name} students. You always reply with a single valid JSON document in the requested structure.`,
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+// Ask the examiner model for a Band 5 version of the text; failures give null so the caller can report them
+export async function writeModelAnswer(provider: LLMProvider, input: RewriteInput): Promise<ModelRewrite | null> {
+  try {
+    const output = await provider.complete(buildModelRewriteMessages(input), { json: true });
+    const json = extractJson(output);
+    const parsed = json ? rewriteSchema.safeParse(JSON.parse(json)) : null;
+    if (!parsed?.success) {
+      console.error('Model answer did not match the expected structure');
+      debugLog('Model answer output:', output);
+      return null;
+    }
+
+    // Align by paragraph number; a paragraph the model skipped is shown unchanged
+    const paragraphs = splitParagraphs(input.writing).map((original, i) => {
+      const rewrite = parsed.data.paragraphs.find(p => p.paragraph === i + 1);
+      if (!rewrite) return { original: original.text, rewritten: original.text, changes: [] };
+      const changes: RewriteChange[] = rewrite.changes.map(({ focus, ...change }) => ({
+        ...change,
+        focus: REWRITE_FOCUSES.includes(focus as RewriteFocus) ? (focus as RewriteFocus) : DEFAULT_FOCUS[change.criterion],
+        ...(locatePassage(rewrite.rewritten, change.revised) ?? {}),
+      }));
+      return { original: original.text, rewritten: rewrite.rewritten, changes };
+    });
+
+    return {
+      examLevel: input.examLevel,
+      taskType: input.taskType,
+      summary: parsed.data.summary,
+      paragraphs,
+      wordCount: countWords(paragraphs.map(p => p.rewritten).join('\n\n')),
+      promptVersion: REWRITE_PROMPT_VERSION,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error('Model answer error:', error);
+    return null;
+  }
+}
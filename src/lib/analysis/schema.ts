@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { AnalysisRequest, CriterionName, LanguageError } from '@/types';
+import { classifyErrorType, normalizeSeverity } from '@/lib/taxonomy';
+
+export const CRITERIA: CriterionName[] = ['Content', 'Communicative Achievement', 'Organisation', 'Language'];
+
+export const criterionSchema = z.object({
+  name: z.enum(['Content', 'Communicative Achievement', 'Organisation', 'Language']),
+  score: z.number().min(0).max(5),
+  feedback: z.string().min(1),
+  suggestions: z.array(z.string()).optional(),
+});
+
+// The model's type label is mapped onto the error taxonomy here, so every consumer sees the same types
+export const errorSchema = z
+  .object({
+    text: z.string().min(1),
+    correction: z.string(),
+    type: z.string().min(1),
+    severity: z.string().optional(),
+    explanation: z.string(),
+    // Placement hints are optional; a malformed hint is dropped rather than failing the assessment
+    context: z.string().optional().catch(undefined),
+    sentence: z.number().int().positive().optional().catch(undefined),
+  })
+  .transform(({ severity, type, ...error }): LanguageError => ({
+    ...error,
+    ...classifyErrorType(type),
+    severity: normalizeSeverity(severity),
+  }));
+
+const contentPointSchema = z.object({
+  point: z.string().min(1),
+  status: z.enum(['covered', 'partial', 'missed']),
+  comment: z.string(),
+  evidence: z.string().optional(),
+});
+
+// Shape of the JSON document the examiner model must return for this request
+export function buildModelOutputSchema({ contentPoints = [] }: Pick<AnalysisRequest, 'contentPoints'>) {
+  return z.object({
+    criteria: z.array(criterionSchema).superRefine((criteria, ctx) => {
+      for (const name of CRITERIA) {
+        const count = criteria.filter(c => c.name === name).length;
+        if (count !== 1) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: count === 0 ? `missing criterion "${name}"` : `criterion "${name}" appears ${count} times`,
+          });
+        }
+      }
+    }),
+    errors: z.array(errorSchema).default([]),
+    // Model's check of the upgrades offered for overused words; a malformed list only loses the suggestions
+    vocabulary: z
+      .array(z.object({ word: z.string(), sentence: z.number().int().positive().optional(), alternatives: z.array(z.string()).default([]) }))
+      .default([])
+      .catch([]),
+    contentPoints: z.array(contentPointSchema).default([]).superRefine((points, ctx) => {
+      if (points.length !== contentPoints.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `expected ${contentPoints.length} content point assessments, got ${points.length}`,
+        });
+      }
+    }),
+  });
+}
+
+export type ModelOutput = z.infer<ReturnType<typeof buildModelOutputSchema>>;
+
+// Example embedded in the prompt so the model sees the exact field names
+export function modelOutputExample({ contentPoints = [] }: Pick<AnalysisRequest, 'contentPoints'>): string {
+  const pointsExample = contentPoints.length > 0
+    ? `,
+  "contentPoints": [
+    {"point": "the content point, as given", "status": "covered | partial | missed", "comment": "...", "evidence": "passage copied verbatim from the writing"}
+  ]`
+    : '';
+
+  return `{
+  "criteria": [
+    {"name": "Content", "score": 4, "feedback": "...", "suggestions": ["..."]},
+    {"name": "Communicative Achievement", "score": 3, "feedback": "...", "suggestions": ["..."]},
+    {"name": "Organisation", "score": 4, "feedback": "...", "suggestions": ["..."]},
+    {"name": "Language", "score": 3, "feedback": "...", "suggestions": ["..."]}
+  ],
+  "errors": [
+    {"text": "exact error text", "correction": "corrected version", "type": "tense", "severity": "minor", "explanation": "brief explanation", "context": "a few words around the error, copied verbatim", "sentence": 2}
+  ]${pointsExample}
+}`;
+}
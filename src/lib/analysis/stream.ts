@@ -0,0 +1,143 @@
+import { AnalysisRequest, AnalysisStreamEvent, LanguageError } from '@/types';
+import { LLMProvider, streamCompletion } from '@/lib/llm';
+import { anchorErrors } from '@/lib/anchoring';
+import { debugLog } from '@/lib/debug';
+import { analyzeWriting, AnalysisOutcome, AnalyzeOptions, invalidOutputFailure, toResult } from './analyze';
+import { buildExaminerMessages, buildRepairMessages } from './prompt';
+import { parseModelOutput } from './parse';
+import { criterionSchema, errorSchema } from './schema';
+
+interface ScannedItem {
+  // Top-level key of the array the object belongs to, e.g. "criteria"
+  key: string;
+  value: unknown;
+}
+
+// Incrementally scan a streamed JSON reply and return each object inside a top-level array once it is complete
+export function createItemScanner() {
+  let text = '';
+  let pos = 0;
+  let depth = 0;
+  let started = false;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let arrayKey: string | null = null;
+  let itemStart = -1;
+
+  return {
+    push(chunk: string): ScannedItem[] {
+      text += chunk;
+      const items: ScannedItem[] = [];
+      for (; pos < text.length && !finished; pos++) {
+        const ch = text[pos];
+        if (!started) {
+          // Skip code fences or prose before the document
+          if (ch === '{') {
+            started = true;
+            depth = 1;
+          }
+          continue;
+        }
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (ch === '\\') {
+            escaped = true;
+          } else if (ch === '"') {
+            inString = false;
+            if (depth === 1) {
+              try {
+                lastString = JSON.parse(text.substring(stringStart, pos + 1));
+              } catch {
+                lastString = '';
+              }
+            }
+          }
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+          stringStart = pos;
+        } else if (ch === '{' || ch === '[') {
+          if (depth === 1) arrayKey = ch === '[' ? lastString : null;
+          if (depth === 2 && ch === '{' && arrayKey) itemStart = pos;
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          depth--;
+          if (depth === 2 && itemStart !== -1) {
+            try {
+              items.push({ key: arrayKey!, value: JSON.parse(text.substring(itemStart, pos + 1)) });
+            } catch {
+              // Malformed item; the full validation after the stream reports it
+            }
+            itemStart = -1;
+          }
+          if (depth === 1) arrayKey = null;
+          if (depth === 0) finished = true;
+        }
+      }
+      return items;
+    },
+  };
+}
+
+// Like analyzeWriting, but reports tokens, criteria and errors through onEvent while the model is still writing
+export async function streamAnalysis(
+  provider: LLMProvider,
+  request: AnalysisRequest,
+  onEvent: (event: AnalysisStreamEvent) => void,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisOutcome> {
+  // A consensus only exists once every sample is in, so there is nothing to show early
+  if ((request.samples ?? 1) > 1) {
+    return analyzeWriting(provider, request, options);
+  }
+
+  const { maxAttempts = 3, signal } = options;
+  const initial = buildExaminerMessages(request);
+  let messages = initial;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      onEvent({ type: 'retry', attempt, issues });
+    }
+
+    const scanner = createItemScanner();
+    const errors: LanguageError[] = [];
+    let output = '';
+    for await (const text of streamCompletion(provider, messages, { json: true, signal })) {
+      output += text;
+      onEvent({ type: 'token', text });
+      for (const item of scanner.push(text)) {
+        if (item.key === 'criteria') {
+          const criterion = criterionSchema.safeParse(item.value);
+          if (criterion.success) onEvent({ type: 'criterion', criterion: criterion.data });
+        } else if (item.key === 'errors') {
+          const error = errorSchema.safeParse(item.value);
+          if (error.success) {
+            // Locate against all earlier errors so positions match the final result
+            errors.push(error.data);
+            onEvent({ type: 'languageError', error: anchorErrors(errors, request.writing)[errors.length - 1] });
+          }
+        }
+      }
+    }
+    debugLog(`Raw AI output (attempt ${attempt}):`, output);
+
+    const parsed = parseModelOutput(output, request);
+    if (parsed.ok) {
+      return { ok: true, result: toResult(parsed.data, request) };
+    }
+
+    issues = parsed.issues;
+    debugLog('Model output failed validation:', issues);
+    messages = buildRepairMessages(request, initial, output, issues);
+  }
+
+  return { ok: false, failure: invalidOutputFailure(maxAttempts, issues) };
+}
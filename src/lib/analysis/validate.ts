@@ -0,0 +1,161 @@
+import { franc } from 'franc-min';
+import { AnalysisRequest } from '@/types';
+import { countWords, getExamProfile, getPartSpec, hardWordLimits, isExamLevel, maxCharacters } from '@/lib/exams';
+import { getFirstLanguage } from '@/lib/i18n';
+import { MAX_SAMPLES } from './analyze';
+
+export const MAX_TASK_PROMPT_LENGTH = 2000;
+export const MAX_CONTENT_POINTS = 10;
+
+// A rejected request, sent to the client with status 400
+export interface RequestProblem {
+  error: string;
+  message: string;
+  wordCount?: number;
+  charCount?: number;
+}
+
+export type ValidationOutcome =
+  | { ok: true; request: AnalysisRequest }
+  | { ok: false; problem: RequestProblem };
+
+// Helper: Check if most sentences are English
+export function isMostlyEnglish(text: string, threshold = 0.2): boolean {
+  // Split by sentence-ending punctuation or newlines
+  const sentences = text.split(/[.!?\n]+/).map(s => s.trim()).filter(Boolean);
+  if (sentences.length === 0) return false;
+
+  // Ignore short "sentences" (fewer than 5 words) to prevent misclassification
+  const longEnoughSentences = sentences.filter(s => s.split(' ').length >= 5);
+
+  // If there are no long sentences, fall back to checking the whole text
+  if (longEnoughSentences.length === 0) {
+      return franc(text) === 'eng';
+  }
+
+  let nonEnglish = 0;
+  for (const sentence of longEnoughSentences) {
+    if (franc(sentence) !== 'eng') nonEnglish++;
+  }
+  const percentNonEnglish = nonEnglish / longEnoughSentences.length;
+  return percentNonEnglish <= threshold;
+}
+
+export function isMeaningful(text: string): boolean {
+  // Remove punctuation for word analysis
+  const words = text.replace(/[^\w\s]/g, '').toLowerCase().split(/\s+/).filter(Boolean);
+  const uniqueWords = new Set(words);
+  const vocabRatio = uniqueWords.size / words.length;
+
+  // Check for excessive repetition
+  const wordCounts: Record<string, number> = {};
+  let mostCommonCount = 0;
+  for (const word of words) {
+    wordCounts[word] = (wordCounts[word] || 0) + 1;
+    if (wordCounts[word] > mostCommonCount) mostCommonCount = wordCounts[word];
+  }
+  const repetitionRatio = mostCommonCount / words.length;
+
+  // Check for alphabetic content
+  const alphaChars = text.replace(/[^a-zA-Z]/g, '').length;
+  const alphaRatio = alphaChars / text.length;
+
+  // Check for HTML/code
+  const hasHtmlOrCode = /<[^>]+>|{[^}]+}|console\.log|function\s*\(/.test(text);
+
+  // Heuristics
+  if (vocabRatio < 0.3) return false;
+  if (repetitionRatio > 0.5) return false;
+  if (alphaRatio < 0.5) return false;
+  if (hasHtmlOrCode) return false;
+
+  return true;
+}
+
+function problem(error: string, message: string, extra: Partial<RequestProblem> = {}): ValidationOutcome {
+  return { ok: false, problem: { error, message, ...extra } };
+}
+
+// Check an incoming analysis request and normalise its optional fields
+export function validateAnalysisRequest(body: Partial<AnalysisRequest>): ValidationOutcome {
+  const { examLevel, taskType } = body;
+  const writing = typeof body.writing === 'string' ? body.writing : '';
+
+  if (!isExamLevel(examLevel)) {
+    return problem('Unknown exam level', `Unknown exam level "${examLevel}".`);
+  }
+
+  const partSpec = taskType ? getPartSpec(examLevel, taskType) : undefined;
+  if (!taskType || !partSpec) {
+    return problem('Unsupported task type', `${getExamProfile(examLevel).name} does not set a ${taskType} task.`);
+  }
+
+  const taskPrompt = typeof body.taskPrompt === 'string' ? body.taskPrompt.trim() : '';
+  const contentPoints = Array.isArray(body.contentPoints)
+    ? body.contentPoints.filter((p): p is string => typeof p === 'string').map(p => p.trim()).filter(Boolean)
+    : [];
+
+  const samples = body.samples === undefined ? 1 : Number(body.samples);
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES) {
+    return problem('Invalid sample count', `Samples must be a whole number from 1 to ${MAX_SAMPLES}.`);
+  }
+  const aggregation = body.aggregation === 'mean' ? 'mean' : 'median';
+
+  const firstLanguage = body.firstLanguage || undefined;
+  if (firstLanguage !== undefined && !getFirstLanguage(firstLanguage)) {
+    return problem('Unsupported first language', `First language "${firstLanguage}" is not supported.`);
+  }
+
+  if (taskPrompt.length > MAX_TASK_PROMPT_LENGTH) {
+    return problem('Task prompt too long', `The task prompt may be at most ${MAX_TASK_PROMPT_LENGTH} characters.`);
+  }
+
+  if (contentPoints.length > MAX_CONTENT_POINTS) {
+    return problem('Too many content points', `Please list at most ${MAX_CONTENT_POINTS} content points.`);
+  }
+
+  // Simple meaningful content check
+  if (!writing.trim() || !isMeaningful(writing)) {
+    return problem('Unmeaningful content', 'Please submit a meaningful English text for analysis.');
+  }
+
+  // Chunk-based language detection
+  if (!isMostlyEnglish(writing)) {
+    return problem('Non-English text detected', 'Your submission contains too much non-English content. Please submit your writing in English.');
+  }
+
+  // Answers outside the task range are still assessed; only reject ones too far off to be a response to it
+  const wordCount = countWords(writing);
+  const charCount = writing.length;
+  const { min, max } = partSpec.wordRange;
+  const limits = hardWordLimits(partSpec.wordRange);
+  if (wordCount < limits.min) {
+    return problem(
+      'Insufficient word count',
+      `Your writing contains only ${wordCount} words. This task asks for ${min}-${max} words; please provide at least ${limits.min} words for a meaningful assessment.`,
+      { wordCount }
+    );
+  }
+
+  if (wordCount > limits.max) {
+    return problem(
+      'Excessive word count',
+      `Your writing contains ${wordCount} words. This task asks for ${min}-${max} words; the maximum accepted is ${limits.max} words.`,
+      { wordCount }
+    );
+  }
+
+  const charLimit = maxCharacters(partSpec.wordRange);
+  if (charCount > charLimit) {
+    return problem(
+      'Excessive character count',
+      `Your writing contains ${charCount} characters. The maximum allowed is ${charLimit} characters.`,
+      { charCount }
+    );
+  }
+
+  return {
+    ok: true,
+    request: { examLevel, taskType, writing, taskPrompt, contentPoints, samples, aggregation, firstLanguage },
+  };
+}
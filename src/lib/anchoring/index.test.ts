@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LanguageError } from '@/types';
+import { anchorErrors, foldText, locatePassage, unanchoredErrors } from './index';
+
+const error = (text: string, extra: Partial<LanguageError> = {}): LanguageError =>
+  ({ text, correction: '', type: 'grammar', explanation: '', ...extra });
+
+const WRITING = 'I goes to school. My brother goes to work. We goes home in the evening.';
+
+test('foldText ignores case, quote and dash styles and runs of whitespace, keeping original offsets', () => {
+  const folded = foldText('Don’t  Stop—Now');
+  assert.equal(folded.text, "don't stop-now");
+  // The second space is skipped, so "s" maps back to position 7
+  assert.equal(folded.offsets[6], 7);
+  assert.equal(folded.offsets[folded.offsets.length - 1], 'Don’t  Stop—Now'.length);
+});
+
+test('locatePassage finds a passage quoted with different case, quotes and spacing', () => {
+  const writing = 'He said “It’s  fine”\nand left.';
+  assert.deepEqual(locatePassage(writing, ' "it\'s fine" and '), { start: 8, end: writing.indexOf('and') + 3 });
+  assert.equal(locatePassage(writing, 'not there'), null);
+});
+
+test('anchorErrors places repeated phrases by their context, then by the cited sentence', () => {
+  const [byContext, bySentence] = anchorErrors(
+    [error('goes', { context: 'We goes home' }), error('goes', { sentence: 2 })],
+    WRITING
+  );
+  assert.equal(byContext.start, WRITING.indexOf('We goes') + 3);
+  assert.equal(bySentence.start, WRITING.indexOf('brother goes') + 8);
+});
+
+test('anchorErrors gives errors with the same text different occurrences', () => {
+  const placed = anchorErrors([error('goes'), error('goes'), error('goes')], WRITING);
+  assert.deepEqual(placed.map(e => e.start), [2, WRITING.indexOf('brother goes') + 8, WRITING.indexOf('We goes') + 3]);
+});
+
+test('anchorErrors prefers a whole-word match over one inside a longer word', () => {
+  const writing = 'Come into the room in the morning.';
+  const [placed] = anchorErrors([error('in')], writing);
+  assert.equal(placed.start, writing.indexOf(' in ') + 1);
+});
+
+test('anchorErrors keeps a valid position, replaces a wrong one and leaves unplaceable errors without one', () => {
+  const last = WRITING.indexOf('We goes') + 3;
+  const [kept, moved, missing] = anchorErrors(
+    [
+      error('goes', { start: last, end: last + 4 }),
+      error('school', { start: 0, end: 6 }),
+      error('went', { start: 0, end: 4 }),
+    ],
+    WRITING
+  );
+  assert.equal(kept.start, last);
+  assert.deepEqual([moved.start, moved.end], [WRITING.indexOf('school'), WRITING.indexOf('school') + 6]);
+  assert.equal('start' in missing, false);
+  assert.deepEqual(unanchoredErrors([kept, moved, missing]), [missing]);
+});
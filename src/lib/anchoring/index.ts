@@ -0,0 +1,112 @@
+import { LanguageError } from '@/types';
+import { splitSentences } from '@/lib/metrics/text';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Text folded for matching, with offsets[i] the position in the original of folded character i
+interface FoldedText {
+  text: string;
+  offsets: number[];
+}
+
+// Case, curly quotes, dashes and runs of whitespace are ignored when matching
+export function foldText(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  let inSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i];
+    if (/\s/.test(char)) {
+      if (inSpace) continue;
+      char = ' ';
+      inSpace = true;
+    } else {
+      inSpace = false;
+    }
+    char = char
+      .replace(/[’‘‛`´]/, "'")
+      .replace(/[“”„‟«»]/, '"')
+      .replace(/[‐‑–—]/, '-')
+      .toLowerCase();
+    for (const c of char) {
+      folded += c;
+      offsets.push(i);
+    }
+  }
+  offsets.push(text.length);
+  return { text: folded, offsets };
+}
+
+function occurrences(haystack: FoldedText, needle: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  if (!needle) return ranges;
+  for (let i = haystack.text.indexOf(needle); i !== -1; i = haystack.text.indexOf(needle, i + 1)) {
+    ranges.push({ start: haystack.offsets[i], end: haystack.offsets[i + needle.length - 1] + 1 });
+  }
+  return ranges;
+}
+
+function contains(outer: TextRange, inner: TextRange): boolean {
+  return inner.start >= outer.start && inner.end <= outer.end;
+}
+
+function overlaps(a: TextRange, b: TextRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function isWholeWord(writing: string, range: TextRange): boolean {
+  const wordChar = /[\p{L}\p{N}]/u;
+  const startsWord = !wordChar.test(writing[range.start] ?? '') || !wordChar.test(writing[range.start - 1] ?? '');
+  const endsWord = !wordChar.test(writing[range.end - 1] ?? '') || !wordChar.test(writing[range.end] ?? '');
+  return startsWord && endsWord;
+}
+
+// Only located errors can be highlighted or applied to the text
+export function isAnchored(error: LanguageError): error is LanguageError & { start: number; end: number } {
+  return typeof error.start === 'number' && typeof error.end === 'number' && error.end >= error.start;
+}
+
+// Find a quoted passage in the writing, ignoring case, quote style and differences in whitespace
+export function locatePassage(writing: string, passage: string): TextRange | null {
+  return occurrences(foldText(writing), foldText(passage.trim()).text)[0] ?? null;
+}
+
+// Place each error in the writing. Of the free occurrences of its text, the one inside the
+// quoted context wins, then one in the cited sentence, then a whole-word match, then the first.
+// Errors that already carry a valid position keep it; errors that cannot be placed are returned without one.
+export function anchorErrors(errors: LanguageError[], writing: string): LanguageError[] {
+  const folded = foldText(writing);
+  const sentences = splitSentences(writing);
+  const used: TextRange[] = [];
+  const keep = errors.map(error =>
+    isAnchored(error) && foldText(writing.slice(error.start, error.end)).text === foldText(error.text.trim()).text
+  );
+  errors.forEach((error, i) => {
+    if (keep[i]) used.push({ start: error.start!, end: error.end! });
+  });
+
+  return errors.map((error, i) => {
+    if (keep[i]) return error;
+    const { start, end, ...unplaced } = error;
+    const candidates = occurrences(folded, foldText(error.text.trim()).text).filter(range => !used.some(u => overlaps(u, range)));
+    if (candidates.length === 0) return unplaced;
+
+    const contexts = error.context ? occurrences(folded, foldText(error.context.trim()).text) : [];
+    const sentence = error.sentence ? sentences[error.sentence - 1] : undefined;
+    const score = (range: TextRange) =>
+      (contexts.some(c => contains(c, range)) ? 4 : 0) +
+      (sentence && contains(sentence, range) ? 2 : 0) +
+      (isWholeWord(writing, range) ? 1 : 0);
+    const best = candidates.reduce((a, b) => (score(b) > score(a) ? b : a));
+
+    used.push(best);
+    return { ...unplaced, ...best };
+  });
+}
+
+export function unanchoredErrors(errors: LanguageError[]): LanguageError[] {
+  return errors.filter(error => !isAnchored(error));
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { SchoolClass, User } from '@/types';
+import { listClasses } from '@/lib/classes';
+import { normalizeUserId } from '@/lib/submissions';
+import { forbidden } from './guard';
+
+// Students see their own work, teachers that of students on their rosters, admins everything
+export function canViewStudent(user: User, studentId: string): boolean {
+  if (user.role === 'admin' || user.id === studentId) return true;
+  return user.role === 'teacher' && listClasses(user.id).some(c => c.studentIds.includes(studentId));
+}
+
+export function canManageClass(user: User, schoolClass: SchoolClass): boolean {
+  return user.role === 'admin' || (user.role === 'teacher' && schoolClass.teacherId === user.id);
+}
+
+// Whose history an analysis is saved to: students always their own; teachers and admins
+// may name a student they can see, and otherwise nothing is saved
+export function resolveAnalysisStudent(
+  user: User,
+  requested: unknown
+): { ok: true; studentId: string | null } | { ok: false; response: NextResponse } {
+  if (user.role === 'student') return { ok: true, studentId: user.id };
+  if (!requested) return { ok: true, studentId: null };
+
+  const studentId = normalizeUserId(requested);
+  if (!studentId) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Invalid student ID', message: 'Student IDs may contain letters, numbers, ".", "_", "-" and "@" (max 64 characters).' },
+        { status: 400 }
+      ),
+    };
+  }
+  if (!canViewStudent(user, studentId)) {
+    return { ok: false, response: forbidden('This student is not on any of your class rosters.') };
+  }
+  return { ok: true, studentId };
+}
@@ -0,0 +1,8 @@
+export { createUser, getUser, isStudentAccount, findUserByEmail, listUsers, setUserRole, promoteVerifiedAdmin, authenticate, isRole, normalizeEmail, ROLES } from './users';
+export { MIN_PASSWORD_LENGTH } from './passwords';
+export { createSession, deleteSession } from './sessions';
+export { sendMagicLink, consumeMagicLink, getAppUrl } from './magicLinks';
+export { getRoleLimits, roleLimitProblem } from './roles';
+export { getCurrentUser, requireUser, forbidden, setSessionCookie, clearSessionCookie, readSessionToken } from './guard';
+export type { AuthOutcome } from './guard';
+export { canViewStudent, canManageClass, resolveAnalysisStudent } from './access';
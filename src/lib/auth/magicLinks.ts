@@ -0,0 +1,44 @@
+import { randomBytes } from 'crypto';
+import { getCollection } from '@/lib/db';
+import { getMailer } from '@/lib/mail';
+import { hashToken } from './sessions';
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+interface MagicLinkRecord {
+  // SHA-256 of the token in the link
+  id: string;
+  userId: string;
+  expiresAt: string;
+}
+
+const magicLinks = () => getCollection<MagicLinkRecord>('magic-links');
+
+// Public base URL for links and redirects; never taken from the request, whose Host header the client controls
+export function getAppUrl(): string | null {
+  return process.env.APP_URL?.trim().replace(/\/+$/, '') || null;
+}
+
+// Mail a one-time sign-in link valid for 15 minutes
+export async function sendMagicLink(user: { id: string; email: string; name: string }, baseUrl: string) {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  magicLinks().find(l => Date.parse(l.expiresAt) <= now).forEach(l => magicLinks().remove(l.id));
+  magicLinks().insert({ id: hashToken(token), userId: user.id, expiresAt: new Date(now + MAGIC_LINK_TTL_MS).toISOString() });
+
+  const link = `${baseUrl}/api/auth/magic-link/verify?token=${token}`;
+  await getMailer().send({
+    to: user.email,
+    subject: 'Your Writing Analyzer sign-in link',
+    text: `Hello ${user.name},\n\nUse this link to sign in. It works once and expires in 15 minutes:\n\n${link}\n\nIf you did not ask for it, you can ignore this message.`,
+  });
+}
+
+// Use up the link's token; returns the user it signs in, or null if it is unknown, used or expired
+export function consumeMagicLink(token: string): string | null {
+  const id = hashToken(token);
+  const link = magicLinks().get(id);
+  if (!link) return null;
+  magicLinks().remove(id);
+  return Date.parse(link.expiresAt) > Date.now() ? link.userId : null;
+}
@@ -0,0 +1,20 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const KEY_LENGTH = 64;
+
+// "scrypt$<salt>$<hash>", both base64url
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,45 @@
+import { AnalysisRequest, Role, RoleLimits } from '@/types';
+import { EXAM_LEVELS, getExamProfile, isExamLevel } from '@/lib/exams';
+import { MAX_SAMPLES } from '@/lib/analysis';
+
+const DEFAULT_LIMITS: Record<Role, RoleLimits> = {
+  student: { examLevels: EXAM_LEVELS, dailyAnalyses: 20, maxSamples: 3 },
+  teacher: { examLevels: EXAM_LEVELS, dailyAnalyses: 200, maxSamples: MAX_SAMPLES },
+  admin: { examLevels: EXAM_LEVELS, dailyAnalyses: 0, maxSamples: MAX_SAMPLES },
+};
+
+// Defaults can be overridden per role, e.g. STUDENT_EXAM_LEVELS=FCE,CAE or TEACHER_DAILY_ANALYSES=500
+export function getRoleLimits(role: Role, env: Record<string, string | undefined> = process.env): RoleLimits {
+  const limits = DEFAULT_LIMITS[role];
+  const prefix = role.toUpperCase();
+
+  const levels = env[`${prefix}_EXAM_LEVELS`]?.split(',').map(level => level.trim().toUpperCase()).filter(isExamLevel);
+  const daily = Number(env[`${prefix}_DAILY_ANALYSES`]);
+  const samples = Number(env[`${prefix}_MAX_SAMPLES`]);
+  return {
+    ...limits,
+    examLevels: levels?.length ? levels : limits.examLevels,
+    dailyAnalyses: env[`${prefix}_DAILY_ANALYSES`] && Number.isInteger(daily) && daily >= 0 ? daily : limits.dailyAnalyses,
+    maxSamples: Number.isInteger(samples) && samples >= 1 ? Math.min(samples, MAX_SAMPLES) : limits.maxSamples,
+  };
+}
+
+// Why the role may not run this analysis, or null when it may
+export function roleLimitProblem(
+  limits: RoleLimits,
+  { examLevel, samples = 1 }: Pick<AnalysisRequest, 'examLevel' | 'samples'>
+): { error: string; message: string } | null {
+  if (!limits.examLevels.includes(examLevel)) {
+    return {
+      error: 'Exam level not allowed',
+      message: `Your account can analyze ${limits.examLevels.map(level => getExamProfile(level).name).join(', ')} scripts only.`,
+    };
+  }
+  if (samples > limits.maxSamples) {
+    return {
+      error: 'Too many samples',
+      message: `Your account can run at most ${limits.maxSamples} independent assessment${limits.maxSamples === 1 ? '' : 's'} per script.`,
+    };
+  }
+  return null;
+}
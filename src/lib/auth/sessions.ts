@@ -0,0 +1,46 @@
+import { createHash, randomBytes } from 'crypto';
+import { getCollection } from '@/lib/db';
+
+export const SESSION_COOKIE = 'wa_session';
+
+interface SessionRecord {
+  // SHA-256 of the cookie token, so the store never holds a usable token
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const sessions = () => getCollection<SessionRecord>('sessions');
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function sessionTtlMs(): number {
+  const days = Number(process.env.SESSION_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 60 * 60 * 1000;
+}
+
+// Returns the token for the session cookie
+export function createSession(userId: string): string {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  // Expired sessions are dropped whenever a new one starts
+  sessions().find(s => Date.parse(s.expiresAt) <= now).forEach(s => sessions().remove(s.id));
+  sessions().insert({
+    id: hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + sessionTtlMs()).toISOString(),
+  });
+  return token;
+}
+
+export function getSessionUserId(token: string): string | null {
+  const session = sessions().get(hashToken(token));
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+  return session.userId;
+}
+
+export function deleteSession(token: string) {
+  sessions().remove(hashToken(token));
+}
@@ -0,0 +1,90 @@
+import { randomBytes } from 'crypto';
+import { Role, User } from '@/types';
+import { getCollection } from '@/lib/db';
+import { hashPassword, verifyPassword } from './passwords';
+
+// Stored form of a user; only toUser() output is sent to clients
+export interface UserRecord extends User {
+  passwordHash?: string;
+}
+
+export const ROLES: Role[] = ['student', 'teacher', 'admin'];
+
+const users = () => getCollection<UserRecord>('users');
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && email.length <= 254 ? email : null;
+}
+
+export function toUser({ passwordHash: _passwordHash, ...user }: UserRecord): User {
+  return user;
+}
+
+function isAdminEmail(email: string): boolean {
+  const admins = (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  return admins.includes(email);
+}
+
+export function createUser(input: { id: string; email: string; name: string; password?: string }): User {
+  return toUser(users().insert({
+    id: input.id,
+    email: input.email,
+    name: input.name,
+    // Registering proves nothing about the address, so every new account starts as a student
+    role: 'student',
+    passwordHash: input.password ? hashPassword(input.password) : undefined,
+    createdAt: new Date().toISOString(),
+  }));
+}
+
+export function getUser(id: string): User | undefined {
+  const record = users().get(id);
+  return record && toUser(record);
+}
+
+export function findUserByEmail(email: string): User | undefined {
+  const record = users().findOne(u => u.email === email);
+  return record && toUser(record);
+}
+
+export function listUsers(): User[] {
+  return users().all().map(toUser).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Only existing student accounts can be invited to a class
+export function isStudentAccount(id: string): boolean {
+  return users().get(id)?.role === 'student';
+}
+
+export function setUserRole(id: string, role: Role): User | undefined {
+  const record = users().update(id, { role });
+  return record && toUser(record);
+}
+
+// Checked when the account is missing or has no password, so the reply takes as long as a wrong password
+let dummyHash: string | undefined;
+
+// Called once a magic link mailed to the account's address has been used, which shows the user owns it:
+// addresses listed in ADMIN_EMAILS are made admins only then
+export function promoteVerifiedAdmin(user: User): User {
+  if (user.role === 'admin' || !isAdminEmail(user.email)) return user;
+  return setUserRole(user.id, 'admin') ?? user;
+}
+
+// Look the account up by user ID or email and check its password
+export function authenticate(identifier: string, password: string): User | null {
+  const key = identifier.trim().toLowerCase();
+  const record = users().get(key) ?? users().findOne(u => u.email === key);
+  if (!record?.passwordHash) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('base64url'));
+    verifyPassword(password, dummyHash);
+    return null;
+  }
+  return verifyPassword(password, record.passwordHash) ? toUser(record) : null;
+}
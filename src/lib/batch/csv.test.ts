@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+test('parseCsv reads quoted fields with commas, escaped quotes and line breaks', () => {
+  const text = 'name,writing\r\nanna,"Dear Sir, I ""really"" liked it.\nBest wishes"\nben,Short\n';
+  assert.deepEqual(parseCsv(text), [
+    ['name', 'writing'],
+    ['anna', 'Dear Sir, I "really" liked it.\nBest wishes'],
+    ['ben', 'Short'],
+  ]);
+});
+
+test('parseCsv keeps a last row without a line break and drops blank rows', () => {
+  assert.deepEqual(parseCsv('a,b\n\n , \n1,2'), [['a', 'b'], ['1', '2']]);
+});
+
+test('parseCsvRecords keys rows by the lower-cased header and skips a byte order mark', () => {
+  assert.deepEqual(parseCsvRecords('\uFEFFName, Exam Level\nanna,FCE\nben'), [
+    { name: 'anna', 'exam level': 'FCE' },
+    { name: 'ben', 'exam level': '' },
+  ]);
+  assert.deepEqual(parseCsvRecords(''), []);
+});
+
+test('toCsv quotes only the cells that need it and reads back the same', () => {
+  const rows = [['name', 'score', 'note'], ['anna', 4, 'said "hi", then left\nearly'], ['ben', null, undefined]];
+  const csv = toCsv(rows);
+  assert.equal(csv, 'name,score,note\r\nanna,4,"said ""hi"", then left\nearly"\r\nben,,\r\n');
+  assert.deepEqual(parseCsv(csv), [['name', 'score', 'note'], ['anna', '4', 'said "hi", then left\nearly'], ['ben', '', '']]);
+});
@@ -0,0 +1,49 @@
+import JSZip from 'jszip';
+import { BatchJob } from '@/types';
+import { CRITERIA } from '@/lib/analysis';
+import { toCsv } from './csv';
+
+export function buildScoresCsv(job: BatchJob): string {
+  const header = ['name', 'examLevel', 'taskType', 'status', ...CRITERIA, 'subscaleTotal', 'scaleScore', 'grade', 'errors', 'message'];
+  const rows = job.items.map(item => {
+    const scores = CRITERIA.map(name => item.result?.criteria.find(c => c.name === name)?.score ?? '');
+    return [
+      item.name,
+      item.request.examLevel,
+      item.request.taskType,
+      item.status,
+      ...scores,
+      item.result?.score.subscaleTotal ?? '',
+      item.result?.score.scaleScore ?? '',
+      item.result?.score.grade ?? '',
+      item.result?.errors?.length ?? '',
+      item.status === 'failed' ? item.error : '',
+    ];
+  });
+  return toCsv([header, ...rows]);
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_').slice(0, 80) || 'script';
+}
+
+// scores.csv plus one JSON report per successfully analyzed script
+export async function buildResultsZip(job: BatchJob): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('scores.csv', buildScoresCsv(job));
+  const used = new Set<string>();
+  for (const item of job.items.filter(i => i.result)) {
+    let fileName = safeFileName(item.name);
+    for (let n = 2; used.has(fileName); n++) fileName = `${safeFileName(item.name)}-${n}`;
+    used.add(fileName);
+    zip.file(`results/${fileName}.json`, JSON.stringify({
+      name: item.name,
+      examLevel: item.request.examLevel,
+      taskType: item.request.taskType,
+      taskPrompt: item.request.taskPrompt,
+      writing: item.request.writing,
+      result: item.result,
+    }, null, 2));
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
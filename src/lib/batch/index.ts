@@ -0,0 +1,6 @@
+export { createBatchJob, getBatchJob, prepareBatchItems, MAX_BATCH_ITEMS } from './queue';
+export type { BatchItemOptions } from './queue';
+export { inputsFromCsv, inputsFromJson, inputsFromZip, BatchInputError, MAX_ZIP_ENTRIES, MAX_ZIP_UNCOMPRESSED_BYTES } from './input';
+export type { BatchDefaults, BatchInput } from './input';
+export { buildResultsZip, buildScoresCsv } from './export';
+export { parseCsv, parseCsvRecords, toCsv } from './csv';
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { BatchInputError, inputsFromZip, MAX_ZIP_ENTRIES, MAX_ZIP_UNCOMPRESSED_BYTES } from './input';
+
+async function zipOf(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+test('inputsFromZip reads .txt scripts with settings from the manifest', async () => {
+  const data = await zipOf({
+    'manifest.csv': 'file,examLevel,taskType\nanna.txt,FCE,Essay\n',
+    'scripts/anna.txt': 'Dear Sir,',
+    'notes.md': 'ignored',
+  });
+  const inputs = await inputsFromZip(data, { examLevel: 'CAE' });
+  assert.equal(inputs.length, 1);
+  assert.equal(inputs[0].name, 'anna');
+  assert.equal(inputs[0].request.examLevel, 'FCE');
+  assert.equal(inputs[0].request.writing, 'Dear Sir,');
+});
+
+test('inputsFromZip rejects archives with too many entries before extracting them', async () => {
+  const files = Object.fromEntries(Array.from({ length: MAX_ZIP_ENTRIES + 1 }, (_, i) => [`script-${i}.txt`, 'x']));
+  await assert.rejects(inputsFromZip(await zipOf(files), {}), BatchInputError);
+});
+
+test('inputsFromZip rejects archives that unpack to more than the size limit', async () => {
+  const data = await zipOf({ 'huge.txt': ' '.repeat(MAX_ZIP_UNCOMPRESSED_BYTES + 1) });
+  assert.ok(data.byteLength < 100 * 1024);
+  await assert.rejects(inputsFromZip(data, {}), BatchInputError);
+});
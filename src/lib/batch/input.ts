@@ -0,0 +1,112 @@
+import JSZip from 'jszip';
+import { AnalysisRequest, ExamLevel, TaskType } from '@/types';
+import { parseCsvRecords } from './csv';
+
+// Checked against the sizes in the ZIP's directory before anything is extracted, so a small upload can't
+// expand into gigabytes; JSZip rejects an entry whose real size differs from the listed one
+export const MAX_ZIP_ENTRIES = 500;
+export const MAX_ZIP_UNCOMPRESSED_BYTES = 10 * 1024 * 1024;
+
+// An upload that can't be turned into scripts; the message is safe to show to the user
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchInputError';
+  }
+}
+
+// One script as uploaded, before validation
+export interface BatchInput {
+  name: string;
+  request: Partial<AnalysisRequest>;
+}
+
+export interface BatchDefaults {
+  examLevel?: ExamLevel;
+  taskType?: TaskType;
+  taskPrompt?: string;
+}
+
+function pick(record: Record<string, string>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function splitPoints(value: string | undefined): string[] | undefined {
+  return value ? value.split(/[|;]/).map(p => p.trim()).filter(Boolean) : undefined;
+}
+
+function fromRecord(record: Record<string, string>, defaults: BatchDefaults, fallbackName: string, writing?: string): BatchInput {
+  return {
+    name: pick(record, 'name', 'id', 'student', 'file') ?? fallbackName,
+    request: {
+      examLevel: (pick(record, 'examlevel', 'exam_level', 'level') as ExamLevel) ?? defaults.examLevel,
+      taskType: (pick(record, 'tasktype', 'task_type', 'task') as TaskType) ?? defaults.taskType,
+      taskPrompt: pick(record, 'taskprompt', 'task_prompt', 'prompt') ?? defaults.taskPrompt,
+      contentPoints: splitPoints(pick(record, 'contentpoints', 'content_points')),
+      writing: writing ?? record['writing'] ?? record['text'] ?? '',
+    },
+  };
+}
+
+// JSON body: { items: [{ name, examLevel, taskType, writing, ... }], examLevel?, taskType?, taskPrompt? }
+export function inputsFromJson(body: { items?: unknown } & BatchDefaults): BatchInput[] {
+  if (!Array.isArray(body.items)) return [];
+  return body.items.map((item, i) => {
+    const { name, ...request } = (item ?? {}) as Partial<AnalysisRequest> & { name?: string };
+    return {
+      name: typeof name === 'string' && name.trim() ? name.trim() : `script-${i + 1}`,
+      request: {
+        examLevel: body.examLevel,
+        taskType: body.taskType,
+        taskPrompt: body.taskPrompt,
+        ...request,
+      },
+    };
+  });
+}
+
+// CSV with a header row; "writing" (or "text") holds the script, other columns are optional per-row settings
+export function inputsFromCsv(text: string, defaults: BatchDefaults): BatchInput[] {
+  return parseCsvRecords(text).map((record, i) => fromRecord(record, defaults, `script-${i + 1}`));
+}
+
+// JSZip keeps the size from the ZIP's directory on a private field
+function listedSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+// ZIP of .txt scripts, with an optional manifest.csv (file, examLevel, taskType, taskPrompt, contentPoints)
+export async function inputsFromZip(data: ArrayBuffer, defaults: BatchDefaults): Promise<BatchInput[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files);
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new BatchInputError(`A ZIP may contain at most ${MAX_ZIP_ENTRIES} entries; this one has ${entries.length}.`);
+  }
+  const uncompressed = entries.reduce((sum, entry) => sum + listedSize(entry), 0);
+  if (uncompressed > MAX_ZIP_UNCOMPRESSED_BYTES) {
+    throw new BatchInputError(`A ZIP may unpack to at most ${MAX_ZIP_UNCOMPRESSED_BYTES / 1024 / 1024} MB of files.`);
+  }
+
+  const files = entries.filter(f => !f.dir && !f.name.startsWith('__MACOSX/'));
+  const manifestFile = files.find(f => /(^|\/)manifest\.csv$/i.test(f.name));
+  const manifest = new Map<string, Record<string, string>>();
+  if (manifestFile) {
+    for (const record of parseCsvRecords(await manifestFile.async('string'))) {
+      const file = pick(record, 'file', 'filename');
+      if (file) manifest.set(file.replace(/^.*\//, '').toLowerCase(), record);
+    }
+  }
+
+  const inputs: BatchInput[] = [];
+  for (const file of files.filter(f => /\.txt$/i.test(f.name)).sort((a, b) => a.name.localeCompare(b.name))) {
+    const baseName = file.name.replace(/^.*\//, '');
+    const record = manifest.get(baseName.toLowerCase()) ?? {};
+    const writing = await file.async('string');
+    inputs.push(fromRecord({ ...record, name: record.name ?? baseName.replace(/\.txt$/i, '') }, defaults, baseName, writing));
+  }
+  return inputs;
+}
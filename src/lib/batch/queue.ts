@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import { AnalysisRequest, BatchItem, BatchJob } from '@/types';
+import { getCollection } from '@/lib/db';
+import { getProvider } from '@/lib/llm';
+import { analyzeWriting, validateAnalysisRequest } from '@/lib/analysis';
+import { chargeDailyQuota } from '@/lib/rateLimit';
+import { getRoleLimits, getUser } from '@/lib/auth';
+import { BatchInput } from './input';
+
+export const MAX_BATCH_ITEMS = 100;
+const CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 2;
+const MAX_ATTEMPTS = Number(process.env.BATCH_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_MS = 2000;
+
+const jobs = () => getCollection<BatchJob>('batchJobs');
+
+interface QueueState {
+  pending: Array<{ jobId: string; itemId: string }>;
+  active: number;
+  resumed: boolean;
+}
+
+// Shared across Next.js dev reloads like the collections themselves
+const globalQueue = globalThis as unknown as { __batchQueue?: QueueState };
+
+function queue(): QueueState {
+  if (!globalQueue.__batchQueue) {
+    globalQueue.__batchQueue = { pending: [], active: 0, resumed: false };
+  }
+  return globalQueue.__batchQueue;
+}
+
+function updateItem(jobId: string, itemId: string, changes: Partial<BatchItem>) {
+  const job = jobs().get(jobId);
+  if (!job) return;
+  const items = job.items.map(item => (item.id === itemId ? { ...item, ...changes } : item));
+  const done = items.every(item => item.status === 'succeeded' || item.status === 'failed');
+  jobs().update(jobId, {
+    items,
+    status: done ? 'completed' : 'running',
+    completedAt: done ? new Date().toISOString() : undefined,
+  });
+}
+
+// The first attempt was paid for when the job was queued; every retry is another model call on the owner's quota
+async function chargeRetry(ownerId?: string): Promise<boolean> {
+  if (!ownerId) return true;
+  const owner = getUser(ownerId);
+  return chargeDailyQuota(ownerId, owner ? getRoleLimits(owner.role).dailyAnalyses : 0);
+}
+
+async function processItem(jobId: string, itemId: string) {
+  const job = jobs().get(jobId);
+  const item = job?.items.find(i => i.id === itemId);
+  if (!job || !item) return;
+
+  const attempts = item.attempts + 1;
+  if (attempts > 1 && !(await chargeRetry(job.ownerId))) {
+    updateItem(jobId, itemId, { status: 'failed', error: `${item.error ?? 'Analysis failed'} (not retried: the daily quota is used up)` });
+    return;
+  }
+  updateItem(jobId, itemId, { status: 'running', attempts });
+  try {
+    const outcome = await analyzeWriting(getProvider(), item.request);
+    if (outcome.ok) {
+      updateItem(jobId, itemId, { status: 'succeeded', result: outcome.result, error: undefined });
+      return;
+    }
+    throw new Error(outcome.failure.message);
+  } catch (error) {
+    console.error(`Batch ${jobId} item ${item.name} attempt ${attempts} failed:`, error);
+    if (attempts < MAX_ATTEMPTS) {
+      updateItem(jobId, itemId, { status: 'queued', error: String(error) });
+      // Back off before retrying so a struggling provider gets some breathing room
+      setTimeout(() => enqueue(jobId, itemId), RETRY_BASE_MS * 2 ** (attempts - 1));
+    } else {
+      updateItem(jobId, itemId, { status: 'failed', error: String(error) });
+    }
+  }
+}
+
+function pump() {
+  const state = queue();
+  while (state.active < CONCURRENCY && state.pending.length > 0) {
+    const next = state.pending.shift()!;
+    state.active++;
+    processItem(next.jobId, next.itemId).finally(() => {
+      state.active--;
+      pump();
+    });
+  }
+}
+
+function enqueue(jobId: string, itemId: string) {
+  queue().pending.push({ jobId, itemId });
+  pump();
+}
+
+// Pick up items left unfinished by a restart
+function resumePendingJobs() {
+  const state = queue();
+  if (state.resumed) return;
+  state.resumed = true;
+  for (const job of jobs().find(j => j.status !== 'completed')) {
+    job.items
+      .filter(item => item.status === 'queued' || item.status === 'running')
+      .forEach(item => enqueue(job.id, item.id));
+  }
+}
+
+export interface BatchItemOptions {
+  // Extra per-script check, e.g. the owner's role limits; returns why the script may not run
+  checkItem?: (request: AnalysisRequest) => string | null;
+}
+
+// Validate every script up front; invalid ones are marked failed and the rest queued
+export function prepareBatchItems(inputs: BatchInput[], { checkItem }: BatchItemOptions = {}): BatchItem[] {
+  return inputs.map(input => {
+    const validation = validateAnalysisRequest(input.request);
+    const error = validation.ok ? checkItem?.(validation.request) ?? undefined : validation.problem.message;
+    return {
+      id: randomUUID(),
+      name: input.name,
+      request: validation.ok ? validation.request : (input.request as BatchItem['request']),
+      status: error ? 'failed' : 'queued',
+      attempts: 0,
+      error,
+    };
+  });
+}
+
+// Store the job and start on its queued items
+export function createBatchJob(items: BatchItem[], ownerId?: string): BatchJob {
+  resumePendingJobs();
+  const job = jobs().insert({
+    id: randomUUID(),
+    ownerId,
+    createdAt: new Date().toISOString(),
+    status: items.some(item => item.status === 'queued') ? 'queued' : 'completed',
+    items,
+  });
+  items.filter(item => item.status === 'queued').forEach(item => enqueue(job.id, item.id));
+  return job;
+}
+
+export function getBatchJob(id: string): BatchJob | undefined {
+  resumePendingJobs();
+  return jobs().get(id);
+}
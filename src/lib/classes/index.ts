@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import { Assignment, ClassInvitation, ClassReport, CorrectionCount, CriterionDistribution, SchoolClass, Submission } from '@/types';
+import { getCollection } from '@/lib/db';
+import { CRITERIA } from '@/lib/analysis';
+import { countErrorTypes, listAssignmentSubmissions } from '@/lib/submissions';
+
+// Criterion scores under this band are reported as below the level's standard
+export const DEFAULT_BAND = 3;
+
+const classes = () => getCollection<SchoolClass>('classes');
+const assignments = () => getCollection<Assignment>('assignments');
+
+// Students named at creation are only invited; they join the roster once they accept
+export function createClass(teacherId: string, name: string, studentIds: string[] = []): SchoolClass {
+  return classes().insert({
+    id: randomUUID(),
+    name,
+    teacherId,
+    studentIds: [],
+    invitedStudentIds: Array.from(new Set(studentIds)),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export function getClass(id: string): SchoolClass | undefined {
+  return classes().get(id);
+}
+
+export function listClasses(teacherId: string): SchoolClass[] {
+  return classes().find(c => c.teacherId === teacherId);
+}
+
+export function inviteStudents(classId: string, studentIds: string[]): SchoolClass | undefined {
+  const existing = getClass(classId);
+  if (!existing) return undefined;
+  const invited = studentIds.filter(id => !existing.studentIds.includes(id));
+  return classes().update(classId, {
+    invitedStudentIds: Array.from(new Set([...(existing.invitedStudentIds ?? []), ...invited])),
+  });
+}
+
+export function listInvitations(studentId: string): ClassInvitation[] {
+  return classes()
+    .find(c => c.invitedStudentIds?.includes(studentId) ?? false)
+    .map(c => ({ classId: c.id, className: c.name, teacherId: c.teacherId }));
+}
+
+// Moves an invited student onto the roster; undefined when there is no such invitation
+export function acceptInvitation(classId: string, studentId: string): SchoolClass | undefined {
+  const existing = getClass(classId);
+  if (!existing?.invitedStudentIds?.includes(studentId)) return undefined;
+  return classes().update(classId, {
+    studentIds: Array.from(new Set([...existing.studentIds, studentId])),
+    invitedStudentIds: existing.invitedStudentIds.filter(id => id !== studentId),
+  });
+}
+
+export function declineInvitation(classId: string, studentId: string): SchoolClass | undefined {
+  const existing = getClass(classId);
+  if (!existing?.invitedStudentIds?.includes(studentId)) return undefined;
+  return classes().update(classId, {
+    invitedStudentIds: existing.invitedStudentIds.filter(id => id !== studentId),
+  });
+}
+
+export function createAssignment(input: Omit<Assignment, 'id' | 'createdAt'>): Assignment {
+  return assignments().insert({ ...input, id: randomUUID(), createdAt: new Date().toISOString() });
+}
+
+export function getAssignment(id: string): Assignment | undefined {
+  return assignments().get(id);
+}
+
+export function listAssignments(classId: string): Assignment[] {
+  return assignments()
+    .find(a => a.classId === classId)
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
+}
+
+export function isLate(assignment: Assignment, at: Date = new Date()): boolean {
+  return at.getTime() > new Date(assignment.deadline).getTime();
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function criterionDistribution(name: string, latest: Submission[], band: number): CriterionDistribution {
+  const counts: Record<string, number> = {};
+  const scores: number[] = [];
+  const belowBand: string[] = [];
+  for (const submission of latest) {
+    const score = submission.result.criteria.find(c => c.name === name)?.score;
+    if (typeof score !== 'number') continue;
+    scores.push(score);
+    counts[String(score)] = (counts[String(score)] ?? 0) + 1;
+    if (score < band) belowBand.push(submission.studentId);
+  }
+  return {
+    name,
+    counts,
+    mean: scores.length ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0,
+    median: median(scores),
+    belowBand,
+  };
+}
+
+function countCorrections(latest: Submission[]): CorrectionCount[] {
+  const counts = new Map<string, CorrectionCount>();
+  for (const submission of latest) {
+    for (const error of submission.result.errors ?? []) {
+      const key = `${error.text.trim().toLowerCase()}→${error.correction.trim().toLowerCase()}`;
+      const entry = counts.get(key) ?? { text: error.text.trim(), correction: error.correction.trim(), type: error.type, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+export function buildClassReport(assignmentId: string, band: number = DEFAULT_BAND): ClassReport | undefined {
+  const assignment = getAssignment(assignmentId);
+  const schoolClass = assignment && getClass(assignment.classId);
+  if (!assignment || !schoolClass) return undefined;
+
+  // Resubmissions replace a student's earlier attempt
+  const latestByStudent = new Map<string, Submission>();
+  for (const submission of listAssignmentSubmissions(assignmentId)) {
+    latestByStudent.set(submission.studentId, submission);
+  }
+  const latest = Array.from(latestByStudent.values());
+
+  return {
+    assignment,
+    className: schoolClass.name,
+    band,
+    submitted: latest.length,
+    missing: schoolClass.studentIds.filter(id => !latestByStudent.has(id)),
+    late: latest.filter(s => s.late).map(s => s.studentId),
+    criteria: CRITERIA.map(name => criterionDistribution(name, latest, band)),
+    errorTypes: countErrorTypes(latest),
+    corrections: countCorrections(latest).slice(0, 20),
+    students: latest.map(s => ({
+      studentId: s.studentId,
+      submissionId: s.id,
+      criteria: Object.fromEntries(s.result.criteria.map(c => [c.name, c.score])),
+      score: s.result.score,
+    })),
+  };
+}
@@ -0,0 +1,72 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export interface StoredRecord {
+  id: string;
+}
+
+export interface Collection<T extends StoredRecord> {
+  all(): T[];
+  get(id: string): T | undefined;
+  find(predicate: (item: T) => boolean): T[];
+  findOne(predicate: (item: T) => boolean): T | undefined;
+  insert(item: T): T;
+  update(id: string, changes: Partial<T>): T | undefined;
+  remove(id: string): boolean;
+}
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+// A JSON file per collection, read once and written through atomically on every change
+export function createFileCollection<T extends StoredRecord>(name: string, dataDir: string = getDataDir()): Collection<T> {
+  const file = path.join(dataDir, `${name}.json`);
+  let items: Map<string, T> | null = null;
+
+  function load(): Map<string, T> {
+    if (!items) {
+      items = new Map();
+      if (existsSync(file)) {
+        const data: T[] = JSON.parse(readFileSync(file, 'utf8'));
+        data.forEach(item => items!.set(item.id, item));
+      }
+    }
+    return items;
+  }
+
+  function persist() {
+    mkdirSync(dataDir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(Array.from(load().values()), null, 2));
+    renameSync(tmp, file);
+  }
+
+  return {
+    all: () => Array.from(load().values()),
+    get: (id) => load().get(id),
+    find: (predicate) => Array.from(load().values()).filter(predicate),
+    findOne: (predicate) => Array.from(load().values()).find(predicate),
+    insert(item) {
+      if (load().has(item.id)) {
+        throw new Error(`${name}: record ${item.id} already exists`);
+      }
+      load().set(item.id, item);
+      persist();
+      return item;
+    },
+    update(id, changes) {
+      const existing = load().get(id);
+      if (!existing) return undefined;
+      const updated = { ...existing, ...changes, id };
+      load().set(id, updated);
+      persist();
+      return updated;
+    },
+    remove(id) {
+      const removed = load().delete(id);
+      if (removed) persist();
+      return removed;
+    },
+  };
+}
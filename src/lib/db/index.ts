@@ -0,0 +1,17 @@
+import { createFileCollection, Collection, StoredRecord } from './fileStore';
+
+export type { Collection, StoredRecord } from './fileStore';
+export { createFileCollection, getDataDir } from './fileStore';
+
+// One instance per collection name for the whole process, surviving Next.js dev reloads
+const globalCollections = globalThis as unknown as { __collections?: Map<string, Collection<StoredRecord>> };
+
+export function getCollection<T extends StoredRecord>(name: string): Collection<T> {
+  if (!globalCollections.__collections) globalCollections.__collections = new Map();
+  let collection = globalCollections.__collections.get(name);
+  if (!collection) {
+    collection = createFileCollection<StoredRecord>(name);
+    globalCollections.__collections.set(name, collection);
+  }
+  return collection as unknown as Collection<T>;
+}
@@ -0,0 +1,4 @@
+// Logging that may contain student writing or model output; off unless DEBUG_ANALYSIS is set
+export function debugLog(...args: unknown[]) {
+  if (process.env.DEBUG_ANALYSIS) console.log(...args);
+}
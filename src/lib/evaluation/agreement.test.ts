@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LanguageError } from '@/types';
+import { errorDetection, matchErrors, quadraticWeightedKappa, scoreAgreement } from './agreement';
+
+test('quadraticWeightedKappa is 1 for identical scores and -1 for opposite extremes', () => {
+  assert.equal(quadraticWeightedKappa([0, 2, 3, 5], [0, 2, 3, 5]), 1);
+  assert.equal(quadraticWeightedKappa([0, 5], [5, 0]), -1);
+});
+
+test('quadraticWeightedKappa weights disagreements by the square of their distance', () => {
+  // Observed disagreement 0.25 against 1.25 expected by chance on a 0-2 scale
+  assert.ok(Math.abs(quadraticWeightedKappa([0, 1, 2], [0, 2, 2], 2) - 0.8) < 1e-9);
+});
+
+test('quadraticWeightedKappa handles raters that never vary', () => {
+  assert.equal(quadraticWeightedKappa([3, 3], [3, 3]), 1);
+  assert.equal(quadraticWeightedKappa([3, 3], [4, 4]), 0);
+});
+
+test('scoreAgreement rounds averaged scores to bands but measures the error on the raw scores', () => {
+  assert.deepEqual(scoreAgreement([3, 4, 2, 5], [3, 3.6, 4, 5]), {
+    count: 4,
+    exact: 0.75,
+    adjacent: 0.75,
+    meanAbsoluteError: 0.6,
+    kappa: Math.round(quadraticWeightedKappa([3, 4, 2, 5], [3, 4, 4, 5]) * 1000) / 1000,
+  });
+  assert.deepEqual(scoreAgreement([], []), { count: 0, exact: 0, adjacent: 0, meanAbsoluteError: 0, kappa: 0 });
+});
+
+test('matchErrors matches located errors by overlap and the rest by their text', () => {
+  const writing = 'I goes to school yesterday and buyed a apple.';
+  const predicted = (text: string, located: boolean): LanguageError => {
+    const start = writing.indexOf(text);
+    return { text, correction: '', type: 'grammar', explanation: '', ...(located ? { start, end: start + text.length } : {}) };
+  };
+  const counts = matchErrors(
+    [{ text: 'goes', correction: 'went' }, { text: 'buyed', correction: 'bought' }, { text: 'a apple', correction: 'an apple' }],
+    [predicted('I goes', true), predicted('A  apple', false), predicted('yesterday', true)],
+    writing
+  );
+  assert.deepEqual(counts, { gold: 3, predicted: 3, found: 2, correct: 2 });
+});
+
+test('errorDetection pools the counts of every script', () => {
+  assert.deepEqual(
+    errorDetection([
+      { gold: 3, predicted: 3, found: 2, correct: 2 },
+      { gold: 1, predicted: 1, found: 1, correct: 1 },
+    ]),
+    { gold: 4, predicted: 4, matched: 3, precision: 0.75, recall: 0.75, f1: 0.75 }
+  );
+  assert.deepEqual(errorDetection([]), { gold: 0, predicted: 0, matched: 0, precision: 0, recall: 0, f1: 0 });
+});
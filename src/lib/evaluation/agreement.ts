@@ -0,0 +1,118 @@
+import { LanguageError } from '@/types';
+import { anchorErrors, foldText, isAnchored, TextRange } from '@/lib/anchoring';
+import { GoldError } from './corpus';
+
+export const MAX_SCORE = 5;
+
+// How closely predicted criterion scores follow the examiners' over a set of scripts
+export interface AgreementStats {
+  count: number;
+  // Share of scripts with the same score, and within one band
+  exact: number;
+  adjacent: number;
+  meanAbsoluteError: number;
+  // Quadratic weighted kappa over the 0-5 scale; 1 is perfect agreement, 0 is chance
+  kappa: number;
+}
+
+export interface ErrorDetectionStats {
+  gold: number;
+  predicted: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ErrorMatchCount {
+  gold: number;
+  predicted: number;
+  // Gold errors found by the model, and model errors that match a gold error (one gold error may cover several)
+  found: number;
+  correct: number;
+}
+
+// Rounded to three decimals so stored reports stay readable
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function quadraticWeightedKappa(gold: number[], predicted: number[], maxScore = MAX_SCORE): number {
+  const size = maxScore + 1;
+  const observed = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  gold.forEach((g, i) => observed[g][predicted[i]]++);
+  const goldTotals = observed.map(row => row.reduce((sum, n) => sum + n, 0));
+  const predictedTotals = observed[0].map((_, j) => observed.reduce((sum, row) => sum + row[j], 0));
+
+  let observedDisagreement = 0;
+  let expectedDisagreement = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const weight = (i - j) ** 2 / (size - 1) ** 2;
+      observedDisagreement += weight * observed[i][j];
+      expectedDisagreement += (weight * goldTotals[i] * predictedTotals[j]) / gold.length;
+    }
+  }
+  // Both raters gave a single score throughout: agreement is perfect or there is nothing to compare
+  if (expectedDisagreement === 0) return observedDisagreement === 0 ? 1 : 0;
+  return 1 - observedDisagreement / expectedDisagreement;
+}
+
+// Scores are compared as whole bands; averaged consensus scores are rounded first
+export function scoreAgreement(gold: number[], predicted: number[]): AgreementStats {
+  const bands = predicted.map(score => Math.min(Math.max(Math.round(score), 0), MAX_SCORE));
+  const count = gold.length;
+  if (count === 0) return { count, exact: 0, adjacent: 0, meanAbsoluteError: 0, kappa: 0 };
+  const differences = gold.map((g, i) => Math.abs(g - bands[i]));
+  return {
+    count,
+    exact: round(differences.filter(d => d === 0).length / count),
+    adjacent: round(differences.filter(d => d <= 1).length / count),
+    meanAbsoluteError: round(gold.reduce((sum, g, i) => sum + Math.abs(g - predicted[i]), 0) / count),
+    kappa: round(quadraticWeightedKappa(gold, bands)),
+  };
+}
+
+function sameText(a: string, b: string): boolean {
+  return foldText(a.trim()).text === foldText(b.trim()).text;
+}
+
+function overlaps(a: TextRange, b: TextRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// A model error matches a gold error when their located spans overlap, or by text when either could not be located
+function matches(gold: LanguageError, predicted: LanguageError): boolean {
+  if (isAnchored(gold) && isAnchored(predicted)) return overlaps(gold, predicted);
+  return sameText(gold.text, predicted.text);
+}
+
+export function matchErrors(goldErrors: GoldError[], predicted: LanguageError[], writing: string): ErrorMatchCount {
+  const gold = anchorErrors(
+    goldErrors.map(error => ({ ...error, type: error.category ?? 'unknown', explanation: '' })),
+    writing
+  );
+  return {
+    gold: gold.length,
+    predicted: predicted.length,
+    found: gold.filter(g => predicted.some(p => matches(g, p))).length,
+    correct: predicted.filter(p => gold.some(g => matches(g, p))).length,
+  };
+}
+
+export function errorDetection(counts: ErrorMatchCount[]): ErrorDetectionStats {
+  const gold = counts.reduce((sum, c) => sum + c.gold, 0);
+  const predicted = counts.reduce((sum, c) => sum + c.predicted, 0);
+  const found = counts.reduce((sum, c) => sum + c.found, 0);
+  const correct = counts.reduce((sum, c) => sum + c.correct, 0);
+  const precision = predicted > 0 ? correct / predicted : 0;
+  const recall = gold > 0 ? found / gold : 0;
+  return {
+    gold,
+    predicted,
+    matched: found,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+  };
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { AnalysisRequest, CriterionName, ErrorCategory, ExamLevel, TaskType } from '@/types';
+import { EXAM_LEVELS, getPartSpec, getTaskTypes } from '@/lib/exams';
+import { ERROR_CATEGORIES } from '@/lib/taxonomy';
+
+const score = z.number().int().min(0).max(5);
+
+// Taken from the exam profiles and the taxonomy so a corpus accepts exactly what the pipeline does
+const TASK_TYPES = Array.from(new Set(EXAM_LEVELS.flatMap(getTaskTypes)));
+
+// An error marked by the human examiner; context and sentence place it the same way as the model's errors
+const goldErrorSchema = z.object({
+  text: z.string().min(1),
+  correction: z.string().default(''),
+  category: z.enum(ERROR_CATEGORIES as [ErrorCategory, ...ErrorCategory[]]).optional(),
+  context: z.string().optional(),
+  sentence: z.number().int().positive().optional(),
+});
+
+const gradedScriptSchema = z.object({
+  id: z.string().min(1),
+  examLevel: z.enum(EXAM_LEVELS as [ExamLevel, ...ExamLevel[]]),
+  taskType: z.enum(TASK_TYPES as [TaskType, ...TaskType[]]),
+  taskPrompt: z.string().optional(),
+  contentPoints: z.array(z.string()).optional(),
+  firstLanguage: z.string().optional(),
+  writing: z.string().min(1),
+  scores: z.object({
+    Content: score,
+    'Communicative Achievement': score,
+    Organisation: score,
+    Language: score,
+  }),
+  // Left out when the script was scored but not annotated; it then does not count towards error detection
+  errors: z.array(goldErrorSchema).optional(),
+}).refine(script => getPartSpec(script.examLevel, script.taskType), script => ({
+  message: `${script.examLevel} has no ${script.taskType} task`,
+  path: ['taskType'],
+}));
+
+const corpusSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  scripts: z.array(gradedScriptSchema).min(1),
+});
+
+export interface GoldError {
+  text: string;
+  correction: string;
+  category?: ErrorCategory;
+  context?: string;
+  sentence?: number;
+}
+
+export interface GradedScript extends Pick<AnalysisRequest, 'examLevel' | 'taskType' | 'taskPrompt' | 'contentPoints' | 'firstLanguage' | 'writing'> {
+  id: string;
+  scores: Record<CriterionName, number>;
+  errors?: GoldError[];
+}
+
+export interface Corpus {
+  name: string;
+  description?: string;
+  scripts: GradedScript[];
+}
+
+// Read a corpus file: { name, description?, scripts: [{ id, examLevel, taskType, writing, scores, errors? }] }
+export function loadCorpus(path: string): Corpus {
+  const parsed = corpusSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Corpus ${path} is not valid:\n${issues.join('\n')}`);
+  }
+  const ids = parsed.data.scripts.map(script => script.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Corpus ${path} has more than one script with id "${duplicate}"`);
+  }
+  return parsed.data;
+}
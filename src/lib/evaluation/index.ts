@@ -0,0 +1,10 @@
+export { loadCorpus } from './corpus';
+export type { Corpus, GoldError, GradedScript } from './corpus';
+export { errorDetection, matchErrors, quadraticWeightedKappa, scoreAgreement, MAX_SCORE } from './agreement';
+export type { AgreementStats, ErrorDetectionStats, ErrorMatchCount } from './agreement';
+export { evaluateCorpus } from './run';
+export type { EvaluateOptions, EvaluationReport, ScriptOutcome } from './run';
+export { loadRecording, recordReplies, replayProvider, saveRecording } from './recording';
+export type { Recording } from './recording';
+export { compareReports, findReport, listReports, saveReport, DEFAULT_TOLERANCE } from './reports';
+export type { MetricChange, ReportComparison } from './reports';
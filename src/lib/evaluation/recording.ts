@@ -0,0 +1,46 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { createMockProvider, LLMProvider } from '@/lib/llm';
+
+// Raw examiner replies captured from a real model, so a corpus can be re-scored offline
+export interface Recording {
+  corpus: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  // Replies per script id in the order the model gave them, repair attempts included
+  replies: Record<string, string[]>;
+}
+
+export function loadRecording(path: string): Recording {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  const replies = data?.replies;
+  if (!replies || typeof replies !== 'object' || !Object.values(replies).every(r => Array.isArray(r) && r.every(item => typeof item === 'string'))) {
+    throw new Error(`Recording ${path} must have "replies": an object of script ids to arrays of strings`);
+  }
+  return data as Recording;
+}
+
+export function saveRecording(path: string, recording: Recording) {
+  writeFileSync(path, JSON.stringify(recording, null, 2) + '\n');
+}
+
+// Passes every call through to the provider and keeps the replies
+export function recordReplies(provider: LLMProvider, replies: string[]): LLMProvider {
+  return {
+    name: provider.name,
+    settings: provider.settings,
+    async complete(messages, options) {
+      const reply = await provider.complete(messages, options);
+      replies.push(reply);
+      return reply;
+    },
+  };
+}
+
+// Replays one script's recorded replies in order; null when the script was not recorded
+export function replayProvider(recording: Recording, scriptId: string): LLMProvider | null {
+  const replies = recording.replies[scriptId];
+  if (!replies) return null;
+  return createMockProvider(replies, { model: recording.model, temperature: 0, maxTokens: 1000 });
+}
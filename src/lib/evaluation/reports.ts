@@ -0,0 +1,77 @@
+import { CriterionName } from '@/types';
+import { getCollection } from '@/lib/db';
+import { CRITERIA } from '@/lib/analysis';
+import { EvaluationReport } from './run';
+
+export interface MetricChange {
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  // Worse than the baseline by more than the tolerance
+  regression: boolean;
+}
+
+export interface ReportComparison {
+  baseline: string;
+  current: string;
+  changes: MetricChange[];
+  regressions: MetricChange[];
+}
+
+// Scores and detection rates may drop by this much before a comparison counts as a regression
+export const DEFAULT_TOLERANCE = 0.02;
+
+const reports = () => getCollection<EvaluationReport>('evaluations');
+
+export function saveReport(report: EvaluationReport): EvaluationReport {
+  return reports().insert(report);
+}
+
+// Oldest first
+export function listReports(): EvaluationReport[] {
+  return reports()
+    .all()
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// By id, unique id prefix, or "latest"
+export function findReport(ref: string): EvaluationReport | undefined {
+  const all = listReports();
+  if (ref === 'latest') return all[all.length - 1];
+  const exact = all.find(r => r.id === ref);
+  if (exact) return exact;
+  const matches = all.filter(r => r.id.startsWith(ref));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+function change(metric: string, baseline: number, current: number, lowerIsBetter: boolean, tolerance: number): MetricChange {
+  const delta = Math.round((current - baseline) * 1000) / 1000;
+  return { metric, baseline, current, delta, regression: lowerIsBetter ? delta > tolerance : delta < -tolerance };
+}
+
+// Metric-by-metric differences between two runs; MAE should go down, everything else up
+export function compareReports(baseline: EvaluationReport, current: EvaluationReport, tolerance = DEFAULT_TOLERANCE): ReportComparison {
+  const groups: Array<[string, EvaluationReport['overall'], EvaluationReport['overall']]> = [
+    ['overall', baseline.overall, current.overall],
+    ...CRITERIA.map((name: CriterionName): [string, EvaluationReport['overall'], EvaluationReport['overall']] => [
+      name,
+      baseline.criteria[name],
+      current.criteria[name],
+    ]),
+  ];
+  const changes = groups.flatMap(([group, before, after]) => [
+    change(`${group} exact`, before.exact, after.exact, false, tolerance),
+    change(`${group} adjacent`, before.adjacent, after.adjacent, false, tolerance),
+    change(`${group} MAE`, before.meanAbsoluteError, after.meanAbsoluteError, true, tolerance),
+    change(`${group} kappa`, before.kappa, after.kappa, false, tolerance),
+  ]);
+  changes.push(
+    change('error precision', baseline.errorDetection.precision, current.errorDetection.precision, false, tolerance),
+    change('error recall', baseline.errorDetection.recall, current.errorDetection.recall, false, tolerance),
+    change('error F1', baseline.errorDetection.f1, current.errorDetection.f1, false, tolerance),
+    // Scripts that stop producing a result are a regression whatever the tolerance
+    change('completed scripts', baseline.completed, current.completed, false, 0)
+  );
+  return { baseline: baseline.id, current: current.id, changes, regressions: changes.filter(c => c.regression) };
+}
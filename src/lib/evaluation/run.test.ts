@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { evaluateCorpus } from './run';
+import { loadCorpus } from './corpus';
+import { loadRecording, replayProvider } from './recording';
+
+// The bundled corpus replayed from its recording; a change to the parser, scoring or error matching that moves
+// these numbers should be deliberate, and the recording re-made with it
+test('sample-1 replayed from its recording reproduces the known agreement', async () => {
+  const corpus = loadCorpus(join(__dirname, 'corpus/sample-1.json'));
+  const recording = loadRecording(join(__dirname, 'recordings/sample-1.json'));
+  const report = await evaluateCorpus(corpus, script => replayProvider(recording, script.id), { provider: 'replay', model: recording.model });
+
+  assert.equal(report.completed, 6);
+  assert.deepEqual(report.overall, { count: 24, exact: 0.667, adjacent: 1, meanAbsoluteError: 0.333, kappa: 0.749 });
+  assert.deepEqual(report.criteria, {
+    Content: { count: 6, exact: 1, adjacent: 1, meanAbsoluteError: 0, kappa: 1 },
+    'Communicative Achievement': { count: 6, exact: 0.5, adjacent: 1, meanAbsoluteError: 0.5, kappa: 0.667 },
+    Organisation: { count: 6, exact: 0.667, adjacent: 1, meanAbsoluteError: 0.333, kappa: 0.538 },
+    Language: { count: 6, exact: 0.5, adjacent: 1, meanAbsoluteError: 0.5, kappa: 0.571 },
+  });
+  assert.deepEqual(report.errorDetection, { gold: 9, predicted: 8, matched: 6, precision: 0.75, recall: 0.667, f1: 0.706 });
+});
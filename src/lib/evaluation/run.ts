@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { AnalysisRequest, CriterionName } from '@/types';
+import { LLMProvider } from '@/lib/llm';
+import { analyzeWriting, AnalysisOutcome, CRITERIA, PROMPT_VERSION, validateAnalysisRequest } from '@/lib/analysis';
+import { getRubric } from '@/lib/rubrics';
+import { AgreementStats, errorDetection, ErrorDetectionStats, ErrorMatchCount, matchErrors, scoreAgreement } from './agreement';
+import { Corpus, GradedScript } from './corpus';
+
+export interface ScriptOutcome {
+  id: string;
+  gold: Record<CriterionName, number>;
+  // Absent when the pipeline gave no result; failure then says why
+  predicted?: Record<CriterionName, number>;
+  // Absent when the script has no gold error annotations
+  errors?: ErrorMatchCount;
+  failure?: string;
+}
+
+export interface EvaluationReport {
+  id: string;
+  createdAt: string;
+  label?: string;
+  corpus: { name: string; scripts: number };
+  promptVersion: string;
+  rubricVersion: string;
+  provider: string;
+  model: string;
+  // Scripts that produced a result; agreement is measured over these only
+  completed: number;
+  criteria: Record<CriterionName, AgreementStats>;
+  // Every criterion score of every completed script pooled together
+  overall: AgreementStats;
+  errorDetection: ErrorDetectionStats;
+  scripts: ScriptOutcome[];
+}
+
+export interface EvaluateOptions {
+  label?: string;
+  // Independent assessments per script, combined as in the app
+  samples?: number;
+  // Called after each script, e.g. to print progress
+  onScript?: (outcome: ScriptOutcome, index: number) => void;
+}
+
+function toRequest(script: GradedScript, samples: number): Partial<AnalysisRequest> {
+  const { examLevel, taskType, taskPrompt, contentPoints, firstLanguage, writing } = script;
+  return { examLevel, taskType, taskPrompt, contentPoints, firstLanguage, writing, samples };
+}
+
+async function evaluateScript(script: GradedScript, provider: LLMProvider | null, samples: number): Promise<ScriptOutcome> {
+  const outcome: ScriptOutcome = { id: script.id, gold: script.scores };
+  if (!provider) return { ...outcome, failure: 'No provider for this script (not in the recording).' };
+
+  const validation = validateAnalysisRequest(toRequest(script, samples));
+  if (!validation.ok) return { ...outcome, failure: validation.problem.message };
+
+  let analysis: AnalysisOutcome;
+  try {
+    analysis = await analyzeWriting(provider, validation.request);
+  } catch (err) {
+    return { ...outcome, failure: `Provider error: ${(err as Error).message}` };
+  }
+  if (!analysis.ok) return { ...outcome, failure: analysis.failure.message };
+
+  const { result } = analysis;
+  const predicted = Object.fromEntries(
+    CRITERIA.map(name => [name, result.criteria.find(c => c.name === name)?.score ?? 0])
+  ) as Record<CriterionName, number>;
+  return {
+    ...outcome,
+    predicted,
+    ...(script.errors ? { errors: matchErrors(script.errors, result.errors ?? [], script.writing) } : {}),
+  };
+}
+
+// Run every script through the analysis pipeline one at a time and measure agreement with the examiners
+export async function evaluateCorpus(
+  corpus: Corpus,
+  providerFor: (script: GradedScript) => LLMProvider | null,
+  source: { provider: string; model: string },
+  { label, samples = 1, onScript }: EvaluateOptions = {}
+): Promise<EvaluationReport> {
+  const scripts: ScriptOutcome[] = [];
+  for (const script of corpus.scripts) {
+    const outcome = await evaluateScript(script, providerFor(script), samples);
+    scripts.push(outcome);
+    onScript?.(outcome, scripts.length - 1);
+  }
+
+  const completed = scripts.filter(s => s.predicted);
+  const criteria = Object.fromEntries(
+    CRITERIA.map(name => [name, scoreAgreement(completed.map(s => s.gold[name]), completed.map(s => s.predicted![name]))])
+  ) as Record<CriterionName, AgreementStats>;
+
+  return {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...(label ? { label } : {}),
+    corpus: { name: corpus.name, scripts: corpus.scripts.length },
+    promptVersion: PROMPT_VERSION,
+    rubricVersion: getRubric().version,
+    provider: source.provider,
+    model: source.model,
+    completed: completed.length,
+    criteria,
+    overall: scoreAgreement(
+      completed.flatMap(s => CRITERIA.map(name => s.gold[name])),
+      completed.flatMap(s => CRITERIA.map(name => s.predicted![name]))
+    ),
+    errorDetection: errorDetection(completed.flatMap(s => (s.errors ? [s.errors] : []))),
+    scripts,
+  };
+}
@@ -0,0 +1,20 @@
+import { LengthCheck } from '@/types';
+import { WordRange } from './profiles';
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+export function checkLength(wordCount: number, { min, max }: WordRange): LengthCheck {
+  const status = wordCount < min ? 'under' : wordCount > max ? 'over' : 'within';
+  return { wordCount, min, max, status };
+}
+
+// Submissions outside these bounds are too far from the task to assess at all
+export function hardWordLimits({ min, max }: WordRange): WordRange {
+  return { min: Math.round(min / 2), max: max * 2 };
+}
+
+export function maxCharacters(range: WordRange): number {
+  return hardWordLimits(range).max * 8;
+}
@@ -0,0 +1,70 @@
+import { ExamLevel, TaskPart, TaskType } from '@/types';
+
+export interface WordRange {
+  min: number;
+  max: number;
+}
+
+export interface PartSpec {
+  part: TaskPart;
+  description: string;
+  taskTypes: TaskType[];
+  wordRange: WordRange;
+}
+
+export interface ExamProfile {
+  level: ExamLevel;
+  name: string;
+  cefr: 'B2' | 'C1' | 'C2';
+  parts: PartSpec[];
+}
+
+// Cambridge English Qualifications writing papers
+export const EXAM_PROFILES: Record<ExamLevel, ExamProfile> = {
+  FCE: {
+    level: 'FCE',
+    name: 'B2 First',
+    cefr: 'B2',
+    parts: [
+      { part: 1, description: 'Compulsory essay giving an opinion on the topic and two prompted notes, plus an idea of the candidate\'s own', taskTypes: ['Essay'], wordRange: { min: 140, max: 190 } },
+      { part: 2, description: 'One situationally based task chosen from several genres', taskTypes: ['Article', 'Email', 'Letter', 'Report', 'Review'], wordRange: { min: 140, max: 190 } },
+    ],
+  },
+  CAE: {
+    level: 'CAE',
+    name: 'C1 Advanced',
+    cefr: 'C1',
+    parts: [
+      { part: 1, description: 'Compulsory essay discussing two of three given points and the opinions provided', taskTypes: ['Essay'], wordRange: { min: 220, max: 260 } },
+      { part: 2, description: 'One situationally based task chosen from several genres', taskTypes: ['Email', 'Letter', 'Proposal', 'Report', 'Review'], wordRange: { min: 220, max: 260 } },
+    ],
+  },
+  CPE: {
+    level: 'CPE',
+    name: 'C2 Proficiency',
+    cefr: 'C2',
+    parts: [
+      { part: 1, description: 'Compulsory essay summarising and evaluating the key points of two short texts', taskTypes: ['Essay'], wordRange: { min: 240, max: 280 } },
+      { part: 2, description: 'One situationally based task chosen from several genres', taskTypes: ['Article', 'Letter', 'Report', 'Review'], wordRange: { min: 280, max: 320 } },
+    ],
+  },
+};
+
+export const EXAM_LEVELS = Object.keys(EXAM_PROFILES) as ExamLevel[];
+
+export function isExamLevel(value: unknown): value is ExamLevel {
+  return typeof value === 'string' && Object.hasOwn(EXAM_PROFILES, value);
+}
+
+export function getExamProfile(level: ExamLevel): ExamProfile {
+  return EXAM_PROFILES[level];
+}
+
+// The part of the paper a task type belongs to at this level, or undefined if the level does not set it
+export function getPartSpec(level: ExamLevel, taskType: TaskType): PartSpec | undefined {
+  return EXAM_PROFILES[level]?.parts.find(part => part.taskTypes.includes(taskType));
+}
+
+export function getTaskTypes(level: ExamLevel): TaskType[] {
+  return EXAM_PROFILES[level].parts.flatMap(part => part.taskTypes);
+}
@@ -0,0 +1,57 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findPhrase, findSalutation, findSignOff, finding, quote } from './conventions';
+import { titleFinding } from './report';
+
+const HOOK_PATTERNS = [
+  /[^.!?]*\?/,
+  /[^.!?]*!/,
+  /\b(imagine|picture\s+this|have\s+you\s+ever|did\s+you\s+know|what\s+would\s+you|when\s+was\s+the\s+last\s+time)\b/i,
+  /\b(you|your)\b/i,
+];
+
+const READER_PATTERN = /\b(you|your|yourself|we|us|let's)\b/i;
+
+const CLOSING_PATTERNS = [
+  /[^.!?]*\?/,
+  /\b(so\s+(why\s+not|next\s+time)|why\s+not|give\s+it\s+a\s+try|think\s+about|remember|after\s+all|in\s+the\s+end|who\s+knows)\b/i,
+];
+
+// An eye-catching title and opening, a voice that speaks to the reader and an ending that leaves them thinking
+export function checkArticle(text: string): GenreFinding[] {
+  const paragraphs = bodyParagraphs(text);
+  const hook = findPhrase(text, HOOK_PATTERNS, paragraphs.slice(0, 1));
+  const reader = findPhrase(text, [READER_PATTERN], paragraphs);
+  const closing = paragraphs.length > 1 ? findPhrase(text, CLOSING_PATTERNS, paragraphs.slice(-1)) : undefined;
+  const formulas = [findSalutation(text), findSignOff(text)].filter(Boolean);
+
+  return [
+    titleFinding(text, 'article'),
+    finding(
+      'hook',
+      'Opening that draws the reader in',
+      !!hook,
+      hook ? `The opening engages the reader: ${quote(hook)}.` : 'The opening does not draw the reader in with a question, an anecdote or a direct appeal.',
+      hook
+    ),
+    finding(
+      'reader',
+      'Addresses the reader directly',
+      !!reader,
+      reader ? 'Speaks to the reader directly.' : 'Never addresses the reader ("you", "we"); an article talks to its audience.',
+      reader
+    ),
+    finding(
+      'closing',
+      'Ending that leaves the reader thinking',
+      !!closing,
+      closing ? `The ending leaves the reader with a thought: ${quote(closing)}.` : 'The ending does not leave the reader with a question, a suggestion or something to think about.',
+      closing
+    ),
+    finding(
+      'no-formulas',
+      'No letter formulas',
+      formulas.length === 0,
+      formulas.length === 0 ? 'No greeting or sign-off.' : `An article has no greeting or sign-off: ${formulas.map(f => quote(f!)).join(', ')}.`
+    ),
+  ];
+}
@@ -0,0 +1,130 @@
+import { GenreFinding } from '@/types';
+import { Span, splitParagraphs } from '@/lib/metrics/text';
+
+export type Salutation = Span & { kind: 'unnamed' | 'named' | 'informal' };
+export type SignOff = Span & { kind: 'faithfully' | 'sincerely' | 'neutral' | 'informal' };
+
+const SALUTATIONS: Array<[RegExp, Salutation['kind']]> = [
+  [/^(dear\s+(sir\s+or\s+madam|sir|madam|sirs|sir\/madam)|to\s+whom\s+it\s+may\s+concern)\b/i, 'unnamed'],
+  [/^dear\s+(mr|mrs|ms|miss|dr|professor|prof)\.?\s+\S+/i, 'named'],
+  [/^(dear|hi|hello|hey|good\s+(morning|afternoon|evening))\b/i, 'informal'],
+];
+
+const SIGN_OFFS: Array<[RegExp, SignOff['kind']]> = [
+  [/^yours\s+faithfully\b/i, 'faithfully'],
+  [/^(yours\s+sincerely|sincerely(\s+yours)?|yours\s+truly)\b/i, 'sincerely'],
+  [/^((kind|best|warm|warmest)\s+regards|regards|best\s+wishes|with\s+best\s+wishes)\b/i, 'neutral'],
+  [/^(love|lots\s+of\s+love|all\s+the\s+best|cheers|take\s+care|see\s+you(\s+soon)?|speak\s+soon|bye(\s+for\s+now)?|best|xx?)\b/i, 'informal'],
+];
+
+// Features that mark writing as informal: contractions, chatty words and doubled punctuation
+const INFORMAL_PATTERN = new RegExp(
+  [
+    "\\b\\w+(n't|'re|'ll|'ve|'m|'d)\\b",
+    "\\b(it|that|there|here|what|who|he|she|let)'s\\b",
+    '\\b(gonna|wanna|gotta|kinda|sorta|stuff|kids|guys|awesome|cool|okay|ok|yeah|yep|nope|loads of|lots of|a bit|pretty much|anyway|btw|lol)\\b',
+    '[!?]{2,}',
+  ].join('|'),
+  'gi'
+);
+
+// Non-empty lines with their positions, trimmed
+export function lines(text: string): Span[] {
+  return Array.from(text.matchAll(/[^\n]+/g), match => {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    return { text: trimmed, start: match.index! + leading, end: match.index! + leading + trimmed.length };
+  }).filter(line => line.text);
+}
+
+// A short line without closing punctuation that something follows, e.g. "Recommendations" or "1. Introduction:"
+function isHeadingLine(line: Span, next: Span | undefined): boolean {
+  const words = line.text.split(/\s+/).length;
+  return (
+    !!next &&
+    words <= 8 &&
+    /^[A-Z0-9"'‘“]/.test(line.text) &&
+    !/[.,;!?]["'’”]?$/.test(line.text) &&
+    !SALUTATIONS.some(([pattern]) => pattern.test(line.text)) &&
+    !SIGN_OFFS.some(([pattern]) => pattern.test(line.text))
+  );
+}
+
+// The first line when it reads as a title
+export function findTitle(text: string): Span | undefined {
+  const all = lines(text);
+  return all.length > 1 && isHeadingLine(all[0], all[1]) ? all[0] : undefined;
+}
+
+// Heading lines after the title
+export function findHeadings(text: string): Span[] {
+  const all = lines(text);
+  return all.filter((line, i) => i > 0 && isHeadingLine(line, all[i + 1]));
+}
+
+// Body paragraphs, leaving out the title, headings, letter formulas and the name under the sign-off
+export function bodyParagraphs(text: string): Span[] {
+  const signOff = findSignOff(text);
+  const formulas = new Set([findTitle(text), ...findHeadings(text), findSalutation(text)].flatMap(span => (span ? [span.start] : [])));
+  return splitParagraphs(text).flatMap(paragraph => {
+    const kept = lines(paragraph.text)
+      .map(line => ({ ...line, start: line.start + paragraph.start, end: line.end + paragraph.start }))
+      .filter(line => !formulas.has(line.start) && !(signOff && line.start >= signOff.start));
+    if (kept.length === 0) return [];
+    const { start } = kept[0];
+    const { end } = kept[kept.length - 1];
+    return [{ text: text.slice(start, end), start, end }];
+  });
+}
+
+export function findSalutation(text: string): Salutation | undefined {
+  const first = lines(text)[0];
+  if (!first) return undefined;
+  const match = SALUTATIONS.find(([pattern]) => pattern.test(first.text));
+  return match ? { ...first, kind: match[1] } : undefined;
+}
+
+// Closing formula among the last lines, above the writer's name
+export function findSignOff(text: string): SignOff | undefined {
+  for (const line of lines(text).slice(-4)) {
+    const match = SIGN_OFFS.find(([pattern]) => pattern.test(line.text));
+    if (match && line.text.split(/\s+/).length <= 5) return { ...line, kind: match[1] };
+  }
+  return undefined;
+}
+
+// First match of any of the patterns, searched within the given spans (the whole text by default)
+export function findPhrase(text: string, patterns: RegExp[], within: Span[] = [{ text, start: 0, end: text.length }]): Span | undefined {
+  for (const span of within) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(span.text);
+      if (match) return { text: match[0], start: span.start + match.index, end: span.start + match.index + match[0].length };
+    }
+  }
+  return undefined;
+}
+
+export function informalFeatures(text: string): string[] {
+  return Array.from(text.replace(/’/g, "'").matchAll(INFORMAL_PATTERN), match => match[0]);
+}
+
+export function finding(id: string, label: string, met: boolean, detail: string, evidence?: Span): GenreFinding {
+  return { id, label, met, detail, ...(evidence ? { start: evidence.start, end: evidence.end } : {}) };
+}
+
+// Shared check that a formal genre keeps to a formal register; genre reads with its article, e.g. "an essay"
+export function formalRegister(text: string, genre: string): GenreFinding {
+  const informal = informalFeatures(text);
+  return finding(
+    'register',
+    'Formal register',
+    informal.length <= 1,
+    informal.length <= 1
+      ? `No more than one informal feature, as ${genre} needs.`
+      : `${informal.length} informal features for ${genre}: ${Array.from(new Set(informal.map(f => f.toLowerCase()))).slice(0, 5).join(', ')}.`
+  );
+}
+
+export function quote(span: Span, max = 60): string {
+  return `"${span.text.length > max ? `${span.text.slice(0, max).trimEnd()}...` : span.text}"`;
+}
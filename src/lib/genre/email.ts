@@ -0,0 +1,37 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findPhrase, findSalutation, finding, quote } from './conventions';
+import { REASON_PATTERNS, registerMatchFinding, salutationFinding, signOffFinding } from './letter';
+
+const NEXT_STEP_PATTERNS = [
+  /\b(I\s+)?look(ing)?\s+forward\s+to\b/i,
+  /\b(let\s+me\s+know|get\s+back\s+to\s+me|write\s+back|hear\s+from\s+you|drop\s+me\s+a\s+line)\b/i,
+  /\b(please\s+(do\s+not|don't)\s+hesitate|feel\s+free)\s+to\s+contact\b/i,
+  /\b(see\s+you|speak\s+soon|talk\s+soon)\b/i,
+];
+
+// A greeting and sign-off that suit the relationship, a clear opening and a closing that looks ahead
+export function checkEmail(text: string): GenreFinding[] {
+  const paragraphs = bodyParagraphs(text);
+  const opening = findPhrase(text, REASON_PATTERNS, paragraphs.slice(0, 1));
+  const nextStep = findPhrase(text, NEXT_STEP_PATTERNS, paragraphs.slice(-1));
+
+  return [
+    salutationFinding(text, 'Greeting'),
+    signOffFinding(text, 'Sign-off'),
+    finding(
+      'opening',
+      'Opening that states or acknowledges the reason for writing',
+      !!opening,
+      opening ? `The opening sets up the email: ${quote(opening)}.` : 'The first paragraph does not acknowledge the message being answered or say why the writer is writing.',
+      opening
+    ),
+    finding(
+      'next-step',
+      'Closing that looks ahead',
+      !!nextStep,
+      nextStep ? `The closing anticipates a reply or next step: ${quote(nextStep)}.` : 'The last paragraph does not anticipate a reply or next step (e.g. "I look forward to hearing from you").',
+      nextStep
+    ),
+    registerMatchFinding(text, findSalutation(text), 'email'),
+  ];
+}
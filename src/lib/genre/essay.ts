@@ -0,0 +1,55 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findHeadings, findPhrase, findSalutation, findSignOff, finding, formalRegister, quote } from './conventions';
+
+const THESIS_PATTERNS = [
+  /\bI\s+(firmly\s+|strongly\s+|would\s+)?(believe|think|feel|argue|maintain|agree|disagree|am\s+convinced)\b/i,
+  /\b(in\s+my\s+(view|opinion)|from\s+my\s+point\s+of\s+view|it\s+seems\s+to\s+me|personally)\b/i,
+  /\bthis\s+essay\s+(will|argues|examines|discusses|considers|sets\s+out)\b/i,
+  /\b(the\s+(question|issue)\s+is\s+whether|it\s+(could|can)\s+be\s+argued\s+that)\b/i,
+];
+
+const CONCLUSION_PATTERNS = [
+  /\b(in\s+conclusion|to\s+conclude|to\s+sum\s+up|in\s+summary|all\s+in\s+all|on\s+balance|all\s+things\s+considered|taking\s+everything\s+into\s+(account|consideration)|ultimately|overall)\b/i,
+];
+
+// An argued answer: a position in the introduction, developed in the body and drawn together at the end
+export function checkEssay(text: string): GenreFinding[] {
+  const paragraphs = bodyParagraphs(text);
+  const introduction = paragraphs.slice(0, 1);
+  const conclusion = paragraphs.length > 1 ? paragraphs.slice(-1) : [];
+  const thesis = findPhrase(text, THESIS_PATTERNS, introduction);
+  const closing = findPhrase(text, CONCLUSION_PATTERNS, conclusion);
+  const formulas = [findSalutation(text), findSignOff(text), ...findHeadings(text)].filter(Boolean);
+
+  return [
+    finding(
+      'thesis',
+      'Clear position in the introduction',
+      !!thesis,
+      thesis ? `The introduction states a position: ${quote(thesis)}.` : 'The introduction does not say what the essay will argue or where the writer stands.',
+      thesis
+    ),
+    finding(
+      'conclusion',
+      'Conclusion that answers the question',
+      !!closing,
+      closing
+        ? `The last paragraph draws the argument together: ${quote(closing)}.`
+        : 'The last paragraph does not signal a conclusion (e.g. "In conclusion", "On balance") or weigh up the argument.',
+      closing
+    ),
+    finding(
+      'paragraphs',
+      'Introduction, body and conclusion',
+      paragraphs.length >= 3,
+      `${paragraphs.length} paragraph${paragraphs.length === 1 ? '' : 's'}${paragraphs.length >= 3 ? '' : '; an essay needs an introduction, at least one body paragraph and a conclusion'}.`
+    ),
+    finding(
+      'no-formulas',
+      'No headings or letter formulas',
+      formulas.length === 0,
+      formulas.length === 0 ? 'No headings, greetings or sign-off.' : `An essay has no headings, greetings or sign-off: ${formulas.map(f => quote(f!)).join(', ')}.`
+    ),
+    formalRegister(text, 'an essay'),
+  ];
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenreFinding } from '@/types';
+import { checkGenre } from './index';
+import { bodyParagraphs, findHeadings, findTitle } from './conventions';
+
+const met = (findings: GenreFinding[]) => Object.fromEntries(findings.map(f => [f.id, f.met]));
+
+const ESSAY = `In my opinion, public transport should be free for everyone.
+
+First of all, free buses would reduce traffic in city centres. Fewer cars also means cleaner air.
+
+On the other hand, someone has to pay for the service, and taxes might rise.
+
+In conclusion, the benefits outweigh the costs.`;
+
+const REPORT = `Improving the college library
+
+Introduction
+The aim of this report is to assess the library and suggest improvements.
+
+Opening hours
+Most students said the library closes too early.
+
+Recommendations
+I would recommend opening the library until 9 p.m. on weekdays.`;
+
+test('bodyParagraphs leaves out the title and headings of a report', () => {
+  assert.equal(findTitle(REPORT)?.text, 'Improving the college library');
+  assert.deepEqual(findHeadings(REPORT).map(h => h.text), ['Introduction', 'Opening hours', 'Recommendations']);
+  assert.deepEqual(bodyParagraphs(REPORT).map(p => p.text), [
+    'The aim of this report is to assess the library and suggest improvements.',
+    'Most students said the library closes too early.',
+    'I would recommend opening the library until 9 p.m. on weekdays.',
+  ]);
+});
+
+test('checkGenre finds the position, conclusion and paragraphing of an essay', () => {
+  const findings = checkGenre(ESSAY, 'Essay').findings;
+  assert.deepEqual(met(findings), { thesis: true, conclusion: true, paragraphs: true, 'no-formulas': true, register: true });
+  const thesis = findings.find(f => f.id === 'thesis')!;
+  assert.equal(ESSAY.slice(thesis.start, thesis.end), 'In my opinion');
+});
+
+test('checkGenre flags an essay written like an informal letter', () => {
+  const findings = checkGenre("Hi Tom,\nI think it's gonna be awesome, isn't it??\nCheers,\nAnna", 'Essay').findings;
+  assert.deepEqual(met(findings), { thesis: true, conclusion: false, paragraphs: false, 'no-formulas': false, register: false });
+});
+
+test('checkGenre finds the aim, headings and recommendations of a report', () => {
+  assert.deepEqual(met(checkGenre(REPORT, 'Report').findings), { title: true, aim: true, headings: true, recommendation: true, register: true });
+});
+
+test('checkGenre checks that a letter closes the way it opens', () => {
+  const letter = (opening: string, closing: string) =>
+    met(checkGenre(`${opening}\n\nI am writing to complain about my order.\n\n${closing}\nAnna Kowalska`, 'Letter').findings);
+  assert.deepEqual(letter('Dear Sir or Madam,', 'Yours faithfully,'), {
+    salutation: true, 'sign-off': true, 'formulas-match': true, reason: true, register: true,
+  });
+  assert.equal(letter('Dear Sir or Madam,', 'Yours sincerely,')['formulas-match'], false);
+  assert.equal(letter('Dear Mr Brown,', 'Kind regards,')['formulas-match'], true);
+  assert.equal(letter('Hi Tom,', 'Yours faithfully,')['formulas-match'], false);
+});
@@ -0,0 +1,28 @@
+import { GenreCheck, GenreFinding, TaskType } from '@/types';
+import { checkArticle } from './article';
+import { checkEmail } from './email';
+import { checkEssay } from './essay';
+import { checkLetter } from './letter';
+import { checkProposal } from './proposal';
+import { checkReport } from './report';
+import { checkReview } from './review';
+
+// Bump whenever a checker's rules change, so cached assessments made with the old findings are not reused
+export const GENRE_RULES_VERSION = 'genre-1';
+
+export { checkArticle, checkEmail, checkEssay, checkLetter, checkProposal, checkReport, checkReview };
+
+// One rule-based checker per task type; each returns its findings in the order they are shown
+export const GENRE_CHECKERS: Record<TaskType, (text: string) => GenreFinding[]> = {
+  Essay: checkEssay,
+  Article: checkArticle,
+  Email: checkEmail,
+  Letter: checkLetter,
+  Report: checkReport,
+  Review: checkReview,
+  Proposal: checkProposal,
+};
+
+export function checkGenre(text: string, taskType: TaskType): GenreCheck {
+  return { taskType, findings: GENRE_CHECKERS[taskType](text) };
+}
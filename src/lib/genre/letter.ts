@@ -0,0 +1,91 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findPhrase, findSalutation, findSignOff, finding, formalRegister, informalFeatures, quote, Salutation, SignOff } from './conventions';
+
+export const REASON_PATTERNS = [
+  /\bI\s+am\s+writing\s+(to|in|with|about|regarding|because)\b/i,
+  /\bI\s+(would\s+like|wish|want)\s+to\s+(apply|complain|express|inform|ask|enquire|request|respond|draw|comment|thank|tell)\b/i,
+  /\b(with\s+reference\s+to|in\s+response\s+to|further\s+to|regarding|following)\b/i,
+  /\b(thanks|thank\s+you)\s+(so\s+much\s+)?for\s+(your|the)\b/i,
+  /\bjust\s+(a\s+quick\s+)?(writing|wanted|to\s+let\s+you\s+know)\b/i,
+];
+
+// Closing formulas that go with each kind of opening
+const MATCHING_SIGN_OFFS: Record<Salutation['kind'], SignOff['kind'][]> = {
+  unnamed: ['faithfully'],
+  named: ['sincerely', 'neutral'],
+  informal: ['informal', 'neutral'],
+};
+
+export function salutationFinding(text: string, label = 'Opening formula'): GenreFinding {
+  const salutation = findSalutation(text);
+  return finding(
+    'salutation',
+    label,
+    !!salutation,
+    salutation ? `Opens with ${quote(salutation)}.` : 'No opening formula such as "Dear Sir or Madam" or "Dear Ms Smith" on the first line.',
+    salutation
+  );
+}
+
+export function signOffFinding(text: string, label = 'Closing formula'): GenreFinding {
+  const signOff = findSignOff(text);
+  return finding(
+    'sign-off',
+    label,
+    !!signOff,
+    signOff ? `Closes with ${quote(signOff)}.` : 'No closing formula such as "Yours faithfully", "Yours sincerely" or "Best wishes" above the name.',
+    signOff
+  );
+}
+
+// Informal features are expected with an informal greeting and out of place with a formal one
+export function registerMatchFinding(text: string, salutation: Salutation | undefined, genre: string): GenreFinding {
+  const informal = informalFeatures(text);
+  if (!salutation || salutation.kind !== 'informal') {
+    return { ...formalRegister(text, `a formal ${genre}`), label: 'Register matches the opening' };
+  }
+  return finding(
+    'register',
+    'Register matches the opening',
+    true,
+    informal.length > 0
+      ? `An informal opening with an informal register (${Array.from(new Set(informal.map(f => f.toLowerCase()))).slice(0, 3).join(', ')}).`
+      : 'An informal opening; a friendly, neutral register suits it.'
+  );
+}
+
+// Formulas that match each other, the reason for writing up front and a register that fits the reader
+export function checkLetter(text: string): GenreFinding[] {
+  const salutation = findSalutation(text);
+  const signOff = findSignOff(text);
+  const reason = findPhrase(text, REASON_PATTERNS, bodyParagraphs(text).slice(0, 1));
+  const matching = !!salutation && !!signOff && MATCHING_SIGN_OFFS[salutation.kind].includes(signOff.kind);
+
+  return [
+    salutationFinding(text),
+    signOffFinding(text),
+    finding(
+      'formulas-match',
+      'Opening and closing match',
+      matching,
+      !salutation || !signOff
+        ? 'Both an opening and a closing formula are needed to match them.'
+        : matching
+          ? `${quote(salutation)} goes with ${quote(signOff)}.`
+          : salutation.kind === 'unnamed'
+            ? `A letter to an unnamed reader (${quote(salutation)}) closes with "Yours faithfully", not ${quote(signOff)}.`
+            : salutation.kind === 'named'
+              ? `A letter to a named reader (${quote(salutation)}) closes with "Yours sincerely" or "Kind regards", not ${quote(signOff)}.`
+              : `An informal opening (${quote(salutation)}) does not go with ${quote(signOff)}.`,
+      signOff
+    ),
+    finding(
+      'reason',
+      'Reason for writing in the first paragraph',
+      !!reason,
+      reason ? `The first paragraph gives the reason for writing: ${quote(reason)}.` : 'The first paragraph does not say why the writer is writing (e.g. "I am writing to...").',
+      reason
+    ),
+    registerMatchFinding(text, salutation, 'letter'),
+  ];
+}
@@ -0,0 +1,44 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findPhrase, finding, formalRegister, quote } from './conventions';
+import { headingsFinding, recommendationFinding, titleFinding } from './report';
+
+const PURPOSE_PATTERNS = [
+  /\b(the\s+)?(aim|purpose|objective)\s+of\s+this\s+proposal\b/i,
+  /\bthis\s+proposal\s+(aims|is\s+intended|sets\s+out|will|outlines|presents|puts\s+forward|suggests|describes)\b/i,
+  /\bI\s+(would\s+like\s+to|wish\s+to|am\s+writing\s+to)\s+(propose|put\s+forward|suggest)\b/i,
+];
+
+const PERSUASION_PATTERNS = [
+  /\bI\s+am\s+(confident|convinced|certain|sure)\b/i,
+  /\b(would|will)\s+(greatly\s+|significantly\s+|certainly\s+)?(benefit|improve|enhance|ensure|help|attract|encourage)\b/i,
+  /\bI\s+(strongly\s+)?(urge|recommend)\b/i,
+];
+
+// A plan put to a committee: purpose, headed suggestions and a persuasive close
+export function checkProposal(text: string): GenreFinding[] {
+  const paragraphs = bodyParagraphs(text);
+  const purpose = findPhrase(text, PURPOSE_PATTERNS, paragraphs.slice(0, 2));
+  const persuasion = findPhrase(text, PERSUASION_PATTERNS, paragraphs.slice(-1));
+  return [
+    titleFinding(text, 'proposal'),
+    finding(
+      'purpose',
+      'Statement of purpose',
+      !!purpose,
+      purpose ? `The introduction states the purpose: ${quote(purpose)}.` : 'The introduction does not state what the proposal is for (e.g. "The purpose of this proposal is to...").',
+      purpose
+    ),
+    headingsFinding(text, 'proposal'),
+    recommendationFinding(text, 'proposal'),
+    finding(
+      'persuasion',
+      'Persuasive conclusion',
+      !!persuasion,
+      persuasion
+        ? `The conclusion argues for the plan: ${quote(persuasion)}.`
+        : 'The conclusion does not argue for the plan by pointing to its benefits.',
+      persuasion
+    ),
+    formalRegister(text, 'a proposal'),
+  ];
+}
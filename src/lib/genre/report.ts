@@ -0,0 +1,70 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findHeadings, findPhrase, findTitle, finding, formalRegister, quote } from './conventions';
+
+const AIM_PATTERNS = [
+  /\b(the\s+)?(aim|purpose|objective)\s+of\s+this\s+report\b/i,
+  /\bthis\s+report\s+(aims|is\s+intended|sets\s+out|will|describes|examines|outlines|looks\s+at|presents|evaluates|considers|is\s+based)\b/i,
+];
+
+export const RECOMMENDATION_HEADING = /\b(recommend\w*|conclusions?|suggestions?|proposals?|way\s+forward)\b/i;
+
+export const RECOMMENDATION_PATTERNS = [
+  /\b(I|we)\s+(would\s+)?(strongly\s+)?(recommend|suggest|propose|advise)\b/i,
+  /\b(it\s+is|it\s+would\s+be)\s+(recommended|advisable|wise|a\s+good\s+idea)\b/i,
+  /\b(should|ought\s+to)\s+be\s+(introduced|considered|improved|replaced|extended|offered|provided)\b/i,
+];
+
+// Headings found, or why there are too few
+export function headingsFinding(text: string, genre: string): GenreFinding {
+  const headings = findHeadings(text);
+  return finding(
+    'headings',
+    'Section headings',
+    headings.length >= 2,
+    headings.length >= 2
+      ? `${headings.length} section headings: ${headings.map(h => h.text).join('; ')}.`
+      : `${headings.length === 0 ? 'No' : 'Only one'} section heading${headings.length === 0 ? 's' : ''}; a ${genre} is divided into headed sections.`,
+    headings[0]
+  );
+}
+
+export function titleFinding(text: string, genre: string): GenreFinding {
+  const title = findTitle(text);
+  return finding('title', 'Title', !!title, title ? `Titled ${quote(title)}.` : `No title on the first line; a ${genre} starts with one.`, title);
+}
+
+// A recommendations section, or recommending language in the closing paragraphs
+export function recommendationFinding(text: string, genre: string): GenreFinding {
+  const heading = findHeadings(text).find(h => RECOMMENDATION_HEADING.test(h.text));
+  const phrase = findPhrase(text, RECOMMENDATION_PATTERNS, bodyParagraphs(text).slice(-2));
+  const evidence = heading ?? phrase;
+  return finding(
+    'recommendation',
+    'Recommendations',
+    !!evidence,
+    heading
+      ? `Recommendations under the heading ${quote(heading)}.`
+      : phrase
+        ? `The closing section recommends action: ${quote(phrase)}.`
+        : `No recommendation section or recommending language at the end; a ${genre} closes with recommendations that follow from it.`,
+    evidence
+  );
+}
+
+// Factual findings for a superior, headed sections and recommendations at the end
+export function checkReport(text: string): GenreFinding[] {
+  const aim = findPhrase(text, AIM_PATTERNS, bodyParagraphs(text).slice(0, 2));
+  return [
+    titleFinding(text, 'report'),
+    finding(
+      'aim',
+      'Statement of aim',
+      !!aim,
+      aim ? `The introduction states the aim: ${quote(aim)}.` : 'The introduction does not state the aim of the report (e.g. "The aim of this report is to...").',
+      aim
+    ),
+    headingsFinding(text, 'report'),
+    recommendationFinding(text, 'report'),
+    formalRegister(text, 'a report'),
+  ];
+}
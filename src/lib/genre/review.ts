@@ -0,0 +1,50 @@
+import { GenreFinding } from '@/types';
+import { bodyParagraphs, findPhrase, finding, quote } from './conventions';
+import { titleFinding } from './report';
+
+const EVALUATIVE_PATTERN =
+  /\b(brilliant|outstanding|superb|excellent|impressive|memorable|moving|gripping|compelling|captivating|stunning|breathtaking|delightful|enjoyable|entertaining|fascinating|thought-provoking|hilarious|original|convincing|well-written|well-acted|disappointing|dull|boring|predictable|tedious|weak|overrated|unconvincing|forgettable|mediocre|clichéd|far-fetched|poor|slow|confusing|highlight|drawback|downside|strength|weakness|flaw)\b/gi;
+
+const RECOMMENDATION_PATTERNS = [
+  /\b(I\s+)?(would\s+)?(highly\s+|thoroughly\s+|strongly\s+|definitely\s+)?(recommend|suggest)\b/i,
+  /\b(is|are)\s+(well\s+)?worth\s+(a\s+visit|seeing|reading|watching|trying|buying|the\s+(money|trip|price))\b/i,
+  /\b(ideal|perfect|suitable|great)\s+for\b/i,
+  /\b(give\s+it\s+a\s+miss|avoid\s+it|don't\s+miss\s+it|do\s+not\s+miss\s+it|a\s+must[-\s](see|read|visit))\b/i,
+  /\b(if\s+you\s+(like|enjoy|love|are\s+looking\s+for))\b/i,
+];
+
+const MIN_EVALUATIVE = 3;
+
+// Description balanced with evaluation, ending with a recommendation for the reader
+export function checkReview(text: string): GenreFinding[] {
+  const paragraphs = bodyParagraphs(text);
+  const evaluative = Array.from(new Set(Array.from(text.matchAll(EVALUATIVE_PATTERN), match => match[0].toLowerCase())));
+  const recommendation = findPhrase(text, RECOMMENDATION_PATTERNS, paragraphs.slice(-2));
+
+  return [
+    titleFinding(text, 'review'),
+    finding(
+      'evaluation',
+      'Evaluation, not only description',
+      evaluative.length >= MIN_EVALUATIVE,
+      evaluative.length >= MIN_EVALUATIVE
+        ? `Evaluates with words such as ${evaluative.slice(0, 5).join(', ')}.`
+        : `Little evaluative language${evaluative.length ? ` (${evaluative.join(', ')})` : ''}; a review judges strengths and weaknesses as well as describing.`
+    ),
+    finding(
+      'recommendation',
+      'Recommendation to the reader',
+      !!recommendation,
+      recommendation
+        ? `The ending recommends: ${quote(recommendation)}.`
+        : 'The ending does not recommend it or say who it would suit (e.g. "I would recommend it to...", "It is ideal for...").',
+      recommendation
+    ),
+    finding(
+      'paragraphs',
+      'Introduction, description, evaluation and recommendation',
+      paragraphs.length >= 3,
+      `${paragraphs.length} paragraph${paragraphs.length === 1 ? '' : 's'}${paragraphs.length >= 3 ? '' : '; a review needs separate paragraphs for introducing, describing, evaluating and recommending'}.`
+    ),
+  ];
+}
@@ -0,0 +1,49 @@
+import { ErrorCategory } from '@/types';
+import { classifyErrorType, ERROR_TAXONOMY, errorTypeLabel } from '@/lib/taxonomy';
+import { en, MessageKey, Messages } from './messages/en';
+import { de } from './messages/de';
+import { es } from './messages/es';
+import { pl } from './messages/pl';
+
+export { FIRST_LANGUAGES, getFirstLanguage } from './languages';
+export type { FirstLanguage } from './languages';
+export type { MessageKey, Messages } from './messages/en';
+
+const MESSAGES = { en, de, es, pl } satisfies Record<string, Messages>;
+
+export type UiLocale = keyof typeof MESSAGES;
+
+export const UI_LOCALES: Array<{ code: UiLocale; name: string }> = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'es', name: 'Español' },
+  { code: 'pl', name: 'Polski' },
+];
+
+export function isUiLocale(code: unknown): code is UiLocale {
+  return typeof code === 'string' && Object.hasOwn(MESSAGES, code);
+}
+
+// First supported locale among the browser's preferred languages ("de-AT" matches "de")
+export function matchUiLocale(preferred: readonly string[]): UiLocale {
+  return preferred.map(tag => tag.split('-')[0].toLowerCase()).find(isUiLocale) ?? 'en';
+}
+
+export interface Translator {
+  locale: UiLocale;
+  t(key: MessageKey, params?: Record<string, string | number>): string;
+  categoryLabel(category: ErrorCategory): string;
+  typeLabel(type: string): string;
+}
+
+export function getTranslator(locale: UiLocale = 'en'): Translator {
+  const messages: Messages = MESSAGES[locale] ?? en;
+  return {
+    locale,
+    t: (key, params = {}) =>
+      (messages[key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)),
+    categoryLabel: category => messages[`category.${category}`] ?? ERROR_TAXONOMY[category].label,
+    // Types outside the taxonomy keep the examiner's label
+    typeLabel: type => messages[`type.${classifyErrorType(type).type}`] ?? errorTypeLabel(type),
+  };
+}
@@ -0,0 +1,191 @@
+export interface FirstLanguage {
+  // ISO 639-1 code
+  code: string;
+  name: string;
+  nativeName: string;
+  // Interference errors speakers of this language typically make in English, quoted in the examiner prompt
+  interference: string[];
+}
+
+export const FIRST_LANGUAGES: FirstLanguage[] = [
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    interference: [
+      'missing forms of "be" in the present ("She very happy")',
+      'resumptive pronouns in relative clauses ("the book that I read it")',
+      'overuse of "and" to join long chains of clauses',
+      'vowel spelling errors and b/p confusion',
+    ],
+  },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    interference: [
+      'missing or random articles, since Chinese has none',
+      'missing plural -s and third-person -s, since nouns and verbs do not inflect',
+      'tense left unmarked when time is clear from context',
+      'topic-comment sentences and "although ... but" / "because ... so" pairs',
+    ],
+  },
+  {
+    code: 'cs',
+    name: 'Czech',
+    nativeName: 'Čeština',
+    interference: [
+      'missing or misused articles, since Czech has none',
+      'free word order carried into English',
+      'false friends such as "actual" (current), "eventually" (possibly) and "sympathetic" (likeable)',
+      'double negatives ("I don\'t know nothing")',
+    ],
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    interference: [
+      'present perfect used for finished past time ("I have seen him yesterday")',
+      'verb-second and verb-final word order',
+      'false friends such as "eventually" (possibly) and "become" (get)',
+      'commas before "that" clauses',
+    ],
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    interference: [
+      'definite article with general nouns ("The life is difficult")',
+      'present or present perfect instead of "for/since" with the present perfect ("I live here since 2010")',
+      'false friends such as "actually" (currently), "eventually" (possibly) and "assist" (attend)',
+      'adjective placement and plural adjectives',
+    ],
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    interference: [
+      'present perfect used for finished past time ("I have seen him yesterday")',
+      'verb-second and verb-final word order ("Yesterday went I", "because I him saw")',
+      'false friends such as "become" (get), "actual" (current) and "eventually" (possibly)',
+      'commas before "that" clauses and capitalised nouns',
+    ],
+  },
+  {
+    code: 'el',
+    name: 'Greek',
+    nativeName: 'Ελληνικά',
+    interference: [
+      'definite article with general and abstract nouns',
+      'dropped subject pronouns ("Is very important")',
+      'tense and aspect confusion between simple past and present perfect',
+      'false friends such as "sympathetic" (likeable)',
+    ],
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    interference: [
+      'definite article with general nouns ("The people are friendly" for people in general)',
+      'dropped subject pronouns, especially "it" ("Is important to...")',
+      'false friends such as "actually" (currently), "eventually" (possibly) and "sensible" (sensitive)',
+      'present tense with "since/for" instead of the present perfect',
+    ],
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    interference: [
+      'missing or random articles and plural -s',
+      'verb-final word order and dropped subjects',
+      'l/r spelling confusion',
+      'overly indirect or abrupt register',
+    ],
+  },
+  {
+    code: 'ko',
+    name: 'Korean',
+    nativeName: '한국어',
+    interference: [
+      'missing or random articles and plural -s',
+      'verb-final word order and dropped subjects and objects',
+      'subject-verb agreement',
+      'tense consistency across a paragraph',
+    ],
+  },
+  {
+    code: 'pl',
+    name: 'Polish',
+    nativeName: 'Polski',
+    interference: [
+      'missing or overused articles, since Polish has none',
+      'free word order carried into English',
+      'false friends such as "actual" (current), "eventually" (possibly), "sympathetic" (likeable) and "pathetic" (solemn)',
+      'double negatives and present tense for ongoing periods ("I live here for two years")',
+    ],
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    interference: [
+      'definite article with general nouns',
+      'dropped subject pronouns, especially "it"',
+      'false friends such as "pretend" (intend), "push" (pull) and "actually" (currently)',
+      'uncountable nouns made plural ("informations", "advices")',
+    ],
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    interference: [
+      'missing or overused articles, since Russian has none',
+      'missing forms of "be" in the present',
+      'present tense for ongoing periods ("I live here for two years")',
+      'false friends such as "accurate" (tidy), "magazine" (shop) and "sympathetic" (likeable)',
+    ],
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    interference: [
+      'definite article with general nouns ("The life is hard")',
+      'dropped subject pronouns, especially "it" ("Is important to...")',
+      'false friends such as "actually" (currently), "assist" (attend), "embarrassed" (pregnant) and "sensible" (sensitive)',
+      'adjective placement, plural adjectives and "make/do" and "say/tell" confusion',
+    ],
+  },
+  {
+    code: 'tr',
+    name: 'Turkish',
+    nativeName: 'Türkçe',
+    interference: [
+      'missing or random articles, since Turkish has none',
+      'verb-final word order',
+      'he/she/it confusion, since Turkish has one third-person pronoun',
+      'missing forms of "be" and prepositions',
+    ],
+  },
+  {
+    code: 'uk',
+    name: 'Ukrainian',
+    nativeName: 'Українська',
+    interference: [
+      'missing or overused articles, since Ukrainian has none',
+      'missing forms of "be" in the present',
+      'present tense for ongoing periods ("I live here for two years")',
+      'false friends such as "accurate" (tidy) and "magazine" (shop)',
+    ],
+  },
+];
+
+export function getFirstLanguage(code: string | undefined): FirstLanguage | undefined {
+  return FIRST_LANGUAGES.find(language => language.code === code);
+}
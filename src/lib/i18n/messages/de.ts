@@ -0,0 +1,96 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  signInToAnalyze: 'Bitte melde dich an, um deinen Text analysieren zu lassen.',
+  studentId: 'Schüler-ID',
+  studentIdHint: '(optional, speichert diesen Text im {history} eines Schülers aus deinen Klassen)',
+  historyLink: 'Verlauf',
+  examLevel: 'Prüfungsniveau',
+  taskType: 'Aufgabentyp',
+  partOption: 'Teil {part} ({min}-{max} Wörter)',
+  firstLanguage: 'Deine Muttersprache',
+  firstLanguageHint: '(optional, Erklärungen und Vorschläge erhältst du in dieser Sprache)',
+  firstLanguageNone: 'Keine Angabe (Feedback auf Englisch)',
+  interfaceLanguage: 'Sprache der Oberfläche',
+  taskPrompt: 'Aufgabenstellung',
+  taskPromptPlaceholder: 'Füge die Aufgabe ein, die du beantwortet hast...',
+  contentPoints: 'Inhaltspunkte',
+  contentPointsHint: '(optional, einer pro Zeile)',
+  contentPointsPlaceholder: 'z. B. Describe the facilities\nSuggest one improvement',
+  yourWriting: 'Dein Text',
+  writingPlaceholder: 'Füge deinen Text hier ein...',
+  wordCount: 'Wortanzahl: {count}',
+  wordTarget: '(Ziel {min}-{max})',
+  tooShort: 'Dein Text enthält nur {count} Wörter. {exam} verlangt für diese Aufgabe {min}-{max} Wörter; die Prüferin oder der Prüfer berücksichtigt die fehlende Länge.',
+  tooLong: 'Dein Text enthält {count} Wörter. {exam} verlangt für diese Aufgabe {min}-{max} Wörter; die Prüferin oder der Prüfer berücksichtigt die zusätzliche Länge.',
+  consistencyCheck: 'Konsistenzprüfung',
+  samplesOff: 'Aus (eine Bewertung)',
+  samplesCount: '{count} unabhängige Bewertungen',
+  combineBy: 'Punkte zusammenfassen per',
+  median: 'Median',
+  mean: 'Mittelwert',
+  analyze: 'Text analysieren',
+  analyzing: 'Wird analysiert...',
+  tryAgainIn: 'Erneut versuchen in {time}',
+  cancel: 'Abbrechen',
+  enterWriting: 'Bitte gib deinen Text ein',
+  analyzeFailed: 'Der Text konnte nicht analysiert werden. Bitte versuche es erneut.',
+  connectionClosed: 'Die Verbindung wurde vor dem Ende der Analyse geschlossen. Angezeigt wird das bisher erhaltene Feedback; es wurde nicht gespeichert.',
+  cancelled: 'Analyse abgebrochen. Angezeigt wird das bisher erhaltene Feedback; es wurde nicht gespeichert.',
+  connectionLost: 'Die Verbindung ist vor dem Ende der Analyse abgebrochen. Angezeigt wird das bisher erhaltene Feedback; es wurde nicht gespeichert.',
+  metricsFallback: 'Dein Text konnte gerade nicht bewertet werden, daher gibt es keine Punkte. Diese Messwerte wurden lokal berechnet und helfen trotzdem beim Überarbeiten.',
+  saved: 'In deinem {history} gespeichert.',
+  savedAsRevision: 'In deinem {history} als Überarbeitung deines vorherigen Entwurfs gespeichert; dort kannst du beide Entwürfe vergleichen.',
+  cachedResult: 'Dieser Text wurde am {time} bereits mit denselben Einstellungen bewertet. Diese Bewertung wird angezeigt, und es wurde keine Analyse verbraucht.',
+  analyzeAgain: 'Erneut analysieren',
+  submissionHistoryLink: 'Verlauf',
+
+  errorAnalysis: 'Fehleranalyse',
+  errorTypes: 'Fehlerarten',
+  clickToToggle: '(zum Ein- und Ausblenden klicken)',
+  otherErrors: 'Sonstige',
+  impedesCommunication: 'Behindert das Verständnis',
+  lowAgreement: 'Geringe Übereinstimmung zwischen den Bewertungen',
+  outsideTaxonomy: 'Nicht in der Fehlersystematik; so übernommen, wie es bezeichnet wurde',
+  notLocated: 'Im Text nicht gefunden',
+  errorOfType: 'Fehler: {type}',
+  change: 'Änderung:',
+  flaggedInRuns: 'In {percent} % der Bewertungen markiert',
+
+  // Wortschatzansicht
+  modeErrors: 'Fehler',
+  modeVocabulary: 'Wortschatz',
+  vocabularyAnalysis: 'Wortschatzniveau',
+  wordLevels: 'GER-Niveau jedes Wortes (Anteil der Inhaltswörter)',
+  overusedWord: 'Zu oft verwendetes einfaches Wort',
+  overusedTimes: '„{word}“ ({level}) {count}-mal verwendet',
+  tryInstead: 'Stattdessen:',
+  noAlternative: 'Keine anspruchsvollere Alternative passt in diesen Satz.',
+
+  'category.grammar': 'Grammatik',
+  'category.vocabulary': 'Wortschatz',
+  'category.spelling': 'Rechtschreibung',
+  'category.punctuation': 'Zeichensetzung',
+  'category.style': 'Stil',
+  'type.tense': 'Zeitform',
+  'type.verb-form': 'Verbform',
+  'type.agreement': 'Kongruenz',
+  'type.article': 'Artikel',
+  'type.preposition': 'Präposition',
+  'type.word-order': 'Wortstellung',
+  'type.plural': 'Zählbarkeit / Plural',
+  'type.pronoun': 'Pronomen',
+  'type.sentence-structure': 'Satzbau',
+  'type.word-choice': 'Wortwahl',
+  'type.collocation': 'Kollokation',
+  'type.word-form': 'Wortform',
+  'type.idiom': 'Redewendung / Phrasal Verb',
+  'type.spelling': 'Rechtschreibung',
+  'type.comma': 'Komma',
+  'type.apostrophe': 'Apostroph',
+  'type.capitalisation': 'Groß- und Kleinschreibung',
+  'type.run-on': 'Satzverbindung / Satzfragment',
+  'type.register': 'Register',
+  'type.redundancy': 'Redundanz',
+  'type.cohesion': 'Kohäsion',
+};
@@ -0,0 +1,75 @@
+// Interface strings of the analyzer; placeholders in braces are filled in by the translator
+export const en = {
+  // Writing analyzer
+  signInToAnalyze: 'Please sign in to analyze your writing.',
+  studentId: 'Student ID',
+  studentIdHint: '(optional, saves this script to the {history} of a student on your rosters)',
+  historyLink: 'history',
+  examLevel: 'Exam Level',
+  taskType: 'Task Type',
+  partOption: 'Part {part} ({min}-{max} words)',
+  firstLanguage: 'Your First Language',
+  firstLanguageHint: '(optional, explanations and suggestions are given in this language)',
+  firstLanguageNone: 'Not specified (feedback in English)',
+  interfaceLanguage: 'Interface Language',
+  taskPrompt: 'Task Prompt',
+  taskPromptPlaceholder: 'Paste the question you answered...',
+  contentPoints: 'Content Points',
+  contentPointsHint: '(optional, one per line)',
+  contentPointsPlaceholder: 'e.g. Describe the facilities\nSuggest one improvement',
+  yourWriting: 'Your Writing',
+  writingPlaceholder: 'Paste your writing here...',
+  wordCount: 'Word count: {count}',
+  wordTarget: '(target {min}-{max})',
+  tooShort: 'Your writing contains only {count} words. {exam} asks for {min}-{max} words for this task; the examiner will take the shortfall into account.',
+  tooLong: 'Your writing contains {count} words. {exam} asks for {min}-{max} words for this task; the examiner will take the extra length into account.',
+  consistencyCheck: 'Consistency check',
+  samplesOff: 'Off (single assessment)',
+  samplesCount: '{count} independent assessments',
+  combineBy: 'Combine scores by',
+  median: 'Median',
+  mean: 'Mean',
+  analyze: 'Analyze Writing',
+  analyzing: 'Analyzing...',
+  tryAgainIn: 'Try again in {time}',
+  cancel: 'Cancel',
+  enterWriting: 'Please enter your writing sample',
+  analyzeFailed: 'Failed to analyze writing. Please try again.',
+  connectionClosed: 'The connection closed before the analysis finished. Showing the feedback received so far; it was not saved.',
+  cancelled: 'Analysis cancelled. Showing the feedback received so far; it was not saved.',
+  connectionLost: 'The connection was lost before the analysis finished. Showing the feedback received so far; it was not saved.',
+  metricsFallback: 'The examiner could not assess your writing right now, so no scores are available. These measurements were made locally and can still guide a revision.',
+  saved: 'Saved to your {history}.',
+  savedAsRevision: 'Saved to your {history} as a revision of your previous draft; compare the two drafts there.',
+  cachedResult: 'This text was already assessed with the same settings on {time}, so that assessment is shown and no analysis was used up.',
+  analyzeAgain: 'Analyze again',
+  submissionHistoryLink: 'submission history',
+
+  // Error highlighter
+  errorAnalysis: 'Error Analysis',
+  errorTypes: 'Error Types',
+  clickToToggle: '(click to show or hide)',
+  otherErrors: 'Other',
+  impedesCommunication: 'Impedes communication',
+  lowAgreement: 'Low agreement between runs',
+  outsideTaxonomy: 'Not in the error taxonomy; kept as the examiner labelled it',
+  notLocated: 'Not located in text',
+  errorOfType: '{type} error',
+  change: 'Change:',
+  flaggedInRuns: 'Flagged in {percent}% of examiner runs',
+
+  // Vocabulary view of the highlighter
+  modeErrors: 'Errors',
+  modeVocabulary: 'Vocabulary',
+  vocabularyAnalysis: 'Vocabulary Levels',
+  wordLevels: 'CEFR level of each word (share of content words)',
+  overusedWord: 'Overused low-level word',
+  overusedTimes: '"{word}" ({level}) used {count} times',
+  tryInstead: 'Try instead:',
+  noAlternative: 'No higher-level alternative fits this sentence.',
+};
+
+export type MessageKey = keyof typeof en;
+
+// Every interface string, plus optional names for the error categories and types ("category.grammar", "type.tense")
+export type Messages = Record<MessageKey, string> & Partial<Record<`category.${string}` | `type.${string}`, string>>;
@@ -0,0 +1,96 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  signInToAnalyze: 'Inicia sesión para analizar tu texto.',
+  studentId: 'ID del estudiante',
+  studentIdHint: '(opcional, guarda este texto en el {history} de un estudiante de tus grupos)',
+  historyLink: 'historial',
+  examLevel: 'Nivel del examen',
+  taskType: 'Tipo de tarea',
+  partOption: 'Parte {part} ({min}-{max} palabras)',
+  firstLanguage: 'Tu lengua materna',
+  firstLanguageHint: '(opcional, las explicaciones y sugerencias se dan en esta lengua)',
+  firstLanguageNone: 'Sin indicar (comentarios en inglés)',
+  interfaceLanguage: 'Idioma de la interfaz',
+  taskPrompt: 'Enunciado de la tarea',
+  taskPromptPlaceholder: 'Pega la pregunta que has respondido...',
+  contentPoints: 'Puntos de contenido',
+  contentPointsHint: '(opcional, uno por línea)',
+  contentPointsPlaceholder: 'p. ej. Describe the facilities\nSuggest one improvement',
+  yourWriting: 'Tu texto',
+  writingPlaceholder: 'Pega tu texto aquí...',
+  wordCount: 'Número de palabras: {count}',
+  wordTarget: '(objetivo {min}-{max})',
+  tooShort: 'Tu texto tiene solo {count} palabras. {exam} pide {min}-{max} palabras para esta tarea; el examinador tendrá en cuenta la falta de extensión.',
+  tooLong: 'Tu texto tiene {count} palabras. {exam} pide {min}-{max} palabras para esta tarea; el examinador tendrá en cuenta la extensión adicional.',
+  consistencyCheck: 'Comprobación de consistencia',
+  samplesOff: 'Desactivada (una sola evaluación)',
+  samplesCount: '{count} evaluaciones independientes',
+  combineBy: 'Combinar puntuaciones por',
+  median: 'Mediana',
+  mean: 'Media',
+  analyze: 'Analizar texto',
+  analyzing: 'Analizando...',
+  tryAgainIn: 'Vuelve a intentarlo en {time}',
+  cancel: 'Cancelar',
+  enterWriting: 'Introduce tu texto',
+  analyzeFailed: 'No se ha podido analizar el texto. Inténtalo de nuevo.',
+  connectionClosed: 'La conexión se cerró antes de terminar el análisis. Se muestran los comentarios recibidos hasta ahora; no se han guardado.',
+  cancelled: 'Análisis cancelado. Se muestran los comentarios recibidos hasta ahora; no se han guardado.',
+  connectionLost: 'Se perdió la conexión antes de terminar el análisis. Se muestran los comentarios recibidos hasta ahora; no se han guardado.',
+  metricsFallback: 'Ahora mismo no se ha podido evaluar tu texto, así que no hay puntuaciones. Estas medidas se han calculado localmente y pueden ayudarte a revisarlo.',
+  saved: 'Guardado en tu {history}.',
+  savedAsRevision: 'Guardado en tu {history} como revisión de tu borrador anterior; allí puedes comparar los dos borradores.',
+  cachedResult: 'Este texto ya se evaluó con la misma configuración el {time}, así que se muestra esa evaluación y no se ha gastado ningún análisis.',
+  analyzeAgain: 'Analizar de nuevo',
+  submissionHistoryLink: 'historial de entregas',
+
+  errorAnalysis: 'Análisis de errores',
+  errorTypes: 'Tipos de error',
+  clickToToggle: '(haz clic para mostrar u ocultar)',
+  otherErrors: 'Otros',
+  impedesCommunication: 'Dificulta la comprensión',
+  lowAgreement: 'Poco acuerdo entre evaluaciones',
+  outsideTaxonomy: 'No está en la clasificación de errores; se mantiene la etiqueta del examinador',
+  notLocated: 'No localizados en el texto',
+  errorOfType: 'Error de {type}',
+  change: 'Cambio:',
+  flaggedInRuns: 'Señalado en el {percent} % de las evaluaciones',
+
+  // Vista de vocabulario
+  modeErrors: 'Errores',
+  modeVocabulary: 'Vocabulario',
+  vocabularyAnalysis: 'Niveles de vocabulario',
+  wordLevels: 'Nivel MCER de cada palabra (proporción de palabras de contenido)',
+  overusedWord: 'Palabra básica usada en exceso',
+  overusedTimes: '«{word}» ({level}) usada {count} veces',
+  tryInstead: 'Prueba con:',
+  noAlternative: 'Ninguna alternativa de nivel superior encaja en esta oración.',
+
+  'category.grammar': 'Gramática',
+  'category.vocabulary': 'Vocabulario',
+  'category.spelling': 'Ortografía',
+  'category.punctuation': 'Puntuación',
+  'category.style': 'Estilo',
+  'type.tense': 'tiempo verbal',
+  'type.verb-form': 'forma verbal',
+  'type.agreement': 'concordancia',
+  'type.article': 'artículo',
+  'type.preposition': 'preposición',
+  'type.word-order': 'orden de palabras',
+  'type.plural': 'contable / plural',
+  'type.pronoun': 'pronombre',
+  'type.sentence-structure': 'estructura de la oración',
+  'type.word-choice': 'elección de palabras',
+  'type.collocation': 'colocación',
+  'type.word-form': 'forma de la palabra',
+  'type.idiom': 'expresión / phrasal verb',
+  'type.spelling': 'ortografía',
+  'type.comma': 'coma',
+  'type.apostrophe': 'apóstrofo',
+  'type.capitalisation': 'mayúsculas',
+  'type.run-on': 'oraciones unidas / fragmento',
+  'type.register': 'registro',
+  'type.redundancy': 'redundancia',
+  'type.cohesion': 'cohesión',
+};
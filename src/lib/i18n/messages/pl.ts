@@ -0,0 +1,96 @@
+import { Messages } from './en';
+
+export const pl: Messages = {
+  signInToAnalyze: 'Zaloguj się, aby przeanalizować swój tekst.',
+  studentId: 'ID ucznia',
+  studentIdHint: '(opcjonalnie, zapisuje ten tekst w {history} ucznia z Twoich klas)',
+  historyLink: 'historii',
+  examLevel: 'Poziom egzaminu',
+  taskType: 'Typ zadania',
+  partOption: 'Część {part} ({min}-{max} słów)',
+  firstLanguage: 'Twój język ojczysty',
+  firstLanguageHint: '(opcjonalnie, wyjaśnienia i wskazówki będą w tym języku)',
+  firstLanguageNone: 'Nie podano (informacja zwrotna po angielsku)',
+  interfaceLanguage: 'Język interfejsu',
+  taskPrompt: 'Polecenie',
+  taskPromptPlaceholder: 'Wklej polecenie, na które odpowiadasz...',
+  contentPoints: 'Punkty treści',
+  contentPointsHint: '(opcjonalnie, jeden w wierszu)',
+  contentPointsPlaceholder: 'np. Describe the facilities\nSuggest one improvement',
+  yourWriting: 'Twój tekst',
+  writingPlaceholder: 'Wklej tutaj swój tekst...',
+  wordCount: 'Liczba słów: {count}',
+  wordTarget: '(cel {min}-{max})',
+  tooShort: 'Twój tekst ma tylko {count} słów. {exam} wymaga w tym zadaniu {min}-{max} słów; egzaminator uwzględni zbyt małą długość.',
+  tooLong: 'Twój tekst ma {count} słów. {exam} wymaga w tym zadaniu {min}-{max} słów; egzaminator uwzględni nadmierną długość.',
+  consistencyCheck: 'Sprawdzenie spójności ocen',
+  samplesOff: 'Wyłączone (jedna ocena)',
+  samplesCount: 'Niezależne oceny: {count}',
+  combineBy: 'Łącz wyniki przez',
+  median: 'Medianę',
+  mean: 'Średnią',
+  analyze: 'Analizuj tekst',
+  analyzing: 'Analizowanie...',
+  tryAgainIn: 'Spróbuj ponownie za {time}',
+  cancel: 'Anuluj',
+  enterWriting: 'Wpisz swój tekst',
+  analyzeFailed: 'Nie udało się przeanalizować tekstu. Spróbuj ponownie.',
+  connectionClosed: 'Połączenie zostało zamknięte przed końcem analizy. Pokazujemy otrzymane dotąd uwagi; nie zostały zapisane.',
+  cancelled: 'Analiza anulowana. Pokazujemy otrzymane dotąd uwagi; nie zostały zapisane.',
+  connectionLost: 'Połączenie zostało przerwane przed końcem analizy. Pokazujemy otrzymane dotąd uwagi; nie zostały zapisane.',
+  metricsFallback: 'Nie udało się teraz ocenić Twojego tekstu, więc brak wyników. Te pomiary obliczono lokalnie i mogą pomóc w poprawkach.',
+  saved: 'Zapisano w Twojej {history}.',
+  savedAsRevision: 'Zapisano w Twojej {history} jako poprawioną wersję poprzedniego tekstu; tam możesz porównać obie wersje.',
+  cachedResult: 'Ten tekst został już oceniony z tymi samymi ustawieniami {time}, więc pokazujemy tę ocenę i nie zużyto analizy.',
+  analyzeAgain: 'Przeanalizuj ponownie',
+  submissionHistoryLink: 'historii prac',
+
+  errorAnalysis: 'Analiza błędów',
+  errorTypes: 'Rodzaje błędów',
+  clickToToggle: '(kliknij, aby pokazać lub ukryć)',
+  otherErrors: 'Inne',
+  impedesCommunication: 'Utrudnia zrozumienie',
+  lowAgreement: 'Mała zgodność między ocenami',
+  outsideTaxonomy: 'Spoza klasyfikacji błędów; pozostawiono etykietę egzaminatora',
+  notLocated: 'Nie znaleziono w tekście',
+  errorOfType: 'Błąd: {type}',
+  change: 'Zmiana:',
+  flaggedInRuns: 'Wskazany w {percent}% ocen',
+
+  // Widok słownictwa
+  modeErrors: 'Błędy',
+  modeVocabulary: 'Słownictwo',
+  vocabularyAnalysis: 'Poziomy słownictwa',
+  wordLevels: 'Poziom CEFR każdego słowa (udział słów znaczeniowych)',
+  overusedWord: 'Nadużywane proste słowo',
+  overusedTimes: '„{word}” ({level}) użyte {count} razy',
+  tryInstead: 'Zamiast tego:',
+  noAlternative: 'Żadna trudniejsza alternatywa nie pasuje do tego zdania.',
+
+  'category.grammar': 'Gramatyka',
+  'category.vocabulary': 'Słownictwo',
+  'category.spelling': 'Pisownia',
+  'category.punctuation': 'Interpunkcja',
+  'category.style': 'Styl',
+  'type.tense': 'czas',
+  'type.verb-form': 'forma czasownika',
+  'type.agreement': 'zgodność',
+  'type.article': 'przedimek',
+  'type.preposition': 'przyimek',
+  'type.word-order': 'szyk wyrazów',
+  'type.plural': 'policzalność / liczba mnoga',
+  'type.pronoun': 'zaimek',
+  'type.sentence-structure': 'budowa zdania',
+  'type.word-choice': 'dobór słów',
+  'type.collocation': 'kolokacja',
+  'type.word-form': 'forma słowa',
+  'type.idiom': 'idiom / phrasal verb',
+  'type.spelling': 'pisownia',
+  'type.comma': 'przecinek',
+  'type.apostrophe': 'apostrof',
+  'type.capitalisation': 'wielkie litery',
+  'type.run-on': 'zdania zbite / niepełne',
+  'type.register': 'rejestr',
+  'type.redundancy': 'powtórzenia',
+  'type.cohesion': 'spójność',
+};
@@ -0,0 +1,102 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createMockProvider, loadMockScript } from './mock';
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderSettings } from './types';
+
+export * from './types';
+export { createOpenAICompatibleProvider } from './openaiCompatible';
+export { createMockProvider } from './mock';
+
+export type ProviderKind = 'groq' | 'openai' | 'local' | 'mock';
+
+const GROQ_API_URL = 'https://api.groq.com/openai/v1';
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+// Ollama and llama.cpp both serve an OpenAI-compatible API
+const LOCAL_API_URL = 'http://localhost:11434/v1';
+
+const DEFAULT_SETTINGS: Record<ProviderKind, ProviderSettings> = {
+  groq: { model: 'llama3-70b-8192', temperature: 0.3, maxTokens: 1000, topP: 0.9 },
+  openai: { model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 1000, topP: 0.9 },
+  local: { model: 'llama3', temperature: 0.3, maxTokens: 1000, topP: 0.9 },
+  mock: { model: 'mock', temperature: 0, maxTokens: 1000 },
+};
+
+type Env = Record<string, string | undefined>;
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function resolveSettings(kind: ProviderKind, env: Env): ProviderSettings {
+  const defaults = DEFAULT_SETTINGS[kind];
+  return {
+    model: env.LLM_MODEL || defaults.model,
+    temperature: numberFromEnv(env.LLM_TEMPERATURE, defaults.temperature),
+    maxTokens: numberFromEnv(env.LLM_MAX_TOKENS, defaults.maxTokens),
+    topP: env.LLM_TOP_P ? numberFromEnv(env.LLM_TOP_P, defaults.topP ?? 1) : defaults.topP,
+  };
+}
+
+// Build the provider selected by LLM_PROVIDER (defaults to Groq)
+export function createProvider(env: Env = process.env): LLMProvider {
+  const kind = (env.LLM_PROVIDER || 'groq').toLowerCase() as ProviderKind;
+  if (!Object.hasOwn(DEFAULT_SETTINGS, kind)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Expected one of: ${Object.keys(DEFAULT_SETTINGS).join(', ')}`);
+  }
+  const settings = resolveSettings(kind, env);
+
+  switch (kind) {
+    case 'groq':
+      return createOpenAICompatibleProvider({
+        name: 'groq',
+        baseUrl: env.LLM_BASE_URL || GROQ_API_URL,
+        apiKey: env.LLM_API_KEY || env.GROQ_API_KEY,
+        settings,
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: env.LLM_BASE_URL || OPENAI_API_URL,
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        settings,
+      });
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name: 'local',
+        baseUrl: env.LLM_BASE_URL || LOCAL_API_URL,
+        apiKey: env.LLM_API_KEY,
+        settings,
+      });
+    case 'mock':
+      return createMockProvider(
+        env.LLM_MOCK_RESPONSES_FILE ? loadMockScript(env.LLM_MOCK_RESPONSES_FILE) : [],
+        settings,
+        { chunkDelayMs: numberFromEnv(env.LLM_MOCK_CHUNK_DELAY_MS, 0) }
+      );
+  }
+}
+
+// Stream the reply when the provider supports it, otherwise yield the whole completion at once
+export async function* streamCompletion(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): AsyncIterable<string> {
+  if (provider.stream) {
+    yield* provider.stream(messages, options);
+  } else {
+    yield await provider.complete(messages, options);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+// Process-wide provider; tests can swap it with setProvider
+export function getProvider(): LLMProvider {
+  if (!cachedProvider) cachedProvider = createProvider();
+  return cachedProvider;
+}
+
+export function setProvider(provider: LLMProvider | null) {
+  cachedProvider = provider;
+}
@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderSettings } from './types';
+
+export type MockScript = string | ((messages: ChatMessage[]) => string);
+
+export interface MockStreamOptions {
+  // Characters per streamed chunk and the pause between chunks
+  chunkSize?: number;
+  chunkDelayMs?: number;
+}
+
+// Deterministic provider that replays scripted responses in order, repeating the last one
+export function createMockProvider(
+  script: MockScript[],
+  settings: ProviderSettings,
+  { chunkSize = 16, chunkDelayMs = 0 }: MockStreamOptions = {}
+): LLMProvider & { calls: ChatMessage[][] } {
+  const calls: ChatMessage[][] = [];
+
+  const next = (messages: ChatMessage[]) => {
+    calls.push(messages);
+    if (script.length === 0) return '';
+    const step = script[Math.min(calls.length - 1, script.length - 1)];
+    return typeof step === 'function' ? step(messages) : step;
+  };
+
+  return {
+    name: 'mock',
+    settings,
+    calls,
+    async complete(messages: ChatMessage[]) {
+      return next(messages);
+    },
+    async *stream(messages: ChatMessage[], options: CompletionOptions = {}) {
+      const reply = next(messages);
+      for (let i = 0; i < reply.length; i += chunkSize) {
+        if (chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+        options.signal?.throwIfAborted();
+        yield reply.substring(i, i + chunkSize);
+      }
+    },
+  };
+}
+
+// Load a JSON array of response strings, e.g. from LLM_MOCK_RESPONSES_FILE
+export function loadMockScript(path: string): string[] {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(data) || !data.every(item => typeof item === 'string')) {
+    throw new Error(`Mock script ${path} must be a JSON array of strings`);
+  }
+  return data;
+}
@@ -0,0 +1,95 @@
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderError, ProviderSettings } from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  settings: ProviderSettings;
+}
+
+// Content delta from one server-sent event line; malformed or keep-alive lines yield nothing
+function parseDelta(line: string): string | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return undefined;
+  const data = trimmed.replace(/^data:\s*/, '');
+  if (data === '[DONE]') return undefined;
+  try {
+    const content = JSON.parse(data).choices?.[0]?.delta?.content;
+    return typeof content === 'string' && content ? content : undefined;
+  } catch {
+    console.error('Skipping malformed stream line from provider');
+    return undefined;
+  }
+}
+
+// Any server exposing an OpenAI-style /chat/completions endpoint
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (messages: ChatMessage[], options: CompletionOptions, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: config.settings.model,
+        messages,
+        temperature: options.temperature ?? config.settings.temperature,
+        max_tokens: options.maxTokens ?? config.settings.maxTokens,
+        top_p: config.settings.topP,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${config.name} API Error:`, response.status, errorText);
+      throw new ProviderError(config.name, response.status, `${config.name} API Error: ${response.status} - ${errorText}`);
+    }
+    return response;
+  };
+
+  return {
+    name: config.name,
+    settings: config.settings,
+    async complete(messages: ChatMessage[], options: CompletionOptions = {}) {
+      const response = await request(messages, options, false);
+      const result = await response.json();
+      return result.choices?.[0]?.message?.content || '';
+    },
+    async *stream(messages: ChatMessage[], options: CompletionOptions = {}) {
+      const response = await request(messages, options, true);
+      if (!response.body) return;
+
+      // The reply arrives as server-sent events, one "data: {...}" line per delta
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            const content = parseDelta(line);
+            if (content) yield content;
+          }
+        }
+        // The last event may arrive without a trailing newline
+        const content = parseDelta(buffer + decoder.decode());
+        if (content) yield content;
+      } finally {
+        // Stop the upstream response when the consumer gives up early
+        reader.cancel().catch(() => undefined);
+      }
+    },
+  };
+}
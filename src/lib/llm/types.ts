@@ -0,0 +1,38 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Per-provider generation settings
+export interface ProviderSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the server to constrain the reply to a JSON object where supported
+  json?: boolean;
+  // Abort the request, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  settings: ProviderSettings;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // Yield the reply in chunks as the model produces it; providers without streaming fall back to complete()
+  stream?(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(public provider: string, public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,56 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { getDataDir } from '@/lib/db';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; an SMTP or API-backed mailer plugs in with setMailer
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development stand-in: prints the message to the server log
+export function createConsoleMailer(): Mailer {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+// Development stand-in: writes each message as a JSON file to an outbox directory
+export function createFileMailer(outbox: string = path.join(getDataDir(), 'outbox')): Mailer {
+  return {
+    name: 'file',
+    async send(message) {
+      mkdirSync(outbox, { recursive: true });
+      const file = path.join(outbox, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`);
+      writeFileSync(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    },
+  };
+}
+
+let cachedMailer: Mailer | null = null;
+
+// Selected by MAILER (console, the default, or file)
+export function getMailer(): Mailer {
+  if (!cachedMailer) {
+    const kind = (process.env.MAILER || 'console').toLowerCase();
+    if (kind !== 'console' && kind !== 'file') {
+      throw new Error(`Unknown MAILER "${process.env.MAILER}". Expected one of: console, file`);
+    }
+    cachedMailer = kind === 'file' ? createFileMailer() : createConsoleMailer();
+  }
+  return cachedMailer;
+}
+
+export function setMailer(mailer: Mailer | null) {
+  cachedMailer = mailer;
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTextMetrics } from './index';
+import { linkingUse } from './linking';
+import { splitParagraphs, splitSentences } from './text';
+
+const ESSAY = [
+  'In my opinion, students should wear uniforms. However, many students disagree because uniforms are expensive.',
+  'The school was built in 1990. Not only is it old, but it is also small. If we had more money, we would repair it.',
+  'In conclusion, uniforms help students, uniforms save time and uniforms look smart.',
+].join('\n\n');
+
+test('splitParagraphs splits on blank lines, or on single line breaks when there are none', () => {
+  assert.deepEqual(splitParagraphs('One.\nStill one.\n\n  Two.  ').map(p => p.text), ['One.\nStill one.', 'Two.']);
+  assert.deepEqual(splitParagraphs('Dear Sir,\nI am writing.\nYours,').map(p => p.text), ['Dear Sir,', 'I am writing.', 'Yours,']);
+});
+
+test('splitSentences ends sentences at terminal punctuation and line breaks', () => {
+  assert.deepEqual(splitSentences('Hi there! Is it "true?" Yes.\nNo full stop').map(s => s.text), [
+    'Hi there!',
+    'Is it "true?"',
+    'Yes.',
+    'No full stop',
+  ]);
+});
+
+test('computeTextMetrics counts paragraphs, sentences and structures', () => {
+  const metrics = computeTextMetrics(ESSAY);
+  assert.equal(metrics.paragraphs.count, 3);
+  assert.equal(metrics.sentences.count, 6);
+  assert.equal(metrics.sentences.shortest, 6);
+  assert.equal(metrics.structures.passives, 1);
+  assert.equal(metrics.structures.conditionals, 1);
+  assert.equal(metrics.structures.inversions, 1);
+  assert.equal(metrics.structures.subordinateClauses, 2);
+});
+
+test('computeTextMetrics reports a content word repeated within a short stretch', () => {
+  const [top] = computeTextMetrics(ESSAY).repetition;
+  assert.equal(top.word, 'uniforms');
+  assert.equal(top.count, 5);
+  assert.equal(ESSAY.slice(top.start, top.start + 8), 'uniforms');
+});
+
+test('linkingUse counts each occurrence once, preferring the longer phrase', () => {
+  const use = Object.fromEntries(linkingUse('Because of the rain we stayed in, because we were tired. Not only that, it was also cold.').map(u => [u.category, u]));
+  assert.deepEqual(use.cause.devices, [{ phrase: 'because of', count: 1 }, { phrase: 'because', count: 1 }]);
+  assert.equal(use.addition.count, 2);
+  assert.equal(use.contrast.count, 0);
+});
+
+test('lexical diversity is zero for empty text and low for a repeated word', () => {
+  assert.deepEqual(computeTextMetrics('').lexical, { mtld: 0, typeTokenRatio: 0, uniqueWords: 0 });
+  const repeated = computeTextMetrics('word word word word').lexical;
+  assert.equal(repeated.typeTokenRatio, 0.25);
+  assert.equal(repeated.uniqueWords, 1);
+});
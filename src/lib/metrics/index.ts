@@ -0,0 +1,44 @@
+import { TextMetrics } from '@/types';
+import { countWords } from '@/lib/exams';
+import { mean, round, splitParagraphs, splitSentences, standardDeviation, tokenizeWords, wordsIn } from './text';
+import { lexicalMetrics } from './lexical';
+import { linkingUse } from './linking';
+import { structureMetrics } from './structures';
+import { repetitionHotspots } from './repetition';
+
+export { LINKING_DEVICES } from './linking';
+
+// Measurements that need no model call, so they are reproducible and available when the examiner model is not
+export function computeTextMetrics(text: string): TextMetrics {
+  const paragraphs = splitParagraphs(text);
+  const paragraphWords = paragraphs.map(wordsIn);
+  const sentences = splitSentences(text);
+  const sentenceWords = sentences.map(wordsIn);
+  const tokens = tokenizeWords(text);
+  const paragraphMean = mean(paragraphWords);
+
+  return {
+    wordCount: countWords(text),
+    paragraphs: {
+      count: paragraphs.length,
+      wordCounts: paragraphWords,
+      variation: paragraphMean ? round(standardDeviation(paragraphWords) / paragraphMean) : 0,
+    },
+    sentences: {
+      count: sentences.length,
+      meanLength: round(mean(sentenceWords), 1),
+      lengthSpread: round(standardDeviation(sentenceWords), 1),
+      shortest: sentenceWords.length ? Math.min(...sentenceWords) : 0,
+      longest: sentenceWords.length ? Math.max(...sentenceWords) : 0,
+      bands: {
+        short: sentenceWords.filter(n => n < 10).length,
+        medium: sentenceWords.filter(n => n >= 10 && n <= 25).length,
+        long: sentenceWords.filter(n => n > 25).length,
+      },
+    },
+    lexical: lexicalMetrics(tokens),
+    linking: linkingUse(text),
+    structures: structureMetrics(sentences),
+    repetition: repetitionHotspots(tokens),
+  };
+}
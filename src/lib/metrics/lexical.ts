@@ -0,0 +1,37 @@
+import { LexicalMetrics } from '@/types';
+import { round, WordToken } from './text';
+
+// Type-token ratio at which MTLD closes a factor (McCarthy & Jarvis, 2010)
+const MTLD_THRESHOLD = 0.72;
+
+function mtldPass(words: string[]): number {
+  let factors = 0;
+  let types = new Set<string>();
+  let count = 0;
+  for (const word of words) {
+    types.add(word);
+    count++;
+    if (types.size / count <= MTLD_THRESHOLD) {
+      factors++;
+      types = new Set();
+      count = 0;
+    }
+  }
+  // The unfinished last stretch counts as the fraction of a factor it has covered
+  if (count > 0) {
+    factors += (1 - types.size / count) / (1 - MTLD_THRESHOLD);
+  }
+  return factors > 0 ? words.length / factors : words.length;
+}
+
+export function lexicalMetrics(tokens: WordToken[]): LexicalMetrics {
+  const words = tokens.map(token => token.normalized);
+  const uniqueWords = new Set(words).size;
+  // Forward and backward passes averaged, as in the original measure
+  const mtld = words.length ? (mtldPass(words) + mtldPass([...words].reverse())) / 2 : 0;
+  return {
+    mtld: round(mtld, 1),
+    typeTokenRatio: words.length ? round(uniqueWords / words.length) : 0,
+    uniqueWords,
+  };
+}
@@ -0,0 +1,58 @@
+import { LinkingCategory, LinkingUse } from '@/types';
+
+// Linking devices and discourse markers by function; ambiguous words such as "while", "since" and "so" are left out
+export const LINKING_DEVICES: Record<LinkingCategory, string[]> = {
+  addition: ['furthermore', 'moreover', 'in addition', 'additionally', 'what is more', "what's more", 'besides', 'as well as', 'not only', 'also'],
+  contrast: [
+    'however', 'nevertheless', 'nonetheless', 'on the other hand', 'whereas', 'although', 'even though', 'despite',
+    'in spite of', 'on the contrary', 'conversely', 'by contrast', 'in contrast', 'even so',
+  ],
+  cause: [
+    'because', 'because of', 'as a result', 'therefore', 'consequently', 'thus', 'hence', 'due to', 'owing to',
+    'for this reason', 'as a consequence', 'so that', 'this means that', 'which means that',
+  ],
+  example: ['for example', 'for instance', 'such as', 'in particular', 'namely', 'to illustrate', 'a case in point'],
+  sequence: [
+    'firstly', 'secondly', 'thirdly', 'first of all', 'to begin with', 'finally', 'lastly', 'subsequently',
+    'meanwhile', 'afterwards', 'in the first place', 'last but not least',
+  ],
+  conclusion: ['in conclusion', 'to conclude', 'to sum up', 'in summary', 'all in all', 'on balance', 'overall', 'in short', 'taking everything into account'],
+  stance: [
+    'in my opinion', 'in my view', 'personally', 'i believe', 'admittedly', 'undoubtedly', 'clearly', 'obviously',
+    'of course', 'indeed', 'in fact', 'arguably', 'it is true that', 'there is no doubt that',
+  ],
+};
+
+const CATEGORY_ORDER = Object.keys(LINKING_DEVICES) as LinkingCategory[];
+
+function escape(phrase: string): string {
+  return phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+}
+
+// Count each device once per occurrence, longest phrases first so "because of" is not also counted as "because"
+export function linkingUse(text: string): LinkingUse[] {
+  const lower = text.toLowerCase().replace(/’/g, "'");
+  const used: boolean[] = Array(lower.length).fill(false);
+  const devices = CATEGORY_ORDER
+    .flatMap(category => LINKING_DEVICES[category].map(phrase => ({ category, phrase })))
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+
+  const counts = new Map<LinkingCategory, Map<string, number>>();
+  for (const { category, phrase } of devices) {
+    for (const match of Array.from(lower.matchAll(new RegExp(`\\b${escape(phrase)}\\b`, 'g')))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (used.slice(start, end).some(Boolean)) continue;
+      used.fill(true, start, end);
+      const byPhrase = counts.get(category) ?? new Map<string, number>();
+      byPhrase.set(phrase, (byPhrase.get(phrase) ?? 0) + 1);
+      counts.set(category, byPhrase);
+    }
+  }
+
+  return CATEGORY_ORDER.map(category => {
+    const byPhrase = Array.from(counts.get(category) ?? new Map<string, number>(), ([phrase, count]) => ({ phrase, count }))
+      .sort((a, b) => b.count - a.count);
+    return { category, count: byPhrase.reduce((sum, d) => sum + d.count, 0), devices: byPhrase };
+  });
+}
@@ -0,0 +1,44 @@
+import { RepetitionHotspot } from '@/types';
+import { WordToken } from './text';
+
+// Words in this many consecutive words are checked together
+const WINDOW = 50;
+const MIN_REPEATS = 3;
+const MAX_HOTSPOTS = 5;
+
+const FUNCTION_WORDS = new Set(
+  ('about above after again also although among another because been before being below between both could does doing ' +
+  'down during each either even every from further have having here into itself just many more most much must neither ' +
+  'other others ought over same should since some such than that their theirs them themselves then there these they this ' +
+  'those though through under until upon very were what when where whether which while who whom whose will with within ' +
+  'without would your yours yourself also only well people thing things make made')
+    .split(' ')
+);
+
+function isContentWord(word: string): boolean {
+  return word.length >= 4 && !FUNCTION_WORDS.has(word);
+}
+
+// Content words used at least three times within a fifty-word stretch, densest first
+export function repetitionHotspots(tokens: WordToken[]): RepetitionHotspot[] {
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, i) => {
+    if (!isContentWord(token.normalized)) return;
+    positions.set(token.normalized, [...(positions.get(token.normalized) ?? []), i]);
+  });
+
+  const hotspots: RepetitionHotspot[] = [];
+  positions.forEach((indexes, word) => {
+    let best: { count: number; from: number; to: number } | null = null;
+    let from = 0;
+    for (let to = 0; to < indexes.length; to++) {
+      while (indexes[to] - indexes[from] >= WINDOW) from++;
+      const count = to - from + 1;
+      if (count >= MIN_REPEATS && (!best || count > best.count)) best = { count, from: indexes[from], to: indexes[to] };
+    }
+    if (best) {
+      hotspots.push({ word, count: best.count, start: tokens[best.from].start, end: tokens[best.to].end });
+    }
+  });
+  return hotspots.sort((a, b) => b.count - a.count || a.start - b.start).slice(0, MAX_HOTSPOTS);
+}
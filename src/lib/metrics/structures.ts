@@ -0,0 +1,58 @@
+import { StructureMetrics } from '@/types';
+import { round, Span } from './text';
+
+const BE_FORMS = '(?:am|is|are|was|were|be|been|being|get|gets|got|gotten|getting)';
+const IRREGULAR_PARTICIPLES = [
+  'born', 'bought', 'brought', 'built', 'caught', 'chosen', 'done', 'drawn', 'driven', 'eaten', 'fed', 'felt',
+  'forbidden', 'forgotten', 'found', 'given', 'grown', 'heard', 'held', 'hidden', 'kept', 'known', 'led', 'left',
+  'lost', 'made', 'meant', 'paid', 'put', 'read', 'said', 'seen', 'sent', 'set', 'shown', 'sold', 'spent', 'spoken',
+  'taken', 'taught', 'thought', 'told', 'thrown', 'understood', 'won', 'worn', 'written',
+];
+// A form of "be" or "get", an optional adverb, then a past participle
+const PASSIVE = new RegExp(`\\b${BE_FORMS}\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`, 'gi');
+
+const RELATIVE = /(?:,\s*(?:who|whom|whose|which|where)|\b(?:who|whom|whose|which)\b(?!\s*\?))/gi;
+const SUBORDINATE = /\b(?:although|though|because|unless|whereas|whilst|until|whenever|once|if|even if|so that|provided that|as long as)\b/gi;
+const CONDITIONAL = /\b(?:if|unless|provided that|providing that|as long as|on condition that)\b/i;
+const AUXILIARY = '(?:do|does|did|have|has|had|is|are|was|were|will|would|can|could|shall|should|must|may|might)';
+const INVERSION = new RegExp(
+  `^(?:not only|never|rarely|seldom|hardly|scarcely|barely|no sooner|little|under no circumstances|at no time|in no way|not until|only (?:when|then|after|by|if|once|in))\\b[^,]{0,40}?\\b${AUXILIARY}\\b`,
+  'i'
+);
+const CLEFT = /^(?:it\s+(?:is|was)\s+\S.{0,60}?\s+(?:that|who)\b|what\s+\S.{0,50}?\s+(?:is|was)\b)/i;
+
+function count(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+export function structureMetrics(sentences: Span[]): StructureMetrics {
+  let passives = 0;
+  let relativeClauses = 0;
+  let subordinateClauses = 0;
+  let conditionals = 0;
+  let inversions = 0;
+  let cleftSentences = 0;
+  let complex = 0;
+
+  for (const { text } of sentences) {
+    const relative = count(text, RELATIVE);
+    const subordinate = count(text, SUBORDINATE);
+    passives += count(text, PASSIVE);
+    relativeClauses += relative;
+    subordinateClauses += subordinate;
+    if (CONDITIONAL.test(text)) conditionals++;
+    if (INVERSION.test(text)) inversions++;
+    if (CLEFT.test(text)) cleftSentences++;
+    if (relative + subordinate > 0) complex++;
+  }
+
+  return {
+    passives,
+    relativeClauses,
+    subordinateClauses,
+    conditionals,
+    inversions,
+    cleftSentences,
+    complexSentenceShare: sentences.length ? round(complex / sentences.length) : 0,
+  };
+}
@@ -0,0 +1,57 @@
+import { countWords } from '@/lib/exams';
+
+export interface Span {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface WordToken extends Span {
+  // Lower-cased with curly apostrophes straightened
+  normalized: string;
+}
+
+function spans(text: string, pattern: RegExp): Span[] {
+  return Array.from(text.matchAll(pattern), match => ({ text: match[0], start: match.index!, end: match.index! + match[0].length }));
+}
+
+function trimSpan(span: Span): Span {
+  const leading = span.text.length - span.text.trimStart().length;
+  const text = span.text.trim();
+  return { text, start: span.start + leading, end: span.start + leading + text.length };
+}
+
+// Paragraphs are runs of non-blank lines; writing without blank lines is split on single line breaks instead
+export function splitParagraphs(text: string): Span[] {
+  const blocks = spans(text, /(?:[^\n]*\S[^\n]*(?:\n|$))+/g);
+  return (blocks.length > 1 ? blocks : spans(text, /[^\n]*\S[^\n]*/g)).map(trimSpan);
+}
+
+export function splitSentences(text: string): Span[] {
+  return spans(text, /[^\s.!?][^.!?\n]*(?:[.!?]+["')\]]*|(?=\n)|$)/g);
+}
+
+export function tokenizeWords(text: string): WordToken[] {
+  return spans(text, /[A-Za-z]+(?:['’][A-Za-z]+)*/g).map(span => ({
+    ...span,
+    normalized: span.text.toLowerCase().replace(/’/g, "'"),
+  }));
+}
+
+export function wordsIn(span: Span): number {
+  return countWords(span.text);
+}
+
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
@@ -0,0 +1,34 @@
+import { isIP } from 'net';
+
+export interface ClientIpOptions {
+  // Number of reverse proxies in front of the app that append to X-Forwarded-For
+  trustedProxyHops: number;
+  // Header a trusted proxy sets to the client address, e.g. "cf-connecting-ip" or "x-real-ip"
+  header?: string;
+}
+
+function normalizeIp(value: string | undefined): string | null {
+  if (!value) return null;
+  // "[::1]:1234", "1.2.3.4:5678" and IPv4-mapped IPv6 addresses
+  let ip = value.trim().replace(/^\[([^\]]+)\](:\d+)?$/, '$1').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  if (/^\d+\.\d+\.\d+\.\d+:\d+$/.test(ip)) ip = ip.substring(0, ip.lastIndexOf(':'));
+  return isIP(ip) ? ip.toLowerCase() : null;
+}
+
+// Clients reaching the app directly share one key: without a proxy, X-Forwarded-For is whatever the client sent
+export const DIRECT_CLIENT = 'direct';
+
+// Client address from the request headers. Entries a client adds to X-Forwarded-For itself sit to the left of
+// those appended by our proxies, so only the entry written by the outermost trusted proxy is used, and the header
+// is read only when trustedProxyHops says proxies are in front of the app.
+export function getClientIp(headers: Headers, { trustedProxyHops, header }: ClientIpOptions): string {
+  if (header) {
+    const ip = normalizeIp(headers.get(header) ?? undefined);
+    if (ip) return ip;
+  }
+  if (trustedProxyHops <= 0) return DIRECT_CLIENT;
+
+  const forwarded = (headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (forwarded.length === 0) return 'unknown';
+  return normalizeIp(forwarded[Math.max(forwarded.length - trustedProxyHops, 0)]) ?? 'unknown';
+}
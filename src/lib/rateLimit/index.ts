@@ -0,0 +1,251 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createFileStore, createMemoryStore } from './stores';
+import { DIRECT_CLIENT, getClientIp } from './clientIp';
+import { LimitState, RateLimitPolicy, RateLimitStore } from './types';
+import { Consumption, consumeDailyQuota, consumeSlidingWindow } from './window';
+
+export type { LimitState, RateLimitPolicy, RateLimitStore } from './types';
+export { createFileStore, createMemoryStore } from './stores';
+export { getClientIp } from './clientIp';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitConfig {
+  store: 'memory' | 'file';
+  // Requests per sliding window, per API key or else per client IP
+  burst: RateLimitPolicy;
+  // Analyses per UTC day for API keys without their own quota; 0 turns it off
+  dailyPerApiKey: number;
+  // Accepted X-API-Key values and their own daily quotas
+  apiKeys: Map<string, number>;
+  // Sign-in, registration and magic-link requests per window, per client IP and per account
+  authPerClient: RateLimitPolicy;
+  authPerIdentifier: RateLimitPolicy;
+  trustedProxyHops: number;
+  ipHeader?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function loadRateLimitConfig(env: Env = process.env): RateLimitConfig {
+  const dailyPerApiKey = numberFromEnv(env.DAILY_QUOTA_PER_API_KEY, 1000);
+  // API_KEYS="key1:500,key2" (the quota defaults to DAILY_QUOTA_PER_API_KEY)
+  const apiKeys = new Map<string, number>();
+  (env.API_KEYS || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [key, quota] = entry.split(':');
+    apiKeys.set(key, numberFromEnv(quota, dailyPerApiKey));
+  });
+
+  const authWindowMs = numberFromEnv(env.AUTH_RATE_LIMIT_WINDOW_MS, 15 * 60 * 1000) || 15 * 60 * 1000;
+
+  return {
+    store: env.RATE_LIMIT_STORE === 'file' ? 'file' : 'memory',
+    burst: {
+      name: 'burst',
+      limit: numberFromEnv(env.RATE_LIMIT_MAX, 5),
+      windowMs: numberFromEnv(env.RATE_LIMIT_WINDOW_MS, 60 * 1000) || 60 * 1000,
+    },
+    dailyPerApiKey,
+    apiKeys,
+    authPerClient: { name: 'auth-client', limit: numberFromEnv(env.AUTH_RATE_LIMIT_MAX, 30), windowMs: authWindowMs },
+    authPerIdentifier: { name: 'auth-account', limit: numberFromEnv(env.AUTH_RATE_LIMIT_PER_ACCOUNT, 5), windowMs: authWindowMs },
+    trustedProxyHops: Math.floor(numberFromEnv(env.TRUSTED_PROXY_HOPS, 0)),
+    ipHeader: env.CLIENT_IP_HEADER?.toLowerCase() || undefined,
+  };
+}
+
+// One limiter for the whole process, surviving Next.js dev reloads
+const globalLimiter = globalThis as unknown as { __rateLimiter?: { config: RateLimitConfig; store: RateLimitStore } };
+
+function getLimiter() {
+  if (!globalLimiter.__rateLimiter) {
+    const config = loadRateLimitConfig();
+    const store = config.store === 'file' ? createFileStore() : createMemoryStore();
+    globalLimiter.__rateLimiter = { config, store };
+  }
+  return globalLimiter.__rateLimiter;
+}
+
+// Swap the counter store, e.g. for a Redis-backed one shared between instances
+export function setRateLimitStore(store: RateLimitStore) {
+  getLimiter().store = store;
+}
+
+export interface RateLimitOptions {
+  // Signed-in user making the request and their role's daily analyses (0 for no quota)
+  userId?: string | null;
+  dailyLimit?: number;
+  // Scripts this request analyzes, counted against daily quotas
+  cost?: number;
+}
+
+export type RateLimitDecision =
+  | { ok: true; headers: Record<string, string> }
+  | { ok: false; status: 401 | 429; body: { error: string; message: string }; headers: Record<string, string> };
+
+// Raw keys and account identifiers never reach the store
+const digest = (value: string) => createHash('sha256').update(value).digest('hex').substring(0, 16);
+export const hashApiKey = (key: string) => digest(key);
+// The user ID an API key acts under
+export const apiKeyUserId = (key: string) => `api-key-${hashApiKey(key)}`;
+
+export function isApiKey(key: string): boolean {
+  return getLimiter().config.apiKeys.has(key);
+}
+
+// Standard RateLimit-* headers for the most constrained policy, with Retry-After when blocked
+function buildHeaders(states: LimitState[]): Record<string, string> {
+  const blocked = states.filter(state => !state.allowed);
+  const binding = blocked.length > 0
+    ? blocked.reduce((a, b) => (b.retryAfterSeconds > a.retryAfterSeconds ? b : a))
+    : states.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(binding.policy.limit),
+    'RateLimit-Remaining': String(binding.remaining),
+    'RateLimit-Reset': String(binding.resetSeconds),
+    'RateLimit-Policy': states
+      .map(state => `${state.policy.limit};w=${Math.round(state.policy.windowMs / 1000)};comment="${state.policy.name}"`)
+      .join(', '),
+  };
+  if (blocked.length > 0) {
+    headers['Retry-After'] = String(binding.retryAfterSeconds);
+  }
+  return headers;
+}
+
+// The client's IP, or null when there is no trusted proxy or header to take it from
+function resolvedClientIp(request: Request, config: RateLimitConfig): string | null {
+  const ip = getClientIp(request.headers, { trustedProxyHops: config.trustedProxyHops, header: config.ipHeader });
+  return ip === DIRECT_CLIENT || ip === 'unknown' ? null : ip;
+}
+
+// Apply limits in order, stopping at the first that blocks; earlier ones get their count back
+async function consumeAll(limits: Array<() => Promise<Consumption>>): Promise<LimitState[]> {
+  const consumed: Consumption[] = [];
+  for (const consume of limits) {
+    const consumption = await consume();
+    consumed.push(consumption);
+    if (!consumption.state.allowed) {
+      await Promise.all(consumed.map(earlier => earlier.release()));
+      break;
+    }
+  }
+  return consumed.map(consumption => consumption.state);
+}
+
+// Count an analysis request against the burst limit and daily quotas, keeping the counts only if every one allows it
+export async function checkRateLimit(request: Request, { userId, dailyLimit = 0, cost = 1 }: RateLimitOptions = {}): Promise<RateLimitDecision> {
+  const { config, store } = getLimiter();
+  const now = Date.now();
+
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey !== null && !config.apiKeys.has(apiKey)) {
+    return {
+      ok: false,
+      status: 401,
+      body: { error: 'Invalid API key', message: 'The X-API-Key header does not match a configured API key.' },
+      headers: {},
+    };
+  }
+
+  // Signed-in users get their own burst window; the IP is only for anonymous callers, who share one window
+  // when it can't be told
+  const client = apiKey !== null
+    ? `key:${hashApiKey(apiKey)}`
+    : userId
+      ? `user:${userId}`
+      : `ip:${resolvedClientIp(request, config) ?? 'anonymous'}`;
+  const limits: Array<() => Promise<Consumption>> = [
+    // One request counts once against the burst limit, however many scripts it carries
+    () => consumeSlidingWindow(store, `burst:${client}`, config.burst, 1, now),
+  ];
+  if (apiKey !== null) {
+    const quota = config.apiKeys.get(apiKey)!;
+    if (quota > 0) {
+      limits.push(() => consumeDailyQuota(store, `daily:${client}`, { name: 'api-key-daily', limit: quota, windowMs: DAY_MS }, cost, now));
+    }
+  }
+  // API keys are metered by their own quota only
+  if (userId && dailyLimit > 0 && apiKey === null) {
+    limits.push(() => consumeDailyQuota(store, `daily:user:${userId}`, { name: 'user-daily', limit: dailyLimit, windowMs: DAY_MS }, cost, now));
+  }
+
+  const states = await consumeAll(limits);
+  const headers = buildHeaders(states);
+  const blocked = states.find(state => !state.allowed);
+  if (blocked) {
+    const daily = blocked.policy.windowMs === DAY_MS;
+    return {
+      ok: false,
+      status: 429,
+      body: daily
+        ? {
+            error: 'Daily quota exceeded',
+            message: blocked.remaining > 0
+              ? `This request needs ${cost} analyses but only ${blocked.remaining} of today's ${blocked.policy.limit} remain. The quota resets at midnight UTC.`
+              : `The daily limit of ${blocked.policy.limit} analyses has been reached. It resets at midnight UTC.`,
+          }
+        : { error: 'Too many requests', message: 'You are being rate limited. Please try again later.' },
+      headers,
+    };
+  }
+
+  return { ok: true, headers };
+}
+
+// Charge model calls made after the request that paid for them, such as batch retries, to the same daily quota:
+// an API key's own, or the user's with their role's daily limit (0 for no quota). False when the quota is used up
+export async function chargeDailyQuota(userId: string, dailyLimit: number, cost = 1): Promise<boolean> {
+  const { config, store } = getLimiter();
+  const apiKey = Array.from(config.apiKeys.keys()).find(key => apiKeyUserId(key) === userId);
+  const policy: RateLimitPolicy = apiKey !== undefined
+    ? { name: 'api-key-daily', limit: config.apiKeys.get(apiKey)!, windowMs: DAY_MS }
+    : { name: 'user-daily', limit: dailyLimit, windowMs: DAY_MS };
+  if (policy.limit <= 0) return true;
+  const key = apiKey !== undefined ? `daily:key:${hashApiKey(apiKey)}` : `daily:user:${userId}`;
+  const { state } = await consumeDailyQuota(store, key, policy, cost, Date.now());
+  return state.allowed;
+}
+
+export type AuthAction = 'login' | 'register' | 'magic-link';
+
+// Count a sign-in, registration or magic-link request per client IP and per account, against password guessing
+// and mail flooding; every attempt counts, successful or not
+export async function checkAuthRateLimit(request: Request, action: AuthAction, identifier?: string | null): Promise<RateLimitDecision> {
+  const { config, store } = getLimiter();
+  const now = Date.now();
+  const limits: Array<() => Promise<Consumption>> = [];
+  // Without a known IP every caller would share one window and could lock everyone out, so only the account counts
+  const ip = resolvedClientIp(request, config);
+  if (ip) {
+    limits.push(() => consumeSlidingWindow(store, `auth:${action}:ip:${ip}`, config.authPerClient, 1, now));
+  }
+  const account = identifier?.trim().toLowerCase();
+  if (account) {
+    limits.push(() => consumeSlidingWindow(store, `auth:${action}:account:${digest(account)}`, config.authPerIdentifier, 1, now));
+  }
+
+  const states = await consumeAll(limits);
+  if (states.length === 0) return { ok: true, headers: {} };
+  const headers = buildHeaders(states);
+  if (states.some(state => !state.allowed)) {
+    return {
+      ok: false,
+      status: 429,
+      body: { error: 'Too many attempts', message: 'Too many attempts. Please wait a few minutes and try again.' },
+      headers,
+    };
+  }
+  return { ok: true, headers };
+}
+
+export function rateLimitResponse(decision: Extract<RateLimitDecision, { ok: false }>) {
+  return NextResponse.json(decision.body, { status: decision.status, headers: decision.headers });
+}
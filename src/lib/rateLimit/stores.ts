@@ -0,0 +1,73 @@
+import { getCollection } from '@/lib/db';
+import { RateLimitStore } from './types';
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+// Drop expired counters every this many writes so idle clients don't accumulate
+const SWEEP_EVERY = 500;
+
+// Per-process counters; lost on restart and not shared between instances
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, Counter>();
+  let writes = 0;
+
+  const sweep = (now: number) => {
+    counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) counters.delete(key);
+    });
+  };
+
+  return {
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+    },
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      if (++writes % SWEEP_EVERY === 0) sweep(now);
+      const counter = counters.get(key);
+      if (!counter || counter.expiresAt <= now) {
+        counters.set(key, { count: amount, expiresAt: now + ttlMs });
+        return amount;
+      }
+      counter.count += amount;
+      return counter.count;
+    },
+  };
+}
+
+interface CounterRecord extends Counter {
+  id: string;
+}
+
+// Counters in the JSON file store (DATA_DIR), so limits and daily quotas survive restarts and deploys
+export function createFileStore(collectionName = 'rate-limits'): RateLimitStore {
+  const counters = getCollection<CounterRecord>(collectionName);
+  let writes = 0;
+
+  return {
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+    },
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      if (++writes % SWEEP_EVERY === 0) {
+        counters.find(counter => counter.expiresAt <= now).forEach(counter => counters.remove(counter.id));
+      }
+      const counter = counters.get(key);
+      if (!counter) {
+        counters.insert({ id: key, count: amount, expiresAt: now + ttlMs });
+        return amount;
+      }
+      if (counter.expiresAt <= now) {
+        counters.update(key, { count: amount, expiresAt: now + ttlMs });
+        return amount;
+      }
+      return counters.update(key, { count: counter.count + amount })!.count;
+    },
+  };
+}
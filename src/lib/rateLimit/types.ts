@@ -0,0 +1,23 @@
+// Counter storage behind the limiter; a Redis store only needs INCRBY with PEXPIRE and GET
+export interface RateLimitStore {
+  // Current value of the counter, 0 when missing or expired
+  get(key: string): Promise<number>;
+  // Add amount to the counter, creating it to expire after ttlMs; returns the new value
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export interface RateLimitPolicy {
+  // Shown in RateLimit-Policy, e.g. "burst" or "daily"
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface LimitState {
+  policy: RateLimitPolicy;
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the window resets, and until a blocked request may be retried
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStore } from './stores';
+import { consumeDailyQuota, consumeSlidingWindow } from './window';
+
+const burst = { name: 'burst', limit: 3, windowMs: 60_000 };
+const daily = { name: 'daily', limit: 10, windowMs: 24 * 60 * 60 * 1000 };
+// Noon UTC, at the start of a minute
+const NOON = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+test('sliding window allows up to the limit and does not count blocked requests', async () => {
+  const store = createMemoryStore();
+  const allowed = [];
+  for (let i = 0; i < 5; i++) {
+    allowed.push((await consumeSlidingWindow(store, 'ip:a', burst, 1, NOON + 1000)).state.allowed);
+  }
+  assert.deepEqual(allowed, [true, true, true, false, false]);
+  assert.equal(await store.get(`ip:a:${NOON}`), 3);
+});
+
+test('sliding window lets concurrent requests through only up to the limit', async () => {
+  const store = createMemoryStore();
+  const results = await Promise.all(Array.from({ length: 10 }, () => consumeSlidingWindow(store, 'ip:a', burst, 1, NOON)));
+  assert.equal(results.filter(result => result.state.allowed).length, 3);
+  assert.equal(await store.get(`ip:a:${NOON}`), 3);
+});
+
+test('sliding window weights the previous window by how much of it still overlaps', async () => {
+  const store = createMemoryStore();
+  await store.increment(`ip:a:${NOON - 60_000}`, 4, 120_000);
+  // Halfway through the minute half of the previous 4 still counts, leaving room for one request
+  const first = await consumeSlidingWindow(store, 'ip:a', burst, 1, NOON + 30_000);
+  assert.equal(first.state.allowed, true);
+  assert.equal(first.state.remaining, 0);
+  const second = await consumeSlidingWindow(store, 'ip:a', burst, 1, NOON + 30_000);
+  assert.equal(second.state.allowed, false);
+  assert.equal(second.state.resetSeconds, 30);
+  assert.ok(second.state.retryAfterSeconds >= 1 && second.state.retryAfterSeconds <= 30);
+});
+
+test('release gives an allowed request its count back', async () => {
+  const store = createMemoryStore();
+  const consumption = await consumeSlidingWindow(store, 'ip:a', burst, 1, NOON);
+  await consumption.release();
+  assert.equal(await store.get(`ip:a:${NOON}`), 0);
+});
+
+test('daily quota charges the cost and refuses a request that would go over it', async () => {
+  const store = createMemoryStore();
+  const first = await consumeDailyQuota(store, 'user:anna', daily, 8, NOON);
+  assert.equal(first.state.allowed, true);
+  assert.equal(first.state.remaining, 2);
+
+  const second = await consumeDailyQuota(store, 'user:anna', daily, 3, NOON);
+  assert.equal(second.state.allowed, false);
+  assert.equal(second.state.remaining, 2);
+  assert.equal(second.state.retryAfterSeconds, 12 * 60 * 60);
+  assert.equal(await store.get('user:anna:2026-01-15'), 8);
+});
+
+test('daily quota starts again on the next UTC day', async () => {
+  const store = createMemoryStore();
+  await consumeDailyQuota(store, 'user:anna', daily, 10, NOON);
+  assert.equal((await consumeDailyQuota(store, 'user:anna', daily, 1, NOON)).state.allowed, false);
+  assert.equal((await consumeDailyQuota(store, 'user:anna', daily, 1, NOON + 12 * 60 * 60 * 1000)).state.allowed, true);
+});
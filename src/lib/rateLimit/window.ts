@@ -0,0 +1,89 @@
+import { LimitState, RateLimitPolicy, RateLimitStore } from './types';
+
+// A limit applied to the store. The request is counted by the same increment that checks it, so concurrent
+// requests can't all pass on one reading; a blocked request is uncounted again, and release() undoes an allowed one
+export interface Consumption {
+  state: LimitState;
+  release(): Promise<void>;
+}
+
+const toSeconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000));
+const released = async () => undefined;
+
+// Sliding window counter: the previous fixed window's count is weighted by how much of it still overlaps
+export async function consumeSlidingWindow(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  cost = 1,
+  now = Date.now()
+): Promise<Consumption> {
+  const { limit, windowMs } = policy;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - windowStart;
+  const currentKey = `${key}:${windowStart}`;
+  // Keep each counter until it can no longer be the previous window
+  const ttlMs = 2 * windowMs;
+  const [previous, counted] = await Promise.all([
+    store.get(`${key}:${windowStart - windowMs}`),
+    store.increment(currentKey, cost, ttlMs),
+  ]);
+  const estimate = previous * ((windowMs - elapsed) / windowMs) + counted;
+  const resetSeconds = toSeconds(windowMs - elapsed);
+  const release = async () => {
+    await store.increment(currentKey, -cost, ttlMs);
+  };
+
+  if (estimate > limit) {
+    await release();
+    const current = counted - cost;
+    let waitMs: number;
+    if (counted <= limit) {
+      // Wait until enough of the previous window has slid out
+      waitMs = windowMs * (1 - (limit - counted) / previous) - elapsed;
+    } else {
+      // The current window alone is full; wait for it to become the previous window and slide out too
+      waitMs = windowMs - elapsed + (current > 0 ? windowMs * (1 - Math.max(limit - cost, 0) / current) : 0);
+    }
+    return {
+      state: { policy, allowed: false, remaining: 0, resetSeconds, retryAfterSeconds: Math.max(1, toSeconds(waitMs)) },
+      release: released,
+    };
+  }
+
+  return {
+    state: { policy, allowed: true, remaining: Math.max(0, Math.floor(limit - estimate)), resetSeconds, retryAfterSeconds: 0 },
+    release,
+  };
+}
+
+// Fixed calendar-day quota (UTC), reset at midnight
+export async function consumeDailyQuota(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  cost = 1,
+  now = Date.now()
+): Promise<Consumption> {
+  const day = new Date(now).toISOString().substring(0, 10);
+  const dayKey = `${key}:${day}`;
+  const msToMidnight = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000 - now;
+  const resetSeconds = toSeconds(msToMidnight);
+  const used = await store.increment(dayKey, cost, msToMidnight);
+  const release = async () => {
+    await store.increment(dayKey, -cost, msToMidnight);
+  };
+
+  if (used > policy.limit) {
+    await release();
+    return {
+      state: { policy, allowed: false, remaining: Math.max(0, policy.limit - (used - cost)), resetSeconds, retryAfterSeconds: resetSeconds },
+      release: released,
+    };
+  }
+
+  return {
+    state: { policy, allowed: true, remaining: policy.limit - used, resetSeconds, retryAfterSeconds: 0 },
+    release,
+  };
+}
@@ -0,0 +1,65 @@
+import { Document, FootnoteReferenceRun, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { footnoteText, ReportModel } from './model';
+
+// Split the annotated script into paragraphs, keeping each error as a highlighted run with a real footnote
+function scriptParagraphs(model: ReportModel): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let runs: Array<TextRun | FootnoteReferenceRun> = [];
+
+  for (const segment of model.segments) {
+    const parts = segment.text.split(/\n+/);
+    parts.forEach((part, i) => {
+      if (i > 0) {
+        paragraphs.push(new Paragraph({ children: runs, spacing: { after: 120 } }));
+        runs = [];
+      }
+      if (part) {
+        runs.push(segment.footnote ? new TextRun({ text: part, highlight: 'yellow', bold: true }) : new TextRun(part));
+      }
+    });
+    if (segment.footnote) runs.push(new FootnoteReferenceRun(segment.footnote));
+  }
+  if (runs.length > 0) paragraphs.push(new Paragraph({ children: runs }));
+  return paragraphs;
+}
+
+export async function renderDocx(model: ReportModel): Promise<Uint8Array> {
+  const footnotes = Object.fromEntries(
+    model.footnotes.map(f => [f.number, { children: [new Paragraph(footnoteText(f))] }])
+  );
+
+  const children: Paragraph[] = [
+    new Paragraph({ text: model.title, heading: HeadingLevel.TITLE }),
+    ...(model.subtitle ? [new Paragraph({ children: [new TextRun({ text: model.subtitle, italics: true })] })] : []),
+    new Paragraph({ text: 'Scores', heading: HeadingLevel.HEADING_1 }),
+    ...model.scoreLines.map(line => new Paragraph({ text: line, bullet: { level: 0 } })),
+    new Paragraph({ text: 'Feedback by Criterion', heading: HeadingLevel.HEADING_1 }),
+  ];
+
+  for (const criterion of model.criteria) {
+    children.push(
+      new Paragraph({ text: `${criterion.name} (${criterion.score}/5)`, heading: HeadingLevel.HEADING_2 }),
+      new Paragraph(criterion.feedback),
+      ...criterion.suggestions.map(s => new Paragraph({ text: s, bullet: { level: 0 } }))
+    );
+  }
+
+  if (model.contentPoints.length > 0) {
+    children.push(
+      new Paragraph({ text: 'Content Points', heading: HeadingLevel.HEADING_1 }),
+      ...model.contentPoints.map(p => new Paragraph({ text: p, bullet: { level: 0 } }))
+    );
+  }
+
+  children.push(new Paragraph({ text: 'Annotated Script', heading: HeadingLevel.HEADING_1 }), ...scriptParagraphs(model));
+
+  if (model.unplacedFootnotes.length > 0) {
+    children.push(
+      new Paragraph({ text: 'Other errors not located in the text', heading: HeadingLevel.HEADING_2 }),
+      ...model.unplacedFootnotes.map(f => new Paragraph({ text: `${f.number}. ${footnoteText(f)}` }))
+    );
+  }
+
+  const doc = new Document({ footnotes, sections: [{ children }] });
+  return new Uint8Array(await Packer.toBuffer(doc));
+}
@@ -0,0 +1,29 @@
+import { AnalysisResult } from '@/types';
+import { buildReportModel, ReportFormat, ReportMeta } from './model';
+import { renderMarkdown } from './markdown';
+import { renderDocx } from './docx';
+import { renderPdf } from './pdf';
+
+export type { ReportFormat, ReportMeta } from './model';
+
+export const REPORT_FORMATS: Record<ReportFormat, { contentType: string; extension: string }> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  docx: { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+};
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && Object.hasOwn(REPORT_FORMATS, value);
+}
+
+export async function renderReport(format: ReportFormat, result: AnalysisResult, writing: string, meta: ReportMeta): Promise<Uint8Array | string> {
+  const model = buildReportModel(result, writing, meta);
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(model);
+    case 'docx':
+      return renderDocx(model);
+    case 'pdf':
+      return renderPdf(model);
+  }
+}
@@ -0,0 +1,40 @@
+import { footnoteText, ReportModel } from './model';
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#<>])/g, '\\$1');
+}
+
+export function renderMarkdown(model: ReportModel): string {
+  const lines: string[] = [`# ${model.title}`, ''];
+  if (model.subtitle) lines.push(`_${model.subtitle}_`, '');
+
+  lines.push('## Scores', '', ...model.scoreLines.map(line => `- ${line}`), '');
+
+  lines.push('## Feedback by Criterion', '');
+  for (const criterion of model.criteria) {
+    lines.push(`### ${criterion.name} (${criterion.score}/5)`, '', criterion.feedback, '');
+    if (criterion.suggestions.length > 0) {
+      lines.push('Suggestions:', '', ...criterion.suggestions.map(s => `- ${s}`), '');
+    }
+  }
+
+  if (model.contentPoints.length > 0) {
+    lines.push('## Content Points', '', ...model.contentPoints.map(p => `- ${p}`), '');
+  }
+
+  lines.push('## Annotated Script', '');
+  const annotated = model.segments
+    .map(segment => (segment.footnote ? `**${escapeMarkdown(segment.text)}**[^${segment.footnote}]` : escapeMarkdown(segment.text)))
+    .join('');
+  lines.push(annotated.replace(/\n/g, '  \n'), '');
+
+  if (model.unplacedFootnotes.length > 0) {
+    lines.push('Other errors not located in the text:', '');
+    lines.push(...model.unplacedFootnotes.map(f => `${f.number}. ${footnoteText(f)}`), '');
+  }
+  for (const footnote of model.footnotes) {
+    lines.push(`[^${footnote.number}]: ${footnoteText(footnote)}`);
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,88 @@
+import { AnalysisResult, ExamLevel, LanguageError, TaskType } from '@/types';
+import { getExamProfile } from '@/lib/exams';
+import { errorTypeLabel } from '@/lib/taxonomy';
+import { anchorErrors } from '@/lib/anchoring';
+
+export type ReportFormat = 'pdf' | 'docx' | 'markdown';
+
+export interface ReportMeta {
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  studentName?: string;
+  date?: string;
+}
+
+// A run of the student's text, optionally ending in an error marked with its footnote number
+export interface AnnotatedSegment {
+  text: string;
+  footnote?: number;
+}
+
+export interface Footnote {
+  number: number;
+  error: LanguageError;
+}
+
+export interface ReportModel {
+  title: string;
+  subtitle: string;
+  scoreLines: string[];
+  criteria: Array<{ name: string; score: number; feedback: string; suggestions: string[] }>;
+  contentPoints: string[];
+  segments: AnnotatedSegment[];
+  footnotes: Footnote[];
+  // Errors that could not be placed in the text are listed without a marker
+  unplacedFootnotes: Footnote[];
+}
+
+function buildSegments(writing: string, errors: LanguageError[]): { segments: AnnotatedSegment[]; footnotes: Footnote[]; unplaced: LanguageError[] } {
+  const placed = errors
+    .filter(e => typeof e.start === 'number' && typeof e.end === 'number')
+    .sort((a, b) => a.start! - b.start!);
+  const segments: AnnotatedSegment[] = [];
+  const footnotes: Footnote[] = [];
+  let lastIndex = 0;
+
+  for (const error of placed) {
+    if (error.start! < lastIndex) continue;
+    if (error.start! > lastIndex) {
+      segments.push({ text: writing.substring(lastIndex, error.start!) });
+    }
+    const number = footnotes.length + 1;
+    footnotes.push({ number, error });
+    segments.push({ text: writing.substring(error.start!, error.end!), footnote: number });
+    lastIndex = error.end!;
+  }
+  if (lastIndex < writing.length) {
+    segments.push({ text: writing.substring(lastIndex) });
+  }
+
+  const used = new Set(footnotes.map(f => f.error));
+  return { segments, footnotes, unplaced: errors.filter(e => !used.has(e)) };
+}
+
+export function buildReportModel(result: AnalysisResult, writing: string, meta: ReportMeta): ReportModel {
+  const profile = getExamProfile(meta.examLevel);
+  const { segments, footnotes, unplaced } = buildSegments(writing, anchorErrors(result.errors ?? [], writing));
+  const date = meta.date ?? new Date().toISOString().slice(0, 10);
+
+  return {
+    title: `${profile.name} ${meta.taskType}: Feedback Report`,
+    subtitle: [meta.studentName, date].filter(Boolean).join(' · '),
+    scoreLines: [
+      `Writing subscale: ${result.score.subscaleTotal}/${result.score.subscaleMax}`,
+      `Cambridge English Scale: ${result.score.scaleScore}`,
+      `Likely result: ${result.score.grade}${result.score.cefr ? ` (${result.score.cefr})` : ''}`,
+      ...(result.length ? [`Length: ${result.length.wordCount} words (required ${result.length.min}-${result.length.max})`] : []),
+    ],
+    criteria: result.criteria.map(c => ({ name: c.name, score: c.score, feedback: c.feedback, suggestions: c.suggestions ?? [] })),
+    contentPoints: (result.contentPoints ?? []).map(p => `${p.point}: ${p.status}. ${p.comment}`),
+    segments,
+    footnotes,
+    unplacedFootnotes: unplaced.map((error, i) => ({ number: footnotes.length + i + 1, error })),
+  };
+}
+
+export function footnoteText({ error }: Footnote, arrow = '→'): string {
+  return `${error.text} ${arrow} ${error.correction} (${errorTypeLabel(error.type)})${error.explanation ? `: ${error.explanation}` : ''}`;
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReportModel } from './model';
+import { renderPdf } from './pdf';
+
+function model(feedback: string, writing: string): ReportModel {
+  return {
+    title: 'Writing Report',
+    subtitle: 'FCE · Essay',
+    scoreLines: ['Overall: 3/5'],
+    criteria: [{ name: 'Content', score: 3, feedback, suggestions: [] }],
+    contentPoints: [],
+    segments: [{ text: writing }],
+    footnotes: [],
+    unplacedFootnotes: [],
+  };
+}
+
+// Font dictionaries are written uncompressed, so the embedded font names can be read from the file
+function embeddedFonts(pdf: Uint8Array): string[] {
+  const names = Buffer.from(pdf).toString('latin1').match(/\/BaseFont \/(\w+\+)?[\w-]+/g) ?? [];
+  return Array.from(new Set(names.map(name => name.replace(/^\/BaseFont \/(\w+\+)?/, '')))).sort();
+}
+
+test('renderPdf embeds Noto Sans instead of the built-in fonts', async () => {
+  const fonts = embeddedFonts(await renderPdf(model('Popraw błędy w zdaniach, żeby tekst był łatwiejszy.', 'Dear Łukasz,')));
+  assert.deepEqual(fonts, ['NotoSans-Bold', 'NotoSans-Italic', 'NotoSans-Regular']);
+});
+
+test('renderPdf sets Arabic and Chinese runs in their own Noto family', async () => {
+  const fonts = embeddedFonts(await renderPdf(model('يجب أن تستخدم الماضي البسيط هنا.', 'My name is 王小明.')));
+  assert.ok(fonts.includes('NotoSansArabic-Regular'), fonts.join(', '));
+  assert.ok(fonts.includes('NotoSansSC-Regular'), fonts.join(', '));
+  assert.ok(fonts.includes('NotoSans-Regular'), fonts.join(', '));
+});
@@ -0,0 +1,130 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { footnoteText, ReportModel } from './model';
+
+const MARGIN = 56;
+// Noto Sans has no arrow glyph
+const ARROW = '->';
+
+type FontStyle = 'regular' | 'bold' | 'italic';
+type Script = 'latin' | 'arabic' | 'cjk';
+
+// The built-in PDF fonts only cover Western European text, so Noto is embedded instead: Noto Sans sets Latin,
+// Greek and Cyrillic, and Arabic and Chinese runs switch to their own Noto family (which has no italic)
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts');
+const FONTS: Record<Script, Record<FontStyle, string>> = {
+  latin: {
+    regular: 'noto-sans/400Regular/NotoSans_400Regular.ttf',
+    bold: 'noto-sans/700Bold/NotoSans_700Bold.ttf',
+    italic: 'noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf',
+  },
+  arabic: {
+    regular: 'noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf',
+    bold: 'noto-sans-arabic/700Bold/NotoSansArabic_700Bold.ttf',
+    italic: 'noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf',
+  },
+  cjk: {
+    regular: 'noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf',
+    bold: 'noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf',
+    italic: 'noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf',
+  },
+};
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['arabic', /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/],
+  ['cjk', /[\u2E80-\u2FDF\u3000-\u30FF\u3100-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/],
+];
+
+// Splits text into runs that a single font can set; whitespace stays with the run before it
+function scriptRuns(text: string): { script: Script; text: string }[] {
+  const runs: { script: Script; text: string }[] = [];
+  for (const char of text) {
+    const previous = runs[runs.length - 1];
+    const script = /\s/.test(char) && previous
+      ? previous.script
+      : SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char))?.[0] ?? 'latin';
+    if (previous?.script === script) previous.text += char;
+    else runs.push({ script, text: char });
+  }
+  return runs.length > 0 ? runs : [{ script: 'latin', text }];
+}
+
+export function renderPdf(model: ReportModel): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: model.title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    doc.on('error', reject);
+
+    for (const [script, styles] of Object.entries(FONTS)) {
+      for (const [style, file] of Object.entries(styles)) doc.registerFont(`${script}-${style}`, path.join(FONT_DIR, file));
+    }
+    // Each run is set in its script's font; only the last one ends the paragraph unless the caller continues it
+    const write = (text: string, style: FontStyle = 'regular', options: PDFKit.Mixins.TextOptions = {}) => {
+      const runs = scriptRuns(text);
+      runs.forEach((run, i) => {
+        doc.font(`${run.script}-${style}`).text(run.text, { ...options, continued: i < runs.length - 1 || options.continued });
+      });
+    };
+
+    const heading = (text: string, size = 14) => {
+      doc.moveDown(0.8).fontSize(size).fillColor('#1e3a8a');
+      write(text, 'bold');
+      doc.moveDown(0.3).fontSize(11).fillColor('black');
+    };
+
+    doc.fontSize(20);
+    write(model.title, 'bold');
+    if (model.subtitle) {
+      doc.fontSize(11).fillColor('#4b5563');
+      write(model.subtitle, 'italic');
+      doc.fillColor('black');
+    }
+
+    heading('Scores');
+    model.scoreLines.forEach(line => write(`• ${line}`));
+
+    heading('Feedback by Criterion');
+    for (const criterion of model.criteria) {
+      doc.moveDown(0.4);
+      write(`${criterion.name} (${criterion.score}/5)`, 'bold');
+      write(criterion.feedback);
+      criterion.suggestions.forEach(s => write(`• ${s}`, 'regular', { indent: 12 }));
+    }
+
+    if (model.contentPoints.length > 0) {
+      heading('Content Points');
+      model.contentPoints.forEach(p => write(`• ${p}`));
+    }
+
+    // Errors are bold and underlined, followed by a superscript-style footnote number
+    heading('Annotated Script');
+    model.segments.forEach((segment, i) => {
+      const continued = i < model.segments.length - 1;
+      if (segment.footnote) {
+        doc.fillColor('#b91c1c');
+        write(segment.text, 'bold', { continued: true, underline: true });
+        doc.fontSize(7);
+        write(`[${segment.footnote}]`, 'regular', { continued, underline: false });
+        doc.fontSize(11).fillColor('black');
+      } else {
+        write(segment.text, 'regular', { continued });
+      }
+    });
+
+    const notes = [...model.footnotes, ...model.unplacedFootnotes];
+    if (notes.length > 0) {
+      heading('Notes', 12);
+      doc.fontSize(10);
+      model.footnotes.forEach(f => write(`[${f.number}] ${footnoteText(f, ARROW)}`));
+      if (model.unplacedFootnotes.length > 0) {
+        doc.moveDown(0.4);
+        write('Not located in the text:', 'italic');
+        model.unplacedFootnotes.forEach(f => write(`[${f.number}] ${footnoteText(f, ARROW)}`));
+      }
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,113 @@
+import { AnalysisRequest, AnalysisResult, ResultCacheStatus } from '@/types';
+import { LLMProvider } from '@/lib/llm';
+import { PROMPT_VERSION } from '@/lib/analysis';
+import { getRubric } from '@/lib/rubrics';
+import { DEFAULT_TABLE_VERSION } from '@/lib/scoring';
+import { WORDLIST_VERSION } from '@/lib/vocabulary';
+import { GENRE_RULES_VERSION } from '@/lib/genre';
+import { CACHE_VERSION_FIELDS, CacheKeyContext, normalizeWriting, remapPositions, resultCacheKey } from './key';
+import { createFileCacheStore, createMemoryCacheStore } from './stores';
+import { CachedResult, ResultCacheStore } from './types';
+
+export type { CachedResult, ResultCacheStore } from './types';
+export { createFileCacheStore, createMemoryCacheStore } from './stores';
+export { normalizeWriting, resultCacheKey } from './key';
+export type { CacheKeyContext } from './key';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ResultCacheConfig {
+  store: 'memory' | 'file' | 'off';
+  ttlMs: number;
+  // Memory store only
+  maxEntries: number;
+}
+
+type Env = Record<string, string | undefined>;
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function loadResultCacheConfig(env: Env = process.env): ResultCacheConfig {
+  const store = env.RESULT_CACHE === 'file' || env.RESULT_CACHE === 'off' ? env.RESULT_CACHE : 'memory';
+  return {
+    store,
+    ttlMs: numberFromEnv(env.RESULT_CACHE_TTL_HOURS, 24) * HOUR_MS,
+    maxEntries: Math.floor(numberFromEnv(env.RESULT_CACHE_MAX_ENTRIES, 500)),
+  };
+}
+
+// One cache for the whole process, surviving Next.js dev reloads
+const globalCache = globalThis as unknown as { __resultCache?: { config: ResultCacheConfig; store: ResultCacheStore | null } };
+
+function getCache() {
+  if (!globalCache.__resultCache) {
+    const config = loadResultCacheConfig();
+    const store = config.store === 'off' ? null : config.store === 'file' ? createFileCacheStore() : createMemoryCacheStore(config.maxEntries);
+    globalCache.__resultCache = { config, store };
+  }
+  return globalCache.__resultCache;
+}
+
+// Swap the entry store, e.g. for a Redis-backed one shared between instances
+export function setResultCacheStore(store: ResultCacheStore | null) {
+  getCache().store = store;
+}
+
+function keyContext(provider: LLMProvider): CacheKeyContext {
+  return {
+    model: `${provider.name}:${provider.settings.model}`,
+    temperature: provider.settings.temperature,
+    maxTokens: provider.settings.maxTokens,
+    promptVersion: PROMPT_VERSION,
+    rubricVersion: getRubric().version,
+    scaleTableVersion: process.env.SCALE_TABLE_VERSION || DEFAULT_TABLE_VERSION,
+    wordlistVersion: WORDLIST_VERSION,
+    genreRulesVersion: GENRE_RULES_VERSION,
+  };
+}
+
+// What a fresh analysis reports about the cache: off, skipped at the student's request, or not found
+export function missStatus(reanalyze: boolean | undefined): ResultCacheStatus {
+  return !getCache().store ? 'off' : reanalyze ? 'bypass' : 'miss';
+}
+
+// An earlier assessment of the same text with the same settings, with its positions moved onto this copy of the text
+export async function lookupResult(request: AnalysisRequest, provider: LLMProvider): Promise<{ result: AnalysisResult; cachedAt: string } | null> {
+  const { store } = getCache();
+  if (!store) return null;
+  const context = keyContext(provider);
+  const key = resultCacheKey(request, context);
+  const entry = await store.get(key);
+  if (!entry) return null;
+  if (CACHE_VERSION_FIELDS.some(field => entry[field] !== context[field])) {
+    await store.delete(key);
+    return null;
+  }
+  const result =
+    entry.writing === request.writing
+      ? entry.result
+      : remapPositions(entry.result, normalizeWriting(entry.writing), normalizeWriting(request.writing));
+  return { result, cachedAt: entry.cachedAt };
+}
+
+// A cache that cannot be written only costs a repeat call later, so failures are logged rather than thrown
+export async function storeResult(request: AnalysisRequest, provider: LLMProvider, result: AnalysisResult) {
+  const { config, store } = getCache();
+  if (!store) return;
+  const context = keyContext(provider);
+  const entry: CachedResult = {
+    key: resultCacheKey(request, context),
+    writing: request.writing,
+    result,
+    ...context,
+    cachedAt: new Date().toISOString(),
+  };
+  try {
+    await store.set(entry, config.ttlMs);
+  } catch (error) {
+    console.error('Could not cache the result:', error);
+  }
+}
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisRequest } from '@/types';
+import { CacheKeyContext, normalizeWriting, remapPositions, resultCacheKey } from './key';
+
+const CONTEXT: CacheKeyContext = {
+  model: 'openai:gpt-4o',
+  temperature: 0.3,
+  maxTokens: 4000,
+  promptVersion: 'examiner-8',
+  rubricVersion: 'cambridge-2024.1',
+  scaleTableVersion: 'ces-2024',
+  wordlistVersion: 'cefr-1',
+  genreRulesVersion: 'genre-1',
+};
+
+const REQUEST: AnalysisRequest = { examLevel: 'FCE', taskType: 'Essay', writing: 'I goes home.\n\nThen I sleep.' };
+
+test('normalizeWriting ignores line endings, curly quotes, extra spaces and blank lines', () => {
+  const { text, offsets } = normalizeWriting('  Hello   “world”\r\n\r\n\r\n\tNext para.  \n');
+  assert.equal(text, 'Hello "world"\n\nNext para.');
+  // One offset per character into the original, plus the original length
+  assert.equal(offsets.length, text.length + 1);
+  assert.equal(offsets[text.indexOf('Next')], 24);
+});
+
+test('normalizeWriting keeps case and paragraph breaks', () => {
+  assert.notEqual(normalizeWriting('Hello world').text, normalizeWriting('hello world').text);
+  assert.notEqual(normalizeWriting('One.\n\nTwo.').text, normalizeWriting('One. Two.').text);
+});
+
+test('resultCacheKey is the same for the same text pasted differently', () => {
+  const repasted = { ...REQUEST, writing: 'I goes  home.\r\n\r\n\r\nThen I sleep.  ' };
+  assert.equal(resultCacheKey(repasted, CONTEXT), resultCacheKey(REQUEST, CONTEXT));
+  // Settings that only say where the result is saved do not matter
+  assert.equal(resultCacheKey({ ...REQUEST, studentId: 'anna', revisionOf: 'x' }, CONTEXT), resultCacheKey(REQUEST, CONTEXT));
+});
+
+test('resultCacheKey changes with every setting and version that changes the assessment', () => {
+  const key = resultCacheKey(REQUEST, CONTEXT);
+  const requests: Partial<AnalysisRequest>[] = [
+    { writing: 'I go home.\n\nThen I sleep.' },
+    { examLevel: 'CAE' },
+    { taskType: 'Review' },
+    { taskPrompt: 'Write about home.' },
+    { contentPoints: ['home'] },
+    { samples: 3 },
+    { firstLanguage: 'de' },
+  ];
+  for (const change of requests) {
+    assert.notEqual(resultCacheKey({ ...REQUEST, ...change }, CONTEXT), key, JSON.stringify(change));
+  }
+  const contexts: Partial<CacheKeyContext>[] = [
+    { model: 'openai:gpt-4o-mini' },
+    { temperature: 0.7 },
+    { maxTokens: 8000 },
+    { promptVersion: 'examiner-9' },
+    { rubricVersion: 'cambridge-2025.1' },
+    { scaleTableVersion: 'ces-2025' },
+    { wordlistVersion: 'cefr-2' },
+    { genreRulesVersion: 'genre-2' },
+  ];
+  for (const change of contexts) {
+    assert.notEqual(resultCacheKey(REQUEST, { ...CONTEXT, ...change }), key, JSON.stringify(change));
+  }
+});
+
+test('resultCacheKey only counts the aggregation when several samples are combined', () => {
+  assert.equal(resultCacheKey({ ...REQUEST, aggregation: 'mean' }, CONTEXT), resultCacheKey(REQUEST, CONTEXT));
+  assert.notEqual(
+    resultCacheKey({ ...REQUEST, samples: 3, aggregation: 'mean' }, CONTEXT),
+    resultCacheKey({ ...REQUEST, samples: 3 }, CONTEXT)
+  );
+});
+
+test('remapPositions moves spans onto another copy of the same text', () => {
+  const from = 'I goes  home.';
+  const to = 'I goes home.';
+  const result = { errors: [{ text: 'goes', start: 2, end: 6 }, { text: 'home.', start: 8, end: 13 }] };
+  const moved = remapPositions(result, normalizeWriting(from), normalizeWriting(to));
+  assert.deepEqual(moved.errors.map(e => to.slice(e.start, e.end)), ['goes', 'home.']);
+  // The original is left untouched
+  assert.equal(result.errors[1].start, 8);
+});
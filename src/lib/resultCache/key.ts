@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { AnalysisRequest } from '@/types';
+
+// Text normalised for the cache key, with offsets[i] the position in the original of character i
+export interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+export interface CacheKeyContext {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  promptVersion: string;
+  rubricVersion: string;
+  scaleTableVersion: string;
+  wordlistVersion: string;
+  genreRulesVersion: string;
+}
+
+// Versions of the prompt and the bundled data a result was made with; an entry from any other version is discarded
+export const CACHE_VERSION_FIELDS = ['promptVersion', 'rubricVersion', 'scaleTableVersion', 'wordlistVersion', 'genreRulesVersion'] as const;
+
+const QUOTES: Record<string, string> = { '‘': "'", '’': "'", '“': '"', '”': '"' };
+
+// The same text however it was pasted: line endings, curly quotes, runs of spaces, indentation,
+// extra blank lines and surrounding whitespace do not change it; case and paragraphs do
+export function normalizeWriting(writing: string): NormalizedText {
+  let text = '';
+  const offsets: number[] = [];
+  let pendingSpace = -1;
+  let newlines = 0;
+
+  for (let i = 0; i < writing.length; i++) {
+    let char = writing[i];
+    if (char === '\r') {
+      if (writing[i + 1] === '\n') continue;
+      char = '\n';
+    }
+    if (char !== '\n' && /\s/.test(char)) {
+      if (pendingSpace === -1) pendingSpace = i;
+      continue;
+    }
+    if (char === '\n') {
+      pendingSpace = -1;
+      // At most one blank line between paragraphs, and none before the text
+      if (text === '' || newlines >= 2) continue;
+      newlines++;
+    } else {
+      if (pendingSpace !== -1 && newlines === 0 && text !== '') {
+        text += ' ';
+        offsets.push(pendingSpace);
+      }
+      pendingSpace = -1;
+      newlines = 0;
+      char = QUOTES[char] ?? char;
+    }
+    text += char;
+    offsets.push(i);
+  }
+  while (text.endsWith('\n')) {
+    text = text.slice(0, -1);
+    offsets.pop();
+  }
+  offsets.push(writing.length);
+  return { text, offsets };
+}
+
+// Everything that changes the assessment; the model settings and every version are part of it, so a new version never sees old entries
+export function resultCacheKey(request: AnalysisRequest, context: CacheKeyContext): string {
+  const { writing, examLevel, taskType, taskPrompt = '', contentPoints = [], samples = 1, aggregation, firstLanguage } = request;
+  const parts = [
+    normalizeWriting(writing).text,
+    examLevel,
+    taskType,
+    taskPrompt.trim(),
+    contentPoints,
+    samples,
+    samples > 1 ? aggregation ?? 'median' : null,
+    firstLanguage ?? null,
+    context.model,
+    context.temperature,
+    context.maxTokens,
+    ...CACHE_VERSION_FIELDS.map(field => context[field]),
+  ];
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+// First normalised character at or after the original position, and last one before it
+function firstAtOrAfter(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] >= position) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+// Moves every { start, end } span in a result from one original text onto another with the same normalised form
+export function remapPositions<T>(value: T, from: NormalizedText, to: NormalizedText): T {
+  const last = to.offsets.length - 1;
+  const remap = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(remap);
+    if (!node || typeof node !== 'object') return node;
+    const copy: Record<string, unknown> = Object.fromEntries(Object.entries(node).map(([key, child]) => [key, remap(child)]));
+    if (typeof copy.start === 'number' && typeof copy.end === 'number') {
+      const start = firstAtOrAfter(from.offsets, copy.start);
+      const end = firstAtOrAfter(from.offsets, copy.end);
+      copy.start = to.offsets[Math.min(start, last)];
+      // The end is exclusive: one past the last character still inside the span
+      copy.end = end > start ? to.offsets[Math.min(end - 1, last)] + 1 : copy.start;
+    }
+    return copy;
+  };
+  return remap(value) as T;
+}
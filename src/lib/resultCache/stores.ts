@@ -0,0 +1,80 @@
+import { getCollection } from '@/lib/db';
+import { CachedResult, ResultCacheStore } from './types';
+
+// Drop expired entries every this many writes
+const SWEEP_EVERY = 100;
+
+interface StoredEntry {
+  entry: CachedResult;
+  expiresAt: number;
+}
+
+// Per-process entries, oldest dropped first beyond maxEntries; lost on restart
+export function createMemoryCacheStore(maxEntries = 500): ResultCacheStore {
+  const entries = new Map<string, StoredEntry>();
+  let writes = 0;
+
+  return {
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      if (stored.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return stored.entry;
+    },
+    async set(entry, ttlMs) {
+      const now = Date.now();
+      if (++writes % SWEEP_EVERY === 0) {
+        entries.forEach((stored, key) => {
+          if (stored.expiresAt <= now) entries.delete(key);
+        });
+      }
+      // Re-inserting moves the key to the end, so the first key is always the oldest write
+      entries.delete(entry.key);
+      entries.set(entry.key, { entry, expiresAt: now + ttlMs });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+interface EntryRecord extends StoredEntry {
+  id: string;
+}
+
+// Entries in the JSON file store (DATA_DIR), so repeat submissions are answered across restarts
+export function createFileCacheStore(collectionName = 'result-cache'): ResultCacheStore {
+  const entries = getCollection<EntryRecord>(collectionName);
+  let writes = 0;
+
+  return {
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      if (stored.expiresAt <= Date.now()) {
+        entries.remove(key);
+        return undefined;
+      }
+      return stored.entry;
+    },
+    async set(entry, ttlMs) {
+      const now = Date.now();
+      if (++writes % SWEEP_EVERY === 0) {
+        entries.find(stored => stored.expiresAt <= now).forEach(stored => entries.remove(stored.id));
+      }
+      const record = { id: entry.key, entry, expiresAt: now + ttlMs };
+      if (entries.get(entry.key)) {
+        entries.update(entry.key, record);
+      } else {
+        entries.insert(record);
+      }
+    },
+    async delete(key) {
+      entries.remove(key);
+    },
+  };
+}
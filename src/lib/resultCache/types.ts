@@ -0,0 +1,26 @@
+import { AnalysisResult } from '@/types';
+
+// A finished assessment with what it was made with
+export interface CachedResult {
+  key: string;
+  // The text exactly as submitted; the result's positions refer to it
+  writing: string;
+  result: AnalysisResult;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  promptVersion: string;
+  rubricVersion: string;
+  scaleTableVersion: string;
+  wordlistVersion: string;
+  genreRulesVersion: string;
+  cachedAt: string;
+}
+
+// Storage behind the cache; a Redis store only needs GET, SET with PX and DEL
+export interface ResultCacheStore {
+  // The entry, or undefined when missing or expired
+  get(key: string): Promise<CachedResult | undefined>;
+  set(entry: CachedResult, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffWords, mapOffset } from './diff';
+
+const ORIGINAL = 'I goes to school every day.';
+const REVISED = 'I go to the school every day.';
+
+test('diffWords marks replaced and inserted words and keeps the rest equal', () => {
+  assert.deepEqual(diffWords(ORIGINAL, REVISED), [
+    { type: 'equal', text: 'I ' },
+    { type: 'added', text: 'go' },
+    { type: 'removed', text: 'goes' },
+    { type: 'equal', text: ' to' },
+    { type: 'added', text: ' the' },
+    { type: 'equal', text: ' school every day.' },
+  ]);
+});
+
+test('diffWords segments join back into either draft', () => {
+  const segments = diffWords(ORIGINAL, REVISED);
+  assert.equal(segments.filter(s => s.type !== 'added').map(s => s.text).join(''), ORIGINAL);
+  assert.equal(segments.filter(s => s.type !== 'removed').map(s => s.text).join(''), REVISED);
+});
+
+test('diffWords handles identical and empty drafts', () => {
+  assert.deepEqual(diffWords('Same text.', 'Same text.'), [{ type: 'equal', text: 'Same text.' }]);
+  assert.deepEqual(diffWords('', 'New text'), [{ type: 'added', text: 'New text' }]);
+  assert.deepEqual(diffWords('Old text', ''), [{ type: 'removed', text: 'Old text' }]);
+});
+
+test('mapOffset follows unchanged text and sends removed text to where it was cut', () => {
+  const segments = diffWords(ORIGINAL, REVISED);
+  assert.equal(mapOffset(segments, 0), 0);
+  // "school" is shifted by the inserted " the" and the shorter verb
+  assert.equal(mapOffset(segments, ORIGINAL.indexOf('school')), REVISED.indexOf('school'));
+  // Inside the removed "goes"
+  assert.equal(mapOffset(segments, 3), 4);
+  assert.equal(mapOffset(segments, ORIGINAL.length), REVISED.length);
+});
@@ -0,0 +1,70 @@
+import { DiffSegment } from '@/types';
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else if (text) segments.push({ type, text });
+}
+
+// Word-level diff (longest common subsequence) of two drafts
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(revised);
+
+  // Shared start and end need no table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      pushSegment(segments, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (j < midB.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      pushSegment(segments, 'added', midB[j++]);
+    } else {
+      pushSegment(segments, 'removed', midA[i++]);
+    }
+  }
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
+
+// Where a position in the original text ended up in the revised one; removed text maps to where it was cut
+export function mapOffset(segments: DiffSegment[], offset: number): number {
+  let original = 0;
+  let revised = 0;
+  for (const segment of segments) {
+    if (segment.type === 'added') {
+      revised += segment.text.length;
+      continue;
+    }
+    const end = original + segment.text.length;
+    if (offset < end) {
+      return segment.type === 'equal' ? revised + (offset - original) : revised;
+    }
+    original = end;
+    if (segment.type === 'equal') revised += segment.text.length;
+  }
+  return revised + Math.max(0, offset - original);
+}
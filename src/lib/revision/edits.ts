@@ -0,0 +1,53 @@
+import { LanguageError } from '@/types';
+import { isAnchored } from '@/lib/anchoring';
+
+export type CorrectionStatus = 'pending' | 'accepted' | 'rejected';
+
+// What the student decided for one highlighted error; the replacement starts as the suggested correction
+export interface CorrectionDecision {
+  status: CorrectionStatus;
+  replacement: string;
+}
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// An applied edit with its position in the revised text
+export interface AppliedEdit extends TextEdit {
+  revisedStart: number;
+  revisedEnd: number;
+}
+
+export function initialDecisions(errors: LanguageError[]): CorrectionDecision[] {
+  return errors.map(error => ({ status: 'pending', replacement: error.correction }));
+}
+
+export function acceptedEdits(errors: LanguageError[], decisions: CorrectionDecision[]): TextEdit[] {
+  return errors.flatMap((error, i) =>
+    isAnchored(error) && decisions[i]?.status === 'accepted'
+      ? [{ start: error.start, end: error.end, replacement: decisions[i].replacement }]
+      : []
+  );
+}
+
+// Apply edits against the original offsets in one pass, so earlier replacements never shift later ones;
+// an edit overlapping one already applied is skipped
+export function applyEdits(text: string, edits: TextEdit[]): { text: string; applied: AppliedEdit[] } {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  const applied: AppliedEdit[] = [];
+  let revised = '';
+  let cursor = 0;
+
+  for (const edit of sorted) {
+    if (edit.start < cursor || edit.end > text.length) continue;
+    revised += text.slice(cursor, edit.start);
+    const revisedStart = revised.length;
+    revised += edit.replacement;
+    applied.push({ ...edit, revisedStart, revisedEnd: revised.length });
+    cursor = edit.end;
+  }
+  return { text: revised + text.slice(cursor), applied };
+}
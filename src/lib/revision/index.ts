@@ -0,0 +1,3 @@
+export * from './edits';
+export * from './diff';
+export * from './match';
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisResult, LanguageError } from '@/types';
+import { diffWords } from './diff';
+import { compareCriteria, matchErrors } from './match';
+
+function error(text: string, writing?: string, from = 0): LanguageError {
+  const start = writing?.indexOf(text, from);
+  return {
+    text,
+    correction: '',
+    type: 'grammar',
+    explanation: '',
+    ...(start !== undefined && start >= 0 ? { start, end: start + text.length } : {}),
+  };
+}
+
+const FILLER = 'We talked about it for a long time after dinner. ';
+const BEFORE = `He dont like it. ${FILLER}She dont care. I has a dog.`;
+const AFTER = `In the end he doesnt like it. ${FILLER}She dont care. I has a cat and a informal tone.`;
+
+test('matchErrors sorts errors into fixed, remaining and introduced', () => {
+  const before = [error('dont', BEFORE), error('dont', BEFORE, 20), error('has', BEFORE)];
+  const after = [error('dont', AFTER), error('has', AFTER), error('a informal', AFTER)];
+  const changes = matchErrors(before, after, diffWords(BEFORE, AFTER));
+
+  // The first "dont" was fixed; the one left in the revision is the second, which moved with the text
+  assert.deepEqual(changes.fixed, [before[0]]);
+  assert.deepEqual(changes.remaining, [
+    { before: before[1], after: after[0] },
+    { before: before[2], after: after[1] },
+  ]);
+  assert.deepEqual(changes.introduced, [after[2]]);
+});
+
+test('matchErrors ignores case, curly apostrophes and spacing in the flagged text', () => {
+  const changes = matchErrors([error("Don't  know")], [error('don’t know')], []);
+  assert.equal(changes.remaining.length, 1);
+  assert.deepEqual(changes.fixed, []);
+});
+
+test('matchErrors does not match the same text flagged far from where the old error moved', () => {
+  const before = 'Their going home. ' + 'The rest is fine. '.repeat(5);
+  const after = 'They are going home. ' + 'The rest is fine. '.repeat(5) + 'Their going home.';
+  const changes = matchErrors([error('Their going', before)], [error('Their going', after)], diffWords(before, after));
+  assert.equal(changes.fixed.length, 1);
+  assert.equal(changes.introduced.length, 1);
+});
+
+test('compareCriteria reports the change in each criterion score', () => {
+  const result = (scores: number[]) =>
+    ({ criteria: ['Content', 'Language'].map((name, i) => ({ name, score: scores[i] })) }) as unknown as AnalysisResult;
+  assert.deepEqual(compareCriteria(result([3, 2]), result([4, 2])), [
+    { name: 'Content', before: 3, after: 4, change: 1 },
+    { name: 'Language', before: 2, after: 2, change: 0 },
+  ]);
+});
@@ -0,0 +1,49 @@
+import { AnalysisResult, CriterionChange, DiffSegment, ErrorChanges, ErrorMatch, LanguageError } from '@/types';
+import { isAnchored } from '@/lib/anchoring';
+import { mapOffset } from './diff';
+
+// How far a re-flagged error may sit from where the diff says the old one moved to
+const LOCATION_TOLERANCE = 40;
+
+function errorKey(text: string): string {
+  return text.trim().toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+}
+
+// Sort the earlier draft's errors into fixed and still present, matching each to an error with the same
+// text near its new location; whatever is left over in the revision was introduced by it
+export function matchErrors(before: LanguageError[], after: LanguageError[], diff: DiffSegment[]): ErrorChanges {
+  const taken = after.map(() => false);
+  const fixed: LanguageError[] = [];
+  const remaining: ErrorMatch[] = [];
+
+  for (const error of before) {
+    const key = errorKey(error.text);
+    const expected = isAnchored(error) ? mapOffset(diff, error.start) : null;
+    let best = -1;
+    let bestDistance = Infinity;
+    after.forEach((candidate, i) => {
+      if (taken[i] || errorKey(candidate.text) !== key) return;
+      // Without positions on both sides the text alone decides
+      const distance = expected !== null && isAnchored(candidate) ? Math.abs(candidate.start - expected) : 0;
+      if (distance <= LOCATION_TOLERANCE && distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+
+    if (best === -1) {
+      fixed.push(error);
+    } else {
+      taken[best] = true;
+      remaining.push({ before: error, after: after[best] });
+    }
+  }
+  return { fixed, remaining, introduced: after.filter((_, i) => !taken[i]) };
+}
+
+export function compareCriteria(before: AnalysisResult, after: AnalysisResult): CriterionChange[] {
+  return after.criteria.map(criterion => {
+    const previous = before.criteria.find(c => c.name === criterion.name)?.score ?? 0;
+    return { name: criterion.name, before: previous, after: criterion.score, change: criterion.score - previous };
+  });
+}
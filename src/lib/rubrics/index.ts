@@ -0,0 +1,50 @@
+import { CriterionName, ExamLevel, TaskType } from '@/types';
+import cambridge2024 from './data/cambridge-2024.1.json';
+
+export type Band = '1' | '2' | '3' | '4' | '5';
+
+export interface CriterionRubric {
+  // What the criterion assesses, for every level
+  focus: string;
+  levels: Record<ExamLevel, Record<Band, string>>;
+}
+
+export interface GenreConventions {
+  reader: string;
+  purpose: string;
+  register: string;
+  conventions: string[];
+}
+
+export interface Rubric {
+  version: string;
+  description: string;
+  criteria: Record<CriterionName, CriterionRubric>;
+  genres: Record<TaskType, GenreConventions>;
+}
+
+export const BANDS: Band[] = ['5', '4', '3', '2', '1'];
+
+const RUBRICS: Record<string, Rubric> = {
+  [cambridge2024.version]: cambridge2024 as Rubric,
+};
+
+export const DEFAULT_RUBRIC_VERSION = cambridge2024.version;
+
+export function listRubricVersions(): string[] {
+  return Object.keys(RUBRICS);
+}
+
+// Add or replace a rubric at runtime, e.g. a centre's own descriptors loaded from a data file
+export function registerRubric(rubric: Rubric) {
+  RUBRICS[rubric.version] = rubric;
+}
+
+// The rubric in use: the given version, else RUBRIC_VERSION, else the default
+export function getRubric(version: string = process.env.RUBRIC_VERSION || DEFAULT_RUBRIC_VERSION): Rubric {
+  const rubric = RUBRICS[version];
+  if (!rubric) {
+    throw new Error(`Unknown rubric "${version}". Available: ${listRubricVersions().join(', ')}`);
+  }
+  return rubric;
+}
@@ -0,0 +1,40 @@
+import { Criterion, ExamLevel, ScoreBreakdown } from '@/types';
+import { getConversionTable, LevelConversion } from './tables';
+
+export * from './tables';
+
+export const MAX_CRITERION_SCORE = 5;
+
+function interpolate(anchors: [number, number][], total: number): number {
+  if (total <= anchors[0][0]) return anchors[0][1];
+  for (let i = 1; i < anchors.length; i++) {
+    const [x1, y1] = anchors[i];
+    if (total <= x1) {
+      const [x0, y0] = anchors[i - 1];
+      return y0 + ((total - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return anchors[anchors.length - 1][1];
+}
+
+export function toScaleScore(conversion: LevelConversion, subscaleTotal: number): number {
+  return Math.round(interpolate(conversion.anchors, subscaleTotal));
+}
+
+// Keep the 0-20 subscale total and map it to a Cambridge English Scale score and grade for the level
+export function scoreCriteria(criteria: Criterion[], examLevel: ExamLevel, tableVersion?: string): ScoreBreakdown {
+  const table = getConversionTable(tableVersion);
+  const conversion = table.levels[examLevel];
+  const subscaleTotal = criteria.reduce((sum, c) => sum + c.score, 0);
+  const scaleScore = toScaleScore(conversion, subscaleTotal);
+  const grade = conversion.grades.find(band => scaleScore >= band.min) ?? conversion.grades[conversion.grades.length - 1];
+
+  return {
+    subscaleTotal,
+    subscaleMax: criteria.length * MAX_CRITERION_SCORE,
+    scaleScore,
+    grade: grade.label,
+    cefr: grade.cefr,
+    tableVersion: table.version,
+  };
+}
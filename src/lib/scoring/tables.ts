@@ -0,0 +1,44 @@
+import { ExamLevel } from '@/types';
+import ces2024 from './tables/ces-2024.1.json';
+
+export interface GradeBand {
+  min: number;
+  label: string;
+  cefr: string | null;
+}
+
+export interface LevelConversion {
+  // [subscale total, scale score] pairs, ascending; scores between anchors are interpolated
+  anchors: [number, number][];
+  // Ordered from highest to lowest threshold
+  grades: GradeBand[];
+}
+
+export interface ConversionTable {
+  version: string;
+  description: string;
+  levels: Record<ExamLevel, LevelConversion>;
+}
+
+const TABLES: Record<string, ConversionTable> = {
+  [ces2024.version]: ces2024 as ConversionTable,
+};
+
+export const DEFAULT_TABLE_VERSION = ces2024.version;
+
+export function listTableVersions(): string[] {
+  return Object.keys(TABLES);
+}
+
+// Add or replace a table at runtime, e.g. one loaded from a centre's own data file
+export function registerConversionTable(table: ConversionTable) {
+  TABLES[table.version] = table;
+}
+
+export function getConversionTable(version: string = DEFAULT_TABLE_VERSION): ConversionTable {
+  const table = TABLES[version];
+  if (!table) {
+    throw new Error(`Unknown conversion table "${version}". Available: ${listTableVersions().join(', ')}`);
+  }
+  return table;
+}
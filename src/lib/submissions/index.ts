@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import {
+  AnalysisRequest,
+  AnalysisResult,
+  DraftComparison,
+  ErrorTypeCount,
+  ModelRewrite,
+  RevisionReview,
+  StudentProgress,
+  Submission,
+  SubmissionSummary,
+} from '@/types';
+import { getCollection } from '@/lib/db';
+import { PROMPT_VERSION } from '@/lib/analysis';
+import { compareCriteria, diffWords, matchErrors } from '@/lib/revision';
+
+const submissions = () => getCollection<Submission>('submissions');
+
+export function normalizeUserId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const id = value.trim().toLowerCase();
+  return /^[\w.@-]{1,64}$/.test(id) ? id : null;
+}
+
+export function saveSubmission(
+  studentId: string,
+  request: AnalysisRequest,
+  result: AnalysisResult,
+  extra: Pick<Submission, 'assignmentId' | 'late' | 'revisionOf'> = {}
+): Submission {
+  return submissions().insert({
+    ...extra,
+    id: randomUUID(),
+    studentId,
+    createdAt: new Date().toISOString(),
+    examLevel: request.examLevel,
+    taskType: request.taskType,
+    taskPrompt: request.taskPrompt || undefined,
+    contentPoints: request.contentPoints?.length ? request.contentPoints : undefined,
+    firstLanguage: request.firstLanguage,
+    writing: request.writing,
+    promptVersion: result.promptVersion ?? PROMPT_VERSION,
+    result,
+  });
+}
+
+export function getSubmission(id: string): Submission | undefined {
+  return submissions().get(id);
+}
+
+export function listAssignmentSubmissions(assignmentId: string): Submission[] {
+  return submissions()
+    .find(s => s.assignmentId === assignmentId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function listSubmissions(studentId: string): Submission[] {
+  return submissions()
+    .find(s => s.studentId === studentId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function summarize(submission: Submission): SubmissionSummary {
+  const { result } = submission;
+  return {
+    id: submission.id,
+    createdAt: submission.createdAt,
+    examLevel: submission.examLevel,
+    taskType: submission.taskType,
+    promptVersion: submission.promptVersion,
+    excerpt: submission.writing.slice(0, 120),
+    criteria: Object.fromEntries(result.criteria.map(c => [c.name, c.score])),
+    score: result.score,
+    revisionOf: submission.revisionOf,
+  };
+}
+
+// A revision must point at an earlier submission of the same student
+export function checkRevisionOf(
+  studentId: string,
+  revisionOf: unknown,
+  revisedId?: string
+): { ok: true; revisionOf?: string } | { ok: false; problem: { error: string; message: string } } {
+  if (revisionOf === undefined || revisionOf === null || revisionOf === '') return { ok: true };
+  const previous = typeof revisionOf === 'string' ? getSubmission(revisionOf) : undefined;
+  const revised = revisedId ? getSubmission(revisedId) : undefined;
+  if (!previous || previous.studentId !== studentId || previous.id === revisedId) {
+    return { ok: false, problem: { error: 'Invalid revision', message: 'The earlier draft must be another submission by the same student.' } };
+  }
+  if (revised && previous.createdAt > revised.createdAt) {
+    return { ok: false, problem: { error: 'Invalid revision', message: 'A submission can only revise an earlier one.' } };
+  }
+  return { ok: true, revisionOf: previous.id };
+}
+
+export function setRevisionOf(id: string, revisionOf: string | undefined): Submission | undefined {
+  return submissions().update(id, { revisionOf, revisionReview: undefined });
+}
+
+export function saveRevisionReview(id: string, review: RevisionReview): Submission | undefined {
+  return submissions().update(id, { revisionReview: review });
+}
+
+export function saveModelRewrite(id: string, modelRewrite: ModelRewrite): Submission | undefined {
+  return submissions().update(id, { modelRewrite });
+}
+
+// Everything about the two drafts that can be worked out without the examiner model
+export function compareSubmissions(previous: Submission, revised: Submission, review: RevisionReview | null = null): DraftComparison {
+  const diff = diffWords(previous.writing, revised.writing);
+  const criteria = compareCriteria(previous.result, revised.result);
+  return {
+    previous: summarize(previous),
+    revised: summarize(revised),
+    diff,
+    criteria,
+    subscaleChange: revised.result.score.subscaleTotal - previous.result.score.subscaleTotal,
+    errors: matchErrors(previous.result.errors ?? [], revised.result.errors ?? [], diff),
+    review,
+  };
+}
+
+// Error types ranked by how often they occur across all of a student's scripts
+export function countErrorTypes(list: Submission[]): ErrorTypeCount[] {
+  const counts = new Map<string, ErrorTypeCount>();
+  for (const submission of list) {
+    const seen = new Set<string>();
+    for (const error of submission.result.errors ?? []) {
+      const type = error.type.toLowerCase();
+      const entry = counts.get(type) ?? { type, count: 0, submissions: 0 };
+      entry.count += 1;
+      if (!seen.has(type)) {
+        entry.submissions += 1;
+        seen.add(type);
+      }
+      counts.set(type, entry);
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+export function getStudentProgress(studentId: string): StudentProgress {
+  const list = listSubmissions(studentId);
+  return {
+    studentId,
+    submissions: list.map(summarize),
+    errorTypes: countErrorTypes(list),
+  };
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LanguageError } from '@/types';
+import { classifyErrorType, errorCategory, errorTypeLabel, normalizeSeverity, summarizeErrors } from './index';
+
+test('classifyErrorType maps the labels models use onto the taxonomy', () => {
+  assert.deepEqual(classifyErrorType('Verb tense'), { type: 'tense', category: 'grammar' });
+  assert.deepEqual(classifyErrorType('grammar/articles'), { type: 'article', category: 'grammar' });
+  assert.deepEqual(classifyErrorType('Grammar: tense'), { type: 'tense', category: 'grammar' });
+  assert.deepEqual(classifyErrorType('grammar article'), { type: 'article', category: 'grammar' });
+  assert.deepEqual(classifyErrorType('Prepositions'), { type: 'preposition', category: 'grammar' });
+  assert.deepEqual(classifyErrorType('Typo'), { type: 'spelling', category: 'spelling' });
+  assert.deepEqual(classifyErrorType('vocabulary'), { type: 'vocabulary', category: 'vocabulary' });
+});
+
+test('classifyErrorType keeps unknown labels without a category', () => {
+  assert.deepEqual(classifyErrorType(' Made-up Thing '), { type: 'made-up thing' });
+  assert.deepEqual(classifyErrorType(''), { type: 'unknown' });
+});
+
+test('normalizeSeverity treats only "impeding" as impeding', () => {
+  assert.equal(normalizeSeverity('impeding'), 'impeding');
+  assert.equal(normalizeSeverity(' Impeding '), 'impeding');
+  for (const value of ['minor', 'non-impeding', 'not serious', 'major', '', undefined, 1]) {
+    assert.equal(normalizeSeverity(value), 'minor');
+  }
+});
+
+test('errorCategory and errorTypeLabel fall back to the type', () => {
+  assert.equal(errorCategory({ type: 'tense' }), 'grammar');
+  assert.equal(errorCategory({ type: 'tense', category: 'style' }), 'style');
+  assert.equal(errorTypeLabel('tense'), 'Tense');
+  assert.equal(errorTypeLabel('grammar'), 'Grammar');
+  assert.equal(errorTypeLabel('xyz'), 'xyz');
+});
+
+test('summarizeErrors counts errors per category and type, and keeps unrecognized types apart', () => {
+  const error = (type: string, severity: LanguageError['severity'] = 'minor'): LanguageError =>
+    ({ text: 'x', correction: 'y', explanation: '', type, severity });
+  const stats = summarizeErrors([error('tense', 'impeding'), error('tense'), error('article'), error('made-up')]);
+
+  assert.equal(stats.total, 4);
+  assert.equal(stats.impeding, 1);
+  const grammar = stats.categories.find(c => c.category === 'grammar')!;
+  assert.equal(grammar.count, 3);
+  assert.equal(grammar.impeding, 1);
+  assert.deepEqual(grammar.types, [{ type: 'tense', count: 2 }, { type: 'article', count: 1 }]);
+  assert.deepEqual(stats.unrecognized, [{ type: 'made-up', count: 1 }]);
+});
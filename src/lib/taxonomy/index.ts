@@ -0,0 +1,184 @@
+import { ErrorCategory, ErrorSeverity, ErrorStats, LanguageError } from '@/types';
+
+export interface ErrorTypeDefinition {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface ErrorCategoryDefinition {
+  label: string;
+  types: ErrorTypeDefinition[];
+}
+
+// Shared by the examiner prompt, the output parser and the highlighter legend
+export const ERROR_TAXONOMY: Record<ErrorCategory, ErrorCategoryDefinition> = {
+  grammar: {
+    label: 'Grammar',
+    types: [
+      { id: 'tense', label: 'Tense', description: 'wrong tense or aspect' },
+      { id: 'verb-form', label: 'Verb form', description: 'infinitive, gerund, participle, modal or passive form' },
+      { id: 'agreement', label: 'Agreement', description: 'subject-verb or pronoun agreement' },
+      { id: 'article', label: 'Article', description: 'missing, extra or wrong article or determiner' },
+      { id: 'preposition', label: 'Preposition', description: 'missing, extra or wrong preposition' },
+      { id: 'word-order', label: 'Word order', description: 'words in the wrong order' },
+      { id: 'plural', label: 'Countable / plural', description: 'noun number or countability' },
+      { id: 'pronoun', label: 'Pronoun', description: 'wrong or unclear pronoun' },
+      { id: 'sentence-structure', label: 'Sentence structure', description: 'clause structure, missing subject or verb' },
+    ],
+  },
+  vocabulary: {
+    label: 'Vocabulary',
+    types: [
+      { id: 'word-choice', label: 'Word choice', description: 'wrong or imprecise word' },
+      { id: 'collocation', label: 'Collocation', description: 'words that do not go together' },
+      { id: 'word-form', label: 'Word form', description: 'wrong part of speech or derivation' },
+      { id: 'idiom', label: 'Idiom / phrasal verb', description: 'misused fixed expression or phrasal verb' },
+    ],
+  },
+  spelling: {
+    label: 'Spelling',
+    types: [{ id: 'spelling', label: 'Spelling', description: 'misspelt word' }],
+  },
+  punctuation: {
+    label: 'Punctuation',
+    types: [
+      { id: 'comma', label: 'Comma', description: 'missing or misplaced comma' },
+      { id: 'apostrophe', label: 'Apostrophe', description: 'missing or misused apostrophe' },
+      { id: 'capitalisation', label: 'Capitalisation', description: 'capital letters' },
+      { id: 'run-on', label: 'Run-on / fragment', description: 'sentences joined or broken off incorrectly' },
+    ],
+  },
+  style: {
+    label: 'Style',
+    types: [
+      { id: 'register', label: 'Register', description: 'too informal or formal for the task' },
+      { id: 'redundancy', label: 'Redundancy', description: 'repetition or unnecessary words' },
+      { id: 'cohesion', label: 'Cohesion', description: 'missing or misused linking words' },
+    ],
+  },
+};
+
+export const ERROR_CATEGORIES = Object.keys(ERROR_TAXONOMY) as ErrorCategory[];
+
+// Labels the model commonly uses for the taxonomy's types
+const ALIASES: Record<string, string> = {
+  'verb tense': 'tense',
+  'verb forms': 'verb-form',
+  gerund: 'verb-form',
+  infinitive: 'verb-form',
+  modal: 'verb-form',
+  passive: 'verb-form',
+  'subject verb agreement': 'agreement',
+  sva: 'agreement',
+  determiner: 'article',
+  countability: 'plural',
+  countable: 'plural',
+  uncountable: 'plural',
+  'noun number': 'plural',
+  syntax: 'sentence-structure',
+  'wrong word': 'word-choice',
+  lexis: 'word-choice',
+  lexical: 'word-choice',
+  'word formation': 'word-form',
+  'part of speech': 'word-form',
+  'phrasal verb': 'idiom',
+  typo: 'spelling',
+  capitalization: 'capitalisation',
+  'capital letters': 'capitalisation',
+  fragment: 'run-on',
+  'sentence fragment': 'run-on',
+  'run on sentence': 'run-on',
+  formality: 'register',
+  informal: 'register',
+  tone: 'register',
+  repetition: 'redundancy',
+  wordiness: 'redundancy',
+  linking: 'cohesion',
+  'linking words': 'cohesion',
+  connectors: 'cohesion',
+  'discourse markers': 'cohesion',
+};
+
+function key(label: string): string {
+  return label.trim().toLowerCase().replace(/[-_\s]+/g, ' ');
+}
+
+const TYPE_INDEX = new Map<string, { type: string; category: ErrorCategory }>();
+for (const category of ERROR_CATEGORIES) {
+  TYPE_INDEX.set(key(category), { type: category, category });
+  for (const { id } of ERROR_TAXONOMY[category].types) {
+    TYPE_INDEX.set(key(id), { type: id, category });
+  }
+}
+for (const [alias, id] of Object.entries(ALIASES)) {
+  TYPE_INDEX.set(key(alias), TYPE_INDEX.get(key(id))!);
+}
+
+function lookup(label: string) {
+  const k = key(label);
+  return TYPE_INDEX.get(k) ?? (k.endsWith('s') ? TYPE_INDEX.get(k.slice(0, -1)) : undefined);
+}
+
+// Map a model's label ("Verb tense", "grammar/articles", "Grammar: tense") onto the taxonomy;
+// unknown labels are kept as given, without a category
+export function classifyErrorType(label: string): { type: string; category?: ErrorCategory } {
+  const found = lookup(label);
+  if (found) return found;
+
+  const parts = label.split(/[/:.>(),]+/).filter(part => part.trim());
+  for (const part of parts.reverse()) {
+    const match = lookup(part);
+    if (match) return match;
+  }
+  // "grammar article" style labels: drop a leading category name
+  const words = key(label).split(' ');
+  if (words.length > 1 && lookup(words[0])?.type === words[0]) {
+    const rest = lookup(words.slice(1).join(' '));
+    if (rest) return rest;
+  }
+  return { type: label.trim().toLowerCase() || 'unknown' };
+}
+
+// Only the value the prompt asks for counts as impeding; "non-impeding" or any other wording is minor
+export function normalizeSeverity(value: unknown): ErrorSeverity {
+  return typeof value === 'string' && value.trim().toLowerCase() === 'impeding' ? 'impeding' : 'minor';
+}
+
+// Category for display; errors saved before the taxonomy existed only have a type
+export function errorCategory(error: Pick<LanguageError, 'type' | 'category'>): ErrorCategory | undefined {
+  return error.category ?? classifyErrorType(error.type).category;
+}
+
+export function errorTypeLabel(type: string): string {
+  const found = lookup(type);
+  if (!found) return type;
+  if (found.type === found.category) return ERROR_TAXONOMY[found.category].label;
+  return ERROR_TAXONOMY[found.category].types.find(t => t.id === found.type)!.label;
+}
+
+export function summarizeErrors(errors: LanguageError[]): ErrorStats {
+  const unrecognized = new Map<string, number>();
+  const categories = ERROR_CATEGORIES.map(category => ({ category, count: 0, impeding: 0, types: new Map<string, number>() }));
+
+  for (const error of errors) {
+    const category = errorCategory(error);
+    const entry = categories.find(c => c.category === category);
+    if (!entry) {
+      unrecognized.set(error.type, (unrecognized.get(error.type) ?? 0) + 1);
+      continue;
+    }
+    entry.count++;
+    if (error.severity === 'impeding') entry.impeding++;
+    entry.types.set(error.type, (entry.types.get(error.type) ?? 0) + 1);
+  }
+
+  const sortedCounts = (counts: Map<string, number>) =>
+    Array.from(counts, ([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count);
+  return {
+    total: errors.length,
+    impeding: errors.filter(e => e.severity === 'impeding').length,
+    categories: categories.map(c => ({ ...c, types: sortedCounts(c.types) })),
+    unrecognized: sortedCounts(unrecognized),
+  };
+}
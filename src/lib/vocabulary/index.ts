@@ -0,0 +1,4 @@
+export { CEFR_LEVELS, WORDLIST_VERSION, lemmatize, wordLevel } from './wordlist';
+export type { WordList } from './wordlist';
+export { VOCABULARY_EXPECTATIONS, confirmSuggestions, profileVocabulary } from './profile';
+export type { VocabularyExpectation } from './profile';
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { confirmSuggestions, lemmatize, profileVocabulary, wordLevel } from './index';
+
+const SCRIPT = 'It is a good school. The teachers are good. The food is good and the children are happy. Good!';
+
+test('lemmatize maps irregular, inflected and derived forms to their headword', () => {
+  assert.equal(lemmatize('went'), 'go');
+  assert.equal(lemmatize('stopped'), 'stop');
+  assert.equal(lemmatize('making'), 'make');
+  assert.equal(lemmatize('happily'), 'happy');
+  assert.equal(lemmatize("Don’t"), 'do');
+  // A two-letter stem is not trusted: "using" is "use", not "us"
+  assert.equal(lemmatize('using'), 'use');
+  assert.equal(lemmatize('xyzzy'), undefined);
+});
+
+test('profileVocabulary shares out listed content words by level and checks the exam targets', () => {
+  const profile = profileVocabulary(SCRIPT, 'FCE');
+  assert.equal(profile.contentWords, 9);
+  assert.equal(profile.unlisted, 0);
+  assert.deepEqual(profile.levels.find(l => l.level === 'A1'), { level: 'A1', count: 9, share: 1 });
+  assert.deepEqual(profile.targets.map(t => [t.level, t.met]), [['B1', false], ['B2', false]]);
+
+  const ambitious = profileVocabulary('Crucial and beneficial reforms are essential.', 'FCE');
+  assert.ok(ambitious.targets.every(t => t.met), JSON.stringify(ambitious.targets));
+});
+
+test('profileVocabulary flags a repeated low-level word with upgrades at the exam level', () => {
+  const [good, ...others] = profileVocabulary(SCRIPT, 'FCE').overused;
+  assert.deepEqual(others, []);
+  assert.equal(good.lemma, 'good');
+  assert.equal(good.count, 4);
+  assert.deepEqual(good.uses.map(use => use.sentence), [1, 2, 3, 4]);
+  assert.ok(good.candidates.length > 0);
+  assert.ok(good.candidates.every(c => c.level !== 'A1' && c.level !== 'A2'), JSON.stringify(good.candidates));
+});
+
+test('confirmSuggestions keeps only confirmed alternatives above the word and the exam level', () => {
+  const profile = profileVocabulary(SCRIPT, 'FCE');
+  const confirmed = confirmSuggestions(profile, 'FCE', [
+    { word: 'good', sentence: 2, alternatives: ['Valuable', 'excellent', 'superb', 'crucial'] },
+  ]);
+  const uses = confirmed.overused[0].uses;
+  assert.deepEqual(uses[0].suggestions, []);
+  // "excellent" is only A2 and "superb" is not listed; "crucial" is the model's own word but listed at B2
+  assert.deepEqual(uses[1].suggestions, [
+    { word: 'valuable', level: wordLevel('valuable') },
+    { word: 'crucial', level: 'B2' },
+  ]);
+});
@@ -0,0 +1,120 @@
+import { CefrLevel, ExamLevel, OverusedWord, VocabularyProfile, VocabularyToken, WordSuggestion } from '@/types';
+import { round, splitSentences, tokenizeWords } from '@/lib/metrics/text';
+import { alternativesFor, CEFR_LEVELS, isFunctionWord, lemmatize, levelRank, wordLevel, WORDLIST_VERSION } from './wordlist';
+
+export interface VocabularyExpectation {
+  // Share of listed content words expected at or above each level
+  targets: Array<{ level: CefrLevel; minShare: number }>;
+  // Words up to this level count as low-level when repeated
+  overuseUpTo: CefrLevel;
+  // Suggested alternatives are at least this level
+  suggestFrom: CefrLevel;
+}
+
+// Calibrated on sample scripts near the pass mark of each exam; everyday words still make up most of a good text
+export const VOCABULARY_EXPECTATIONS: Record<ExamLevel, VocabularyExpectation> = {
+  FCE: { targets: [{ level: 'B1', minShare: 0.25 }, { level: 'B2', minShare: 0.06 }], overuseUpTo: 'A2', suggestFrom: 'B1' },
+  CAE: { targets: [{ level: 'B2', minShare: 0.15 }, { level: 'C1', minShare: 0.03 }], overuseUpTo: 'B1', suggestFrom: 'B2' },
+  CPE: { targets: [{ level: 'B2', minShare: 0.25 }, { level: 'C1', minShare: 0.08 }], overuseUpTo: 'B1', suggestFrom: 'B2' },
+};
+
+// Uses of the same low-level word before it counts as overused
+const OVERUSE_THRESHOLD = 3;
+const MAX_OVERUSED = 8;
+
+interface TaggedToken extends VocabularyToken {
+  lemma?: string;
+}
+
+function suggestionsFor(lemma: string, level: CefrLevel, suggestFrom: CefrLevel): WordSuggestion[] {
+  const floor = Math.max(levelRank(level) + 1, levelRank(suggestFrom));
+  return alternativesFor(lemma)
+    .map(word => ({ word, level: wordLevel(word) }))
+    .filter((s): s is WordSuggestion => !!s.level && levelRank(s.level) >= floor);
+}
+
+// Tag every word with its CEFR level and compare the spread with what the exam expects
+export function profileVocabulary(text: string, examLevel: ExamLevel): VocabularyProfile {
+  const expectation = VOCABULARY_EXPECTATIONS[examLevel];
+  const sentences = splitSentences(text);
+
+  const tagged: TaggedToken[] = tokenizeWords(text).map(token => {
+    const lemma = lemmatize(token.normalized);
+    return { start: token.start, end: token.end, level: (lemma && wordLevel(lemma)) || null, lemma };
+  });
+  const content = tagged.filter(token => !(token.lemma && isFunctionWord(token.lemma)));
+  const listed = content.filter(token => token.level);
+
+  const levels = CEFR_LEVELS.map(level => {
+    const count = listed.filter(token => token.level === level).length;
+    return { level, count, share: listed.length ? round(count / listed.length, 3) : 0 };
+  });
+
+  const targets = expectation.targets.map(({ level, minShare }) => {
+    const share = round(levels.filter(l => levelRank(l.level) >= levelRank(level)).reduce((sum, l) => sum + l.share, 0), 3);
+    return { level, minShare, share, met: share >= minShare };
+  });
+
+  const byLemma = new Map<string, TaggedToken[]>();
+  for (const token of listed) {
+    if (levelRank(token.level!) > levelRank(expectation.overuseUpTo)) continue;
+    byLemma.set(token.lemma!, [...(byLemma.get(token.lemma!) ?? []), token]);
+  }
+  // Only general-purpose words with listed upgrades count, so the topic's own nouns ("teacher") are not flagged
+  const overused: OverusedWord[] = Array.from(byLemma.entries())
+    .map(([lemma, uses]) => ({ lemma, uses, candidates: suggestionsFor(lemma, uses[0].level!, expectation.suggestFrom) }))
+    .filter(({ uses, candidates }) => uses.length >= OVERUSE_THRESHOLD && candidates.length > 0)
+    .sort((a, b) => b.uses.length - a.uses.length)
+    .slice(0, MAX_OVERUSED)
+    .map(({ lemma, uses, candidates }) => ({
+      lemma,
+      level: uses[0].level!,
+      count: uses.length,
+      candidates,
+      uses: uses.map(({ start, end }) => ({
+        start,
+        end,
+        sentence: sentences.findIndex(s => start >= s.start && start < s.end) + 1,
+        suggestions: [],
+      })),
+    }));
+
+  return {
+    wordlistVersion: WORDLIST_VERSION,
+    contentWords: content.length,
+    unlisted: content.length - listed.length,
+    levels,
+    targets,
+    overused,
+    tokens: tagged.map(({ start, end, level }) => ({ start, end, level })),
+  };
+}
+
+// Keep, for each use, only the alternatives the examiner model confirmed fit that sentence
+export function confirmSuggestions(
+  profile: VocabularyProfile,
+  examLevel: ExamLevel,
+  confirmations: Array<{ word: string; sentence?: number; alternatives: string[] }>
+): VocabularyProfile {
+  const { suggestFrom } = VOCABULARY_EXPECTATIONS[examLevel];
+  const overused = profile.overused.map(word => ({
+    ...word,
+    uses: word.uses.map(use => {
+      const confirmed = confirmations
+        .filter(c => lemmatize(c.word) === word.lemma && (c.sentence === undefined || c.sentence === use.sentence))
+        .flatMap(c => c.alternatives.map(a => a.trim().toLowerCase()));
+      const suggestions: WordSuggestion[] = [];
+      for (const alternative of new Set(confirmed)) {
+        // The model may offer its own words, but only listed ones above the word's level
+        const level = wordLevel(lemmatize(alternative) ?? alternative);
+        const known = word.candidates.find(c => c.word === alternative);
+        if (known) suggestions.push(known);
+        else if (level && levelRank(level) > levelRank(word.level) && levelRank(level) >= levelRank(suggestFrom)) {
+          suggestions.push({ word: alternative, level });
+        }
+      }
+      return { ...use, suggestions };
+    }),
+  }));
+  return { ...profile, overused };
+}
@@ -0,0 +1,92 @@
+import { CefrLevel } from '@/types';
+import cefr1 from './wordlists/cefr-wordlist-1.json';
+
+export interface WordList {
+  version: string;
+  description: string;
+  levels: Record<CefrLevel, string[]>;
+  // Grammar words (articles, pronouns, auxiliaries...) left out of the level shares
+  function: string[];
+  // Irregular forms mapped to their headword
+  forms: Record<string, string>;
+  // Low-level headwords with higher-level words that can often replace them
+  alternatives: Record<string, string[]>;
+}
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+const WORDLIST = cefr1 as WordList;
+
+export const WORDLIST_VERSION = WORDLIST.version;
+
+const LEVELS = new Map<string, CefrLevel>();
+CEFR_LEVELS.forEach(level => WORDLIST.levels[level].forEach(word => LEVELS.has(word) || LEVELS.set(word, level)));
+const FUNCTION_WORDS = new Set(WORDLIST.function);
+
+// Suffixes stripped in order, with the ending that restores the headword ("making" -> "mak" + "e")
+const SUFFIX_RULES: Array<[string, string[]]> = [
+  ["n't", ['']],
+  ["'s", ['']],
+  ["'re", ['']],
+  ["'ve", ['']],
+  ["'ll", ['']],
+  ["'d", ['']],
+  ["'m", ['']],
+  ['ies', ['y']],
+  ['es', ['e', '']],
+  ['s', ['']],
+  ['ied', ['y']],
+  ['ed', ['e', '']],
+  ['ing', ['e', '']],
+  ['ier', ['y']],
+  ['iest', ['y']],
+  ['er', ['e', '']],
+  ['est', ['e', '']],
+  ['ably', ['able']],
+  ['ibly', ['ible']],
+  ['ily', ['y']],
+  ['ly', ['']],
+];
+
+function headword(word: string): string | undefined {
+  if (LEVELS.has(word) || FUNCTION_WORDS.has(word)) return word;
+  return WORDLIST.forms[word];
+}
+
+// Headword of an inflected or derived form; undefined when the word list has no match
+export function lemmatize(word: string): string | undefined {
+  const lower = word.toLowerCase().replace(/’/g, "'");
+  const direct = headword(lower);
+  if (direct) return direct;
+  for (const [suffix, endings] of SUFFIX_RULES) {
+    if (!lower.endsWith(suffix)) continue;
+    const stem = lower.slice(0, -suffix.length);
+    if (stem.length < 2) continue;
+    const candidates = endings.map(ending => stem + ending);
+    // "stopped", "running", "bigger"
+    if (/([b-df-hj-np-tv-z])\1$/.test(stem)) candidates.push(stem.slice(0, -1));
+    for (const candidate of candidates) {
+      // Very short stems match unrelated words ("using" is not "us"); contractions are exempt ("it's", "don't")
+      if (candidate.length < 3 && !suffix.startsWith("'") && suffix !== "n't") continue;
+      const found = headword(candidate);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+export function isFunctionWord(lemma: string): boolean {
+  return FUNCTION_WORDS.has(lemma);
+}
+
+export function wordLevel(lemma: string): CefrLevel | undefined {
+  return LEVELS.get(lemma);
+}
+
+export function levelRank(level: CefrLevel): number {
+  return CEFR_LEVELS.indexOf(level);
+}
+
+export function alternativesFor(lemma: string): string[] {
+  return WORDLIST.alternatives[lemma] ?? [];
+}
@@ -1,28 +1,534 @@
-export type ExamLevel = 'CAE' | 'CPE';
-export type TaskType = 'Essay' | 'Proposal' | 'Report' | 'Review' | 'Letter';
+export type ExamLevel = 'FCE' | 'CAE' | 'CPE';
+export type TaskType = 'Essay' | 'Proposal' | 'Report' | 'Review' | 'Letter' | 'Email' | 'Article';
+export type TaskPart = 1 | 2;
+
+export type CriterionName = 'Content' | 'Communicative Achievement' | 'Organisation' | 'Language';
+
+export type Aggregation = 'median' | 'mean';
+
+// Spread of one criterion's score across independent assessments
+export interface CriterionConsistency {
+  samples: number[];
+  spread: number;
+  stdDev: number;
+  lowAgreement: boolean;
+}
 
 export interface Criterion {
   name: string;
   score: number;
   feedback: string;
   suggestions?: string[];
+  consistency?: CriterionConsistency;
+}
+
+export type ErrorCategory = 'grammar' | 'vocabulary' | 'spelling' | 'punctuation' | 'style';
+
+// "impeding" errors obscure the meaning or would confuse the reader
+export type ErrorSeverity = 'minor' | 'impeding';
+
+export interface LanguageError {
+  text: string;
+  correction: string;
+  // Taxonomy type such as "tense" or "collocation", or the model's own label when the taxonomy has no match
+  type: string;
+  // Top-level taxonomy category; absent when the type was not recognized
+  category?: ErrorCategory;
+  severity?: ErrorSeverity;
+  explanation: string;
+  // Surrounding words and 1-based sentence number quoted by the model, used to place repeated phrases
+  context?: string;
+  sentence?: number;
+  // Position in the writing; absent when the error could not be located
+  start?: number;
+  end?: number;
+  // Share of independent assessments that flagged this error (multi-sample mode only)
+  agreement?: number;
+  lowAgreement?: boolean;
+}
+
+export type ContentPointStatus = 'covered' | 'partial' | 'missed';
+
+// How one required content point of the task was handled, with the passage that supports the verdict
+export interface ContentPointAssessment {
+  point: string;
+  status: ContentPointStatus;
+  comment: string;
+  evidence?: string;
+  start?: number;
+  end?: number;
+}
+
+export type LengthStatus = 'under' | 'within' | 'over';
+
+// Word count against the range the exam sets for the task
+export interface LengthCheck {
+  wordCount: number;
+  min: number;
+  max: number;
+  status: LengthStatus;
+}
+
+// Criterion subscale total converted to the Cambridge English Scale
+export interface ScoreBreakdown {
+  subscaleTotal: number;
+  subscaleMax: number;
+  scaleScore: number;
+  grade: string;
+  cefr: string | null;
+  tableVersion: string;
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+// A word of the writing with the CEFR level of its headword; null when the word list does not have it
+export interface VocabularyToken {
+  start: number;
+  end: number;
+  level: CefrLevel | null;
+}
+
+// Content words of one level, as a share of all listed content words
+export interface CefrLevelShare {
+  level: CefrLevel;
+  count: number;
+  share: number;
+}
+
+// Minimum share of content words at or above a level expected for the exam
+export interface VocabularyTarget {
+  level: CefrLevel;
+  minShare: number;
+  share: number;
+  met: boolean;
+}
+
+export interface WordSuggestion {
+  word: string;
+  level: CefrLevel;
+}
+
+// One use of an overused word, with the alternatives the examiner model confirmed fit its sentence
+export interface OverusedWordUse {
+  start: number;
+  end: number;
+  sentence: number;
+  suggestions: WordSuggestion[];
+}
+
+export interface OverusedWord {
+  lemma: string;
+  level: CefrLevel;
+  count: number;
+  // Higher-level alternatives from the word list, before the model's check
+  candidates: WordSuggestion[];
+  uses: OverusedWordUse[];
+}
+
+export interface VocabularyProfile {
+  wordlistVersion: string;
+  contentWords: number;
+  // Content words the word list does not have, such as names and rare words
+  unlisted: number;
+  levels: CefrLevelShare[];
+  targets: VocabularyTarget[];
+  overused: OverusedWord[];
+  tokens: VocabularyToken[];
 }
 
 export interface AnalysisResult {
+  // Mean criterion score (0-5); score holds the reported subscale and scale conversion
   overallScore: number;
+  score: ScoreBreakdown;
   criteria: Criterion[];
-  errors?: Array<{
-    text: string;
-    correction: string;
-    type: string;
-    explanation: string;
-    start?: number;
-    end?: number;
-  }>;
+  errors?: LanguageError[];
+  contentPoints?: ContentPointAssessment[];
+  length?: LengthCheck;
+  sampling?: SamplingSummary;
+  errorStats?: ErrorStats;
+  // Deterministic measurements of the text, also given to the examiner model as evidence
+  metrics?: TextMetrics;
+  // CEFR profile of the vocabulary, measured locally against the bundled word list
+  vocabulary?: VocabularyProfile;
+  // Rule-based check of the task type's conventions, shown under Communicative Achievement
+  genre?: GenreCheck;
+  // Examiner prompt and rubric the assessment was made with, so results can be compared like for like
+  promptVersion?: string;
+  rubricVersion?: string;
+  // Set when the submission was saved to the student's history
+  submissionId?: string;
+  // How the result cache answered this request; only on responses, never stored
+  cache?: ResultCacheInfo;
+}
+
+export type ResultCacheStatus = 'hit' | 'miss' | 'bypass' | 'off';
+
+export interface ResultCacheInfo {
+  status: ResultCacheStatus;
+  // When the cached assessment was made (hits only)
+  cachedAt?: string;
+}
+
+export interface ParagraphMetrics {
+  count: number;
+  wordCounts: number[];
+  // Coefficient of variation of the paragraph lengths; 0 means perfectly even paragraphs
+  variation: number;
+}
+
+export interface SentenceMetrics {
+  count: number;
+  meanLength: number;
+  // Standard deviation of sentence length in words; higher means more varied sentences
+  lengthSpread: number;
+  shortest: number;
+  longest: number;
+  // Number of short (under 10 words), medium and long (over 25 words) sentences
+  bands: { short: number; medium: number; long: number };
+}
+
+export interface LexicalMetrics {
+  // Measure of textual lexical diversity; higher means more varied vocabulary (unstable below ~100 words)
+  mtld: number;
+  typeTokenRatio: number;
+  uniqueWords: number;
+}
+
+export type LinkingCategory = 'addition' | 'contrast' | 'cause' | 'example' | 'sequence' | 'conclusion' | 'stance';
+
+export interface LinkingUse {
+  category: LinkingCategory;
+  count: number;
+  devices: Array<{ phrase: string; count: number }>;
+}
+
+// Counts of structures found by pattern matching, so they are estimates
+export interface StructureMetrics {
+  passives: number;
+  relativeClauses: number;
+  subordinateClauses: number;
+  conditionals: number;
+  inversions: number;
+  cleftSentences: number;
+  // Share of sentences containing a subordinate or relative clause
+  complexSentenceShare: number;
+}
+
+// A content word repeated several times within a short stretch of text
+export interface RepetitionHotspot {
+  word: string;
+  count: number;
+  start: number;
+  end: number;
+}
+
+export interface TextMetrics {
+  wordCount: number;
+  paragraphs: ParagraphMetrics;
+  sentences: SentenceMetrics;
+  lexical: LexicalMetrics;
+  linking: LinkingUse[];
+  structures: StructureMetrics;
+  repetition: RepetitionHotspot[];
+}
+
+// Outcome of one rule-based check of a genre convention, such as headings in a report
+export interface GenreFinding {
+  id: string;
+  label: string;
+  met: boolean;
+  detail: string;
+  // The passage that satisfies the check, when there is one
+  start?: number;
+  end?: number;
+}
+
+export interface GenreCheck {
+  taskType: TaskType;
+  findings: GenreFinding[];
+}
+
+export interface ErrorCategoryCount {
+  category: ErrorCategory;
+  count: number;
+  impeding: number;
+  types: Array<{ type: string; count: number }>;
+}
+
+// Error counts per taxonomy category; types outside the taxonomy are listed separately rather than relabelled
+export interface ErrorStats {
+  total: number;
+  impeding: number;
+  categories: ErrorCategoryCount[];
+  unrecognized: Array<{ type: string; count: number }>;
+}
+
+export interface SamplingSummary {
+  requested: number;
+  completed: number;
+  aggregation: Aggregation;
 }
 
 export interface AnalysisRequest {
   examLevel: ExamLevel;
   taskType: TaskType;
   writing: string;
-} 
\ No newline at end of file
+  // The question the student answered, and the points it requires them to cover
+  taskPrompt?: string;
+  contentPoints?: string[];
+  // Run several independent assessments and combine them
+  samples?: number;
+  aggregation?: Aggregation;
+  // Save the submission to this student's history
+  studentId?: string;
+  // Mark the saved submission as a revision of this earlier one of the same student
+  revisionOf?: string;
+  // ISO 639-1 code of the student's first language; explanations and suggestions are then written in it
+  firstLanguage?: string;
+  // Skip the result cache and ask the examiner model again
+  reanalyze?: boolean;
+}
+
+// A saved script with the settings it was assessed under
+export interface Submission {
+  id: string;
+  studentId: string;
+  createdAt: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  taskPrompt?: string;
+  contentPoints?: string[];
+  firstLanguage?: string;
+  writing: string;
+  promptVersion: string;
+  result: AnalysisResult;
+  // Set when the script was handed in for a class assignment
+  assignmentId?: string;
+  late?: boolean;
+  // The earlier draft this one revises, and the examiner's cached comments on the change
+  revisionOf?: string;
+  revisionReview?: RevisionReview;
+  // Cached Band 5 rewrite, generated on request
+  modelRewrite?: ModelRewrite;
+}
+
+export interface SubmissionSummary {
+  id: string;
+  createdAt: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  promptVersion: string;
+  excerpt: string;
+  criteria: Record<string, number>;
+  score: ScoreBreakdown;
+  revisionOf?: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+export interface CriterionChange {
+  name: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+// An error flagged in both drafts
+export interface ErrorMatch {
+  before: LanguageError;
+  after: LanguageError;
+}
+
+export interface ErrorChanges {
+  fixed: LanguageError[];
+  remaining: ErrorMatch[];
+  introduced: LanguageError[];
+}
+
+// The examiner model's comments on what a revision changed
+export interface RevisionReview {
+  previousId: string;
+  summary: string;
+  improvements: string[];
+  remainingIssues: string[];
+}
+
+// What a change in the model answer improves
+export type RewriteFocus = 'accuracy' | 'range' | 'cohesion' | 'register' | 'organisation' | 'development';
+
+// One annotated upgrade in the model answer, placed in its rewritten paragraph when found
+export interface RewriteChange {
+  original: string;
+  revised: string;
+  reason: string;
+  criterion: CriterionName;
+  focus: RewriteFocus;
+  start?: number;
+  end?: number;
+}
+
+// A paragraph of the student's text next to its top-band rewrite
+export interface RewriteParagraph {
+  original: string;
+  rewritten: string;
+  changes: RewriteChange[];
+}
+
+// The student's text rewritten at Band 5 for its level and task type, keeping their ideas
+export interface ModelRewrite {
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  summary: string;
+  paragraphs: RewriteParagraph[];
+  wordCount: number;
+  promptVersion: string;
+  createdAt: string;
+}
+
+export interface DraftComparison {
+  previous: SubmissionSummary;
+  revised: SubmissionSummary;
+  diff: DiffSegment[];
+  criteria: CriterionChange[];
+  subscaleChange: number;
+  errors: ErrorChanges;
+  // Null when the examiner model gave no usable comments
+  review: RevisionReview | null;
+}
+
+export interface ErrorTypeCount {
+  type: string;
+  count: number;
+  submissions: number;
+}
+
+export interface StudentProgress {
+  studentId: string;
+  submissions: SubmissionSummary[];
+  errorTypes: ErrorTypeCount[];
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+  teacherId: string;
+  studentIds: string[];
+  // Invited students who have not accepted yet; the teacher cannot see their work
+  invitedStudentIds?: string[];
+  createdAt: string;
+}
+
+// What a student sees of a class they have been invited to
+export interface ClassInvitation {
+  classId: string;
+  className: string;
+  teacherId: string;
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  examLevel: ExamLevel;
+  taskType: TaskType;
+  taskPrompt: string;
+  contentPoints?: string[];
+  deadline: string;
+  createdAt: string;
+}
+
+export interface CriterionDistribution {
+  name: string;
+  // Number of students at each score, keyed by score
+  counts: Record<string, number>;
+  mean: number;
+  median: number;
+  belowBand: string[];
+}
+
+export interface CorrectionCount {
+  text: string;
+  correction: string;
+  type: string;
+  count: number;
+}
+
+// Class-wide view of the latest submission from each student for one assignment
+export interface ClassReport {
+  assignment: Assignment;
+  className: string;
+  band: number;
+  submitted: number;
+  missing: string[];
+  late: string[];
+  criteria: CriterionDistribution[];
+  errorTypes: ErrorTypeCount[];
+  corrections: CorrectionCount[];
+  students: Array<{ studentId: string; submissionId: string; criteria: Record<string, number>; score: ScoreBreakdown }>;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type BatchJobStatus = 'queued' | 'running' | 'completed';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  request: AnalysisRequest;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  result?: AnalysisResult;
+}
+
+export interface BatchJob {
+  id: string;
+  // User (or API key) that queued the job
+  ownerId?: string;
+  createdAt: string;
+  completedAt?: string;
+  status: BatchJobStatus;
+  items: BatchItem[];
+}
+
+// Returned instead of a result when the model never produced a valid assessment
+export interface AnalysisFailure {
+  error: 'Invalid model output';
+  message: string;
+  attempts: number;
+  issues: string[];
+}
+
+// Server-sent events from POST /api/analyze/stream, in the order they can arrive
+export type AnalysisStreamEvent =
+  // Raw text from the model, forwarded as it is generated
+  | { type: 'token'; text: string }
+  // A criterion or error, sent as soon as its JSON object is complete
+  | { type: 'criterion'; criterion: Criterion }
+  | { type: 'languageError'; error: LanguageError }
+  // The reply failed validation and is being re-requested; discard what was streamed so far
+  | { type: 'retry'; attempt: number; issues: string[] }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'failure'; error: string; message: string; issues?: string[] };
+
+export type Role = 'student' | 'teacher' | 'admin';
+
+// An account as returned by the API; the password hash never leaves the server
+export interface User {
+  // Also the student or teacher ID used by submissions and classes
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+}
+
+// What each role may use
+export interface RoleLimits {
+  examLevels: ExamLevel[];
+  // Analyses per UTC day; 0 for no limit
+  dailyAnalyses: number;
+  maxSamples: number;
+}